@@ -0,0 +1,96 @@
+import type { Collider } from '../src/types';
+import { World, FIXED_TIMESTEP, PLAYER_ATTACK_RANGE, PLAYER_ATTACK_ARC, createEmptyInput } from '../src/game/World';
+import { Monster, MONSTER_ATTACK_RANGE, MAX_MONSTER_SPEED } from '../src/game/Monster';
+import { MapGenerator } from '../src/game/MapGenerator';
+import { SpatialHash } from '../src/game/SpatialHash';
+import { GameRandom, RANDOM_STREAMS } from '../src/utils/random';
+import { willCollide, distance, isInArc } from '../src/utils/gameUtils';
+
+// 空间哈希基准测试：对比逐个检查和空间哈希在大量怪物时的每帧开销（npm run bench:spatial-hash）
+
+const MONSTER_COUNT = 600;
+const FRAMES = 120;
+const SPREAD = 1500;
+
+const random = new GameRandom(2024).stream(RANDOM_STREAMS.SPAWN);
+const mapGenerator = new MapGenerator(2024);
+mapGenerator.updateActiveChunks(0, 0);
+const obstacles = mapGenerator.getAllActiveObstacles();
+const player = { x: 0, y: 0 };
+
+const createMonsters = () => Array.from({ length: MONSTER_COUNT }, () =>
+  new Monster(random.range(-SPREAD, SPREAD), random.range(-SPREAD, SPREAD), 1)
+);
+
+// 逐个检查：每个怪物检查所有障碍物，攻击检查遍历所有怪物
+function runLinear(monsters: Monster[]): number {
+  const moveMargin = MAX_MONSTER_SPEED * FIXED_TIMESTEP;
+  let hits = 0;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    for (const monster of monsters) {
+      if (!willCollide(monster, moveMargin, 0, obstacles)) monster.x += moveMargin;
+      if (!willCollide(monster, 0, moveMargin, obstacles)) monster.y -= moveMargin;
+    }
+    for (const monster of monsters) {
+      if (isInArc(player, 0, PLAYER_ATTACK_ARC, PLAYER_ATTACK_RANGE, monster)) hits++;
+      if (distance(player, monster) <= MONSTER_ATTACK_RANGE) hits++;
+    }
+  }
+  return hits;
+}
+
+// 空间哈希：每帧重建怪物索引，只检查附近格子中的障碍物和怪物
+function runSpatialHash(monsters: Monster[]): number {
+  const moveMargin = MAX_MONSTER_SPEED * FIXED_TIMESTEP;
+  const obstacleIndex = new SpatialHash<Collider>();
+  const monsterIndex = new SpatialHash<Monster>();
+  obstacleIndex.rebuild(obstacles);
+  let hits = 0;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    for (const monster of monsters) {
+      const nearby = obstacleIndex.queryAABB({
+        x: monster.x - moveMargin,
+        y: monster.y - moveMargin,
+        width: monster.width + moveMargin * 2,
+        height: monster.height + moveMargin * 2
+      });
+      if (!willCollide(monster, moveMargin, 0, nearby)) monster.x += moveMargin;
+      if (!willCollide(monster, 0, moveMargin, nearby)) monster.y -= moveMargin;
+    }
+    monsterIndex.rebuild(monsters);
+    for (const monster of monsterIndex.queryRange(player, PLAYER_ATTACK_RANGE)) {
+      if (isInArc(player, 0, PLAYER_ATTACK_ARC, PLAYER_ATTACK_RANGE, monster)) hits++;
+    }
+    hits += monsterIndex.queryRange(player, MONSTER_ATTACK_RANGE).length;
+  }
+  return hits;
+}
+
+function measure(run: (monsters: Monster[]) => number, monsters: Monster[]): { ms: number; hits: number } {
+  const start = performance.now();
+  const hits = run(monsters);
+  return { ms: (performance.now() - start) / FRAMES, hits };
+}
+
+const initial = createMonsters();
+const copy = () => initial.map(monster => Object.assign(Object.create(Object.getPrototypeOf(monster)), monster) as Monster);
+// 先各运行一次预热JIT，避免先运行的一方吃亏
+measure(runLinear, copy());
+measure(runSpatialHash, copy());
+const linear = measure(runLinear, copy());
+const hashed = measure(runSpatialHash, copy());
+
+console.log(`${MONSTER_COUNT} monsters, ${obstacles.length} obstacles, ${FRAMES} frames`);
+console.log(`Linear scan: ${linear.ms.toFixed(3)} ms/frame`);
+console.log(`Spatial hash: ${hashed.ms.toFixed(3)} ms/frame`);
+console.log(`Speedup: ${(linear.ms / hashed.ms).toFixed(1)}x, same results: ${linear.hits === hashed.hits}`);
+
+// 完整世界模拟：大量怪物时单帧耗时应在60 FPS的帧预算内
+const world = new World(2024);
+world.getState().monsters.push(...createMonsters());
+const worldStart = performance.now();
+for (let frame = 0; frame < FRAMES; frame++) {
+  world.step(FIXED_TIMESTEP, createEmptyInput());
+}
+const worldMs = (performance.now() - worldStart) / FRAMES;
+console.log(`World step with ${world.getState().monsters.length} monsters: ${worldMs.toFixed(3)} ms/frame (budget ${(1000 * FIXED_TIMESTEP).toFixed(1)} ms)`);
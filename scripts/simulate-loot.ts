@@ -0,0 +1,18 @@
+import { getMonsterDefinition } from '../src/game/Monster';
+import { MONSTER_DEFINITIONS } from '../src/game/data/bestiary';
+import { simulateLootDrops, formatLootDistribution } from '../src/game/LootTables';
+
+// 掉落模拟：每种怪物在几个等级下各模拟10000次击杀，打印掉落分布（调整data/bestiary.ts中的掉落表时运行npm run simulate:loot）
+
+const KILLS = 10000;
+const LEVELS = [1, 10, 20];
+
+for (const id of Object.keys(MONSTER_DEFINITIONS)) {
+  const definition = getMonsterDefinition(id);
+  for (const level of LEVELS) {
+    const distribution = simulateLootDrops({ table: definition.loot, rank: definition.rank, level }, KILLS);
+    for (const line of formatLootDistribution(`${id} (${definition.rank}) Lv${level}`, distribution)) {
+      console.log(line);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { Equipment, EquipmentAffix, EquipmentRarity, EquipmentStat, EquipmentStats } from '../types';
+import { AFFIX_DEFINITIONS } from './data/affixes';
+import type { RandomStream } from '../utils/random';
+
+// 词缀位置：前缀写在名称前，后缀写在名称后
+export type AffixSlot = 'prefix' | 'suffix';
+
+// 词缀档位：物品等级不低于minLevel时可以出现，数值在[min, max]之间随机
+export interface AffixTier {
+  minLevel: number;
+  min: number;
+  max: number;
+}
+
+// 词缀定义（数据见data/affixes.ts）
+export interface AffixDefinition {
+  id: string;
+  slot: AffixSlot;
+  // 前缀写作“炽热的”，后缀写作“吸血”（名称中以“·”连接）
+  name: string;
+  stat: EquipmentStat;
+  weight: number;
+  // 可以出现的装备类型
+  types: Array<Equipment['type']>;
+  // 按minLevel从低到高排列
+  tiers: AffixTier[];
+}
+
+// 各稀有度的词缀数量
+export const AFFIX_COUNTS: Record<EquipmentRarity, number> = {
+  common: 0,
+  uncommon: 1,
+  rare: 2,
+  epic: 3,
+  legendary: 4
+};
+
+// 每件装备最多的前缀和后缀数量
+export const MAX_AFFIXES_PER_SLOT = 2;
+
+// 以比例显示的属性
+const PERCENT_STATS: ReadonlySet<EquipmentStat> = new Set(['criticalRate', 'lifesteal', 'attackSpeed', 'moveSpeed']);
+
+// 属性显示名称
+export const EQUIPMENT_STAT_NAMES: Record<EquipmentStat, string> = {
+  attack: '攻击力',
+  defense: '防御力',
+  maxHealth: '最大生命值',
+  criticalRate: '暴击率',
+  lifesteal: '生命偷取',
+  attackSpeed: '攻击速度',
+  moveSpeed: '移动速度',
+  fireDamage: '火焰伤害'
+};
+
+// 获取词缀定义
+export function getAffixDefinition(id: string): AffixDefinition | undefined {
+  return AFFIX_DEFINITIONS[id];
+}
+
+// 物品等级可以出现的最高档位（从1开始，等级不足时为0）
+export function getAffixTier(definition: AffixDefinition, level: number): number {
+  return definition.tiers.filter(tier => tier.minLevel <= level).length;
+}
+
+// 按稀有度随机装备的词缀：每个词缀最多出现一次，前缀和后缀各不超过MAX_AFFIXES_PER_SLOT个
+export function rollAffixes(type: Equipment['type'], rarity: EquipmentRarity, level: number, rng: RandomStream): EquipmentAffix[] {
+  const affixes: EquipmentAffix[] = [];
+  const slotCounts: Record<AffixSlot, number> = { prefix: 0, suffix: 0 };
+  
+  for (let i = 0; i < AFFIX_COUNTS[rarity]; i++) {
+    const candidates = Object.values(AFFIX_DEFINITIONS).filter(definition =>
+      definition.types.includes(type) &&
+      slotCounts[definition.slot] < MAX_AFFIXES_PER_SLOT &&
+      getAffixTier(definition, level) > 0 &&
+      !affixes.some(affix => affix.id === definition.id)
+    );
+    if (candidates.length === 0) break;
+    
+    const definition = rng.weighted(candidates, candidate => candidate.weight);
+    const tier = getAffixTier(definition, level);
+    const range = definition.tiers[tier - 1]!;
+    const value = PERCENT_STATS.has(definition.stat)
+      ? Math.round(rng.range(range.min, range.max) * 1000) / 1000
+      : rng.int(range.min, range.max);
+    
+    slotCounts[definition.slot]++;
+    affixes.push({ id: definition.id, tier, value });
+  }
+  
+  return affixes;
+}
+
+// 基础属性加上词缀数值
+export function sumAffixStats(baseStats: EquipmentStats, affixes: readonly EquipmentAffix[]): EquipmentStats {
+  const stats: EquipmentStats = { ...baseStats };
+  for (const affix of affixes) {
+    const definition = getAffixDefinition(affix.id);
+    if (!definition) continue;
+    stats[definition.stat] = (stats[definition.stat] ?? 0) + affix.value;
+  }
+  return stats;
+}
+
+// 按词缀生成装备名称：第一个前缀写在前面，第一个后缀以“·”接在后面
+export function composeEquipmentName(baseName: string, affixes: readonly EquipmentAffix[]): string {
+  const definitions = affixes.map(affix => getAffixDefinition(affix.id));
+  const prefix = definitions.find(definition => definition?.slot === 'prefix');
+  const suffix = definitions.find(definition => definition?.slot === 'suffix');
+  return `${prefix?.name ?? ''}${baseName}${suffix ? `·${suffix.name}` : ''}`;
+}
+
+// 格式化属性数值（带正负号，比例类属性显示为百分比）
+export function formatStatValue(stat: EquipmentStat, value: number): string {
+  const sign = value < 0 ? '-' : '+';
+  if (PERCENT_STATS.has(stat)) {
+    return `${sign}${Math.round(Math.abs(value) * 1000) / 10}%`;
+  }
+  return `${sign}${Math.round(Math.abs(value))}`;
+}
+
+// 属性的描述文本，如“攻击速度 +5%”
+export function describeStat(stat: EquipmentStat, value: number): string {
+  return `${EQUIPMENT_STAT_NAMES[stat]} ${formatStatValue(stat, value)}`;
+}
+
+// 词缀的描述文本，如“吸血(T2): 生命偷取 +3%”
+export function describeAffix(affix: EquipmentAffix): string {
+  const definition = getAffixDefinition(affix.id);
+  if (!definition) return `未知词缀 ${affix.id}`;
+  return `${definition.name}(T${affix.tier}): ${describeStat(definition.stat, affix.value)}`;
+}
@@ -0,0 +1,330 @@
+import type { Position, Player, Monster, BossTelegraph, BossSaveData, DamageEvent, DamageResult } from '../types';
+import type { GameEventBus } from './EventBus';
+import { BOSS_DEFINITIONS, DEFAULT_BOSS_ID } from './data/bosses';
+import { distance, getDirectionTowards } from '../utils/gameUtils';
+
+// Boss技能类型
+export type BossAbilityKey = 'slam' | 'charge' | 'summon';
+
+// 砸地：在玩家脚下预警，蓄力结束时对圆形范围造成伤害
+export interface BossSlamDefinition {
+  cooldown: number;
+  windup: number;
+  radius: number;
+  damage: number;
+}
+
+// 冲锋：预警冲锋路线，蓄力结束后沿直线冲刺，撞到玩家时造成伤害
+export interface BossChargeDefinition {
+  cooldown: number;
+  windup: number;
+  speed: number;
+  distance: number;
+  width: number;
+  damage: number;
+}
+
+// 召唤：蓄力结束后在Boss周围召唤小怪
+export interface BossSummonDefinition {
+  cooldown: number;
+  windup: number;
+  count: number;
+  radius: number;
+}
+
+// Boss阶段：生命比例降到healthThreshold以下时进入
+export interface BossPhaseDefinition {
+  healthThreshold: number;
+  // 本阶段可以使用的技能（按顺序选择第一个冷却完毕的技能）
+  abilities: BossAbilityKey[];
+  speedMultiplier: number;
+  damageMultiplier: number;
+}
+
+// Boss定义（数据见data/bosses.ts）
+export interface BossDefinition {
+  id: string;
+  name: string;
+  color: string;
+  // 战斗开始后经过该时间（秒）进入狂暴
+  enrageTime: number;
+  // 狂暴后伤害和移动速度的倍率
+  enrageMultiplier: number;
+  abilities: {
+    slam?: BossSlamDefinition;
+    charge?: BossChargeDefinition;
+    summon?: BossSummonDefinition;
+  };
+  // 按healthThreshold从高到低排列，第一个阶段的healthThreshold为1
+  phases: BossPhaseDefinition[];
+}
+
+// Boss控制器依赖的世界接口（由World提供）
+export interface BossHost {
+  spawnTelegraph(telegraph: BossTelegraph): void;
+  summonAdds(boss: Monster, count: number, radius: number): void;
+  dealDamage(event: DamageEvent): DamageResult;
+}
+
+// Boss控制器：负责阶段切换、狂暴计时和技能的蓄力与释放
+export class BossController {
+  private definition: BossDefinition;
+  private phase: number = 0;
+  // 战斗持续时间（秒），脱离战斗时重置
+  private combatTime: number = 0;
+  private enraged: boolean = false;
+  // 各技能剩余冷却（秒）
+  private cooldowns: Partial<Record<BossAbilityKey, number>> = {};
+  // 正在蓄力的技能、剩余蓄力时间和冲锋方向
+  private casting: BossAbilityKey | null = null;
+  private castRemaining: number = 0;
+  private castDirection: Position = { x: 0, y: 0 };
+  // 冲锋剩余时间（秒）和本次冲锋是否已命中
+  private chargeRemaining: number = 0;
+  private chargeHit: boolean = false;
+  
+  constructor(id: string = DEFAULT_BOSS_ID) {
+    this.definition = BOSS_DEFINITIONS[id] ?? BOSS_DEFINITIONS[DEFAULT_BOSS_ID]!;
+  }
+  
+  // 获取Boss定义ID
+  getId(): string {
+    return this.definition.id;
+  }
+  
+  // 获取Boss名称
+  getName(): string {
+    return this.definition.name;
+  }
+  
+  // 获取当前阶段（从0开始）
+  getPhase(): number {
+    return this.phase;
+  }
+  
+  // 获取阶段数量
+  getPhaseCount(): number {
+    return this.definition.phases.length;
+  }
+  
+  // 是否已狂暴
+  isEnraged(): boolean {
+    return this.enraged;
+  }
+  
+  // 距离狂暴的剩余时间（秒）
+  getEnrageRemaining(): number {
+    return Math.max(0, this.definition.enrageTime - this.combatTime);
+  }
+  
+  // 是否在战斗中
+  isInCombat(): boolean {
+    return this.combatTime > 0;
+  }
+  
+  // 伤害倍率（阶段和狂暴）
+  getDamageMultiplier(): number {
+    return this.getCurrentPhase().damageMultiplier * (this.enraged ? this.definition.enrageMultiplier : 1);
+  }
+  
+  // 移动速度倍率（阶段和狂暴）
+  getSpeedMultiplier(): number {
+    return this.getCurrentPhase().speedMultiplier * (this.enraged ? this.definition.enrageMultiplier : 1);
+  }
+  
+  // 是否正在蓄力或冲锋（此时不进行普通攻击）
+  isBusy(): boolean {
+    return this.casting !== null || this.chargeRemaining > 0;
+  }
+  
+  // 技能接管移动时的速度（像素/秒）：蓄力时原地不动，冲锋时沿冲锋方向移动；不接管时为null
+  getForcedVelocity(): Position | null {
+    if (this.chargeRemaining > 0) {
+      const speed = this.definition.abilities.charge?.speed ?? 0;
+      return { x: this.castDirection.x * speed, y: this.castDirection.y * speed };
+    }
+    if (this.casting) return { x: 0, y: 0 };
+    return null;
+  }
+  
+  // 冲锋撞到障碍物时停止
+  stopCharge(): void {
+    this.chargeRemaining = 0;
+  }
+  
+  // 推进Boss逻辑（deltaTime单位：秒），只在Boss追击或攻击玩家时进行
+  update(deltaTime: number, boss: Monster, player: Player, host: BossHost, events: GameEventBus): void {
+    this.updatePhase(boss, events);
+    
+    const state = boss.getAIState();
+    if (state !== 'chase' && state !== 'attack') {
+      // 脱离战斗：中断技能，重置狂暴计时
+      this.casting = null;
+      this.chargeRemaining = 0;
+      this.combatTime = 0;
+      this.enraged = false;
+      return;
+    }
+    
+    this.combatTime += deltaTime;
+    if (!this.enraged && this.combatTime >= this.definition.enrageTime) {
+      this.enraged = true;
+      events.emit('bossEnraged', { boss });
+    }
+    
+    for (const key of Object.keys(this.cooldowns) as BossAbilityKey[]) {
+      this.cooldowns[key] = Math.max(0, (this.cooldowns[key] ?? 0) - deltaTime);
+    }
+    
+    if (this.chargeRemaining > 0) {
+      this.updateCharge(deltaTime, boss, player, host);
+      return;
+    }
+    
+    if (this.casting) {
+      this.castRemaining -= deltaTime;
+      if (this.castRemaining <= 0) {
+        this.release(boss, host);
+      }
+      return;
+    }
+    
+    const ability = this.getCurrentPhase().abilities.find(key =>
+      this.definition.abilities[key] && (this.cooldowns[key] ?? 0) <= 0
+    );
+    if (ability) {
+      this.startCast(ability, boss, player, host);
+    }
+  }
+  
+  // 导出存档数据
+  toSaveData(): BossSaveData {
+    return {
+      id: this.definition.id,
+      phase: this.phase,
+      combatTime: this.combatTime,
+      enraged: this.enraged,
+      cooldowns: { ...this.cooldowns },
+      casting: this.casting,
+      castRemaining: this.castRemaining,
+      castDirection: { ...this.castDirection },
+      chargeRemaining: this.chargeRemaining,
+      chargeHit: this.chargeHit
+    };
+  }
+  
+  // 从存档数据创建
+  static fromSaveData(data: BossSaveData): BossController {
+    const controller = new BossController(data.id);
+    controller.phase = Math.min(data.phase, controller.definition.phases.length - 1);
+    controller.combatTime = data.combatTime;
+    controller.enraged = data.enraged;
+    controller.cooldowns = { ...data.cooldowns };
+    controller.casting = data.casting;
+    controller.castRemaining = data.castRemaining;
+    controller.castDirection = { ...data.castDirection };
+    controller.chargeRemaining = data.chargeRemaining;
+    controller.chargeHit = data.chargeHit;
+    return controller;
+  }
+  
+  private getCurrentPhase(): BossPhaseDefinition {
+    return this.definition.phases[this.phase] ?? this.definition.phases[0]!;
+  }
+  
+  // 生命降到下一阶段的阈值以下时进入下一阶段（阶段不会回退）
+  private updatePhase(boss: Monster, events: GameEventBus): void {
+    const healthRatio = boss.health / boss.maxHealth;
+    let next = this.definition.phases[this.phase + 1];
+    while (next && healthRatio <= next.healthThreshold) {
+      this.phase++;
+      events.emit('bossPhaseChanged', { boss, phase: this.phase });
+      next = this.definition.phases[this.phase + 1];
+    }
+  }
+  
+  // 开始蓄力，并放置地面预警
+  private startCast(ability: BossAbilityKey, boss: Monster, player: Player, host: BossHost): void {
+    const abilities = this.definition.abilities;
+    
+    if (ability === 'slam' && abilities.slam) {
+      const slam = abilities.slam;
+      this.beginCast(ability, slam.windup, slam.cooldown);
+      host.spawnTelegraph(this.createTelegraph('circle', player, player, slam.radius, slam.windup, slam.damage * this.getDamageMultiplier(), boss));
+    } else if (ability === 'charge' && abilities.charge) {
+      const charge = abilities.charge;
+      this.beginCast(ability, charge.windup, charge.cooldown);
+      this.castDirection = getDirectionTowards(boss, player);
+      const end = {
+        x: boss.x + this.castDirection.x * charge.distance,
+        y: boss.y + this.castDirection.y * charge.distance
+      };
+      host.spawnTelegraph(this.createTelegraph('line', boss, end, charge.width / 2, charge.windup, 0, boss));
+    } else if (ability === 'summon' && abilities.summon) {
+      const summon = abilities.summon;
+      this.beginCast(ability, summon.windup, summon.cooldown);
+      host.spawnTelegraph(this.createTelegraph('circle', boss, boss, summon.radius, summon.windup, 0, boss));
+    }
+  }
+  
+  private beginCast(ability: BossAbilityKey, windup: number, cooldown: number): void {
+    this.casting = ability;
+    this.castRemaining = windup;
+    this.cooldowns[ability] = cooldown;
+  }
+  
+  // 蓄力结束：冲锋开始冲刺，召唤生成小怪（砸地的伤害由预警结束时结算）
+  private release(boss: Monster, host: BossHost): void {
+    const abilities = this.definition.abilities;
+    
+    if (this.casting === 'charge' && abilities.charge) {
+      this.chargeRemaining = abilities.charge.distance / abilities.charge.speed;
+      this.chargeHit = false;
+    } else if (this.casting === 'summon' && abilities.summon) {
+      host.summonAdds(boss, abilities.summon.count, abilities.summon.radius);
+    }
+    this.casting = null;
+  }
+  
+  // 冲锋中撞到玩家时造成一次伤害
+  private updateCharge(deltaTime: number, boss: Monster, player: Player, host: BossHost): void {
+    const charge = this.definition.abilities.charge;
+    this.chargeRemaining = Math.max(0, this.chargeRemaining - deltaTime);
+    if (!charge || this.chargeHit) return;
+    
+    if (distance(boss, player) <= charge.width / 2 + boss.width / 2) {
+      this.chargeHit = true;
+      host.dealDamage({
+        source: boss,
+        target: player,
+        amount: charge.damage,
+        multiplier: this.getDamageMultiplier(),
+        damageType: 'physical',
+        tags: ['boss', 'charge']
+      });
+    }
+  }
+  
+  private createTelegraph(
+    kind: BossTelegraph['kind'],
+    from: Position,
+    to: Position,
+    radius: number,
+    duration: number,
+    damage: number,
+    source: Monster
+  ): BossTelegraph {
+    return {
+      kind,
+      x: from.x,
+      y: from.y,
+      toX: to.x,
+      toY: to.y,
+      radius,
+      duration,
+      remaining: duration,
+      damage,
+      source
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import type { DamageEvent, DamageResult, Player, Monster } from '../types';
+import { GameRandom, RANDOM_STREAMS, defaultRandom } from '../utils/random';
+import { EventBus, type GameEventBus } from './EventBus';
+
+// 防御最多减免的伤害比例
+export const MAX_DEFENSE_MITIGATION = 0.75;
+
+// 抗性上限（负数抗性表示易伤）
+export const MAX_RESISTANCE = 0.9;
+
+// 单次伤害的最小值
+export const MIN_DAMAGE = 1;
+
+// 命中回调（吸血等效果），伤害扣除后按注册顺序调用
+export type OnHitHook = (result: DamageResult) => void;
+
+// 暴击属性
+export interface CriticalStats {
+  chance: number;
+  multiplier: number;
+}
+
+// 获取攻击者攻击力（玩家为计入所有修正后的最终值）
+export function getAttackPower(source: Player | Monster): number {
+  return source.attack;
+}
+
+// 获取目标防御力（玩家为计入所有修正后的最终值）
+export function getDefense(target: Player | Monster): number {
+  return target.defense;
+}
+
+// 获取攻击者暴击属性（玩家按暴击率和暴击伤害属性，Boss 10%几率2倍，普通怪物不暴击）
+export function getCriticalStats(source: Player | Monster): CriticalStats {
+  if (source.type === 'player') return { chance: source.critChance, multiplier: source.critDamage };
+  if (source.isBoss) return { chance: 0.1, multiplier: 2 };
+  return { chance: 0, multiplier: 1 };
+}
+
+// 伤害结算器：近战、技能和怪物攻击都通过它结算，结算顺序为：
+//   1. 基础伤害：事件的amount，带'attack'标签时加上攻击者攻击力，再乘以事件的伤害倍率
+//   2. 暴击：isCritical未指定时按攻击者暴击率判定，暴击时乘以暴击倍率
+//   3. 减免：物理伤害按目标防御减免（最多MAX_DEFENSE_MITIGATION），其他类型按目标抗性减免
+//   4. 易伤：乘以目标状态效果的受伤倍率
+//   5. 扣除生命：最终伤害至少为MIN_DAMAGE
+//   6. 命中回调：按注册顺序调用，最后派发damageDealt事件
+export class DamageResolver {
+  private random: GameRandom;
+  private events: GameEventBus;
+  private onHitHooks: OnHitHook[] = [];
+  
+  constructor(random: GameRandom = defaultRandom, events: GameEventBus = new EventBus()) {
+    this.random = random;
+    this.events = events;
+  }
+  
+  // 注册命中回调，返回取消注册的函数
+  addOnHitHook(hook: OnHitHook): () => void {
+    this.onHitHooks.push(hook);
+    return () => {
+      this.onHitHooks = this.onHitHooks.filter(h => h !== hook);
+    };
+  }
+  
+  // 结算一次伤害并应用到目标
+  resolve(event: DamageEvent): DamageResult {
+    const { source, target, damageType } = event;
+    const tags = event.tags ? [...event.tags] : [];
+    
+    // 1. 基础伤害
+    let amount = event.amount;
+    if (source && tags.includes('attack')) {
+      amount += getAttackPower(source);
+    }
+    amount *= event.multiplier ?? 1;
+    
+    // 2. 暴击
+    let isCritical = event.isCritical ?? false;
+    const critical = source ? getCriticalStats(source) : { chance: 0, multiplier: 1 };
+    if (event.isCritical === undefined && critical.chance > 0) {
+      isCritical = this.random.stream(RANDOM_STREAMS.COMBAT).chance(critical.chance);
+    }
+    if (isCritical) {
+      amount *= critical.multiplier;
+    }
+    const baseAmount = amount;
+    
+    // 3. 防御和抗性减免
+    if (damageType === 'physical') {
+      amount -= Math.min(getDefense(target), amount * MAX_DEFENSE_MITIGATION);
+    } else {
+      const resistance = Math.min(MAX_RESISTANCE, target.resistances?.[damageType] ?? 0);
+      amount *= 1 - resistance;
+    }
+    
+    // 4. 易伤
+    amount *= target.statusEffects.getDamageTakenMultiplier();
+    
+    // 5. 扣除生命
+    amount = Math.max(MIN_DAMAGE, amount);
+    const wasAlive = target.health > 0;
+    target.takeDamage(amount);
+    
+    const result: DamageResult = {
+      source,
+      target,
+      damageType,
+      baseAmount,
+      mitigated: Math.max(0, baseAmount - amount),
+      amount,
+      isCritical,
+      isKill: wasAlive && target.health <= 0,
+      tags
+    };
+    
+    // 6. 命中回调和事件
+    this.onHitHooks.forEach(hook => hook(result));
+    this.events.emit('damageDealt', result);
+    return result;
+  }
+}
@@ -1,26 +1,102 @@
-import type { Equipment, Player } from '../types';
+import type { Equipment, EquipmentAffix, EquipmentRarity, EquipmentSaveData, EquipmentStat, EquipmentStats, Player, StatModifier } from '../types';
 import { EQUIPMENT_TYPES, RARITY_TYPES } from '../types';
-import { generateId, random, randomInt } from '../utils/gameUtils';
+import { generateId } from '../utils/gameUtils';
+import { rollAffixes, sumAffixStats, composeEquipmentName, describeStat, describeAffix } from './Affixes';
+import { RandomStream, RANDOM_STREAMS, defaultRandom } from '../utils/random';
 
+// 稀有度对应的颜色
+const RARITY_COLORS: Record<string, string> = {
+  common: '#FFFFFF',
+  uncommon: '#4CAF50',
+  rare: '#2196F3',
+  epic: '#9C27B0',
+  legendary: '#FFD700'
+};
+
+// 获取稀有度颜色（也用于没有getRarityColor方法的装备，如怪物掉落的装备）
+export function getRarityColor(rarity: string): string {
+  return RARITY_COLORS[rarity] || '#FFFFFF';
+}
+
+// 装备属性对应的角色属性修正（火焰伤害在命中时单独结算，不计入角色属性）
+const EQUIPMENT_STAT_MODIFIERS: Partial<Record<EquipmentStat, Pick<StatModifier, 'stat' | 'type'>>> = {
+  attack: { stat: 'attack', type: 'flat' },
+  defense: { stat: 'defense', type: 'flat' },
+  maxHealth: { stat: 'maxHealth', type: 'flat' },
+  criticalRate: { stat: 'critChance', type: 'flat' },
+  lifesteal: { stat: 'lifesteal', type: 'flat' },
+  attackSpeed: { stat: 'attackSpeed', type: 'percent' },
+  moveSpeed: { stat: 'moveSpeed', type: 'percent' }
+};
+
+// 获取装备提供的角色属性修正
+export function getEquipmentModifiers(equipment: Equipment): StatModifier[] {
+  const modifiers: StatModifier[] = [];
+  for (const [stat, value] of Object.entries(equipment.stats) as Array<[EquipmentStat, number | undefined]>) {
+    const target = EQUIPMENT_STAT_MODIFIERS[stat];
+    if (target && typeof value === 'number' && value !== 0) {
+      modifiers.push({ ...target, value });
+    }
+  }
+  return modifiers;
+}
+
+// 装备类型显示名称
+export const EQUIPMENT_TYPE_NAMES: Record<Equipment['type'], string> = {
+  WEAPON: '武器',
+  ARMOR: '护甲',
+  ACCESSORY: '饰品'
+};
+
+// 物品栏的排序方式：按稀有度（从高到低）、按类型或按物品等级（从高到低）
+export type EquipmentSortMode = 'rarity' | 'type' | 'level';
+
+// 排序装备（返回新数组，排序依据相同时保持原顺序）
+export function sortEquipment(items: readonly Equipment[], mode: EquipmentSortMode): Equipment[] {
+  const rarities: string[] = Object.values(RARITY_TYPES);
+  const types: string[] = Object.values(EQUIPMENT_TYPES);
+  const keys: Record<EquipmentSortMode, (item: Equipment) => number> = {
+    rarity: item => -rarities.indexOf(item.rarity),
+    type: item => types.indexOf(item.type),
+    level: item => -getEquipmentLevel(item)
+  };
+  const key = keys[mode];
+  return [...items].sort((a, b) => key(a) - key(b));
+}
+
+// 装备与对比装备的属性差值（两件装备任一件有的属性都会列出，没有对比装备时差值为装备自身的属性）
+export function compareEquipmentStats(
+  item: Equipment,
+  other: Equipment | null
+): Array<{ stat: EquipmentStat; value: number; delta: number }> {
+  const stats = new Set([...Object.keys(item.stats), ...Object.keys(other?.stats ?? {})] as EquipmentStat[]);
+  return [...stats].map(stat => {
+    const value = item.stats[stat] ?? 0;
+    return { stat, value, delta: value - (other?.stats[stat] ?? 0) };
+  });
+}
 
+// 已装备物品某项属性之和
+export function getEquippedStat(owner: { equipment: readonly Equipment[] }, stat: EquipmentStat): number {
+  return owner.equipment.reduce((sum, item) => item.isEquipped ? sum + (item.stats[stat] ?? 0) : sum, 0);
+}
 
 // 装备基础类
+// 名称、描述和总属性由基础名称、基础属性和词缀计算，修改词缀时调用setAffixes
 class BaseEquipment implements Equipment {
   id: string;
   name: string;
+  baseName: string;
   type: keyof typeof EQUIPMENT_TYPES;
   rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary'; // 修改为与接口兼容的类型
   level: number;
-  stats: {
-    attack?: number;
-    defense?: number;
-    maxHealth?: number;
-    criticalRate?: number;
-    lifesteal?: number;
-    [key: string]: number | undefined;
-  };
+  // 装备类型自带的基础属性（不含词缀）
+  baseStats: EquipmentStats;
+  affixes: EquipmentAffix[];
+  stats: EquipmentStats;
   description: string;
   isEquipped: boolean; // 添加isEquipped属性声明
+  specialEffect?: string;
   
   constructor(
     name: string,
@@ -30,15 +106,26 @@ class BaseEquipment implements Equipment {
   ) {
     this.id = generateId();
     this.name = name;
+    this.baseName = name;
     this.type = type;
     this.rarity = rarity.toLowerCase() as 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary'; // 确保存储为小写
     this.level = level;
+    this.baseStats = {};
+    this.affixes = [];
     this.stats = {};
     this.description = this.generateDescription();
     this.isEquipped = false; // 在构造函数中初始化
   }
   
-  // 生成装备描述
+  // 设置词缀，并重新计算总属性、名称和描述
+  setAffixes(affixes: EquipmentAffix[]): void {
+    this.affixes = affixes.map(affix => ({ ...affix }));
+    this.stats = sumAffixStats(this.baseStats, this.affixes);
+    this.name = composeEquipmentName(this.baseName, this.affixes);
+    this.description = this.generateDescription();
+  }
+  
+  // 生成装备描述：稀有度和名称，然后是基础属性和每个词缀各占一行
   private generateDescription(): string {
     const rarityNames: Record<string, string> = {
       common: '普通',
@@ -48,115 +135,19 @@ class BaseEquipment implements Equipment {
       legendary: '传说'
     };
     
-    let desc = `${rarityNames[this.rarity] || '未知'} ${this.name}`;
-    
-    // 添加属性描述
-    if (Object.keys(this.stats).length > 0) {
-      desc += ' 属性:';
-      for (const [stat, value] of Object.entries(this.stats)) {
-        if (typeof value === 'number' && value > 0) {
-          const statNames: Record<string, string> = {
-            attack: '攻击力',
-            defense: '防御力',
-            maxHealth: '最大生命值',
-            criticalRate: '暴击率',
-            lifesteal: '生命偷取'
-          };
-          desc += ` ${statNames[stat] || stat}+${value}`;
-        }
+    const lines = [`${rarityNames[this.rarity] || '未知'} ${this.name} (Lv.${this.level})`];
+    for (const [stat, value] of Object.entries(this.baseStats) as Array<[EquipmentStat, number | undefined]>) {
+      if (typeof value === 'number' && value > 0) {
+        lines.push(describeStat(stat, value));
       }
     }
+    lines.push(...this.affixes.map(describeAffix));
     
-    return desc;
+    return lines.join('\n');
   }
   
-  // 应用装备效果到玩家
-  applyEffect(player: Player): void {
-    // 应用装备效果到玩家
-    for (const [stat, value] of Object.entries(this.stats)) {
-      if (typeof value !== 'number') continue;
-      
-      switch (stat) {
-        case 'attack':
-          if ('baseAttack' in player) {
-            (player as any).baseAttack += value;
-          } else {
-            player.attack += value;
-          }
-          break;
-        case 'defense':
-          if ('baseDefense' in player) {
-            (player as any).baseDefense += value;
-          } else {
-            player.defense += value;
-          }
-          break;
-        case 'maxHealth':
-          player.maxHealth += value;
-          player.health = Math.min(player.health + value, player.maxHealth);
-          break;
-        case 'criticalRate':
-          if ('criticalRate' in player) {
-            (player as any).criticalRate += value;
-          }
-          break;
-        case 'lifesteal':
-          if ('lifesteal' in player) {
-            (player as any).lifesteal += value;
-          }
-          break;
-      }
-    }
-  }
-
-  removeEffect(player: Player): void {
-    // 从玩家身上移除装备效果
-    for (const [stat, value] of Object.entries(this.stats)) {
-      if (typeof value !== 'number') continue;
-      
-      switch (stat) {
-        case 'attack':
-          if ('baseAttack' in player) {
-            (player as any).baseAttack -= value;
-          } else {
-            player.attack -= value;
-          }
-          break;
-        case 'defense':
-          if ('baseDefense' in player) {
-            (player as any).baseDefense -= value;
-          } else {
-            player.defense -= value;
-          }
-          break;
-        case 'maxHealth':
-          player.maxHealth -= value;
-          player.health = Math.max(1, player.health - value);
-          break;
-        case 'criticalRate':
-          if ('criticalRate' in player) {
-            (player as any).criticalRate -= value;
-          }
-          break;
-        case 'lifesteal':
-          if ('lifesteal' in player) {
-            (player as any).lifesteal -= value;
-          }
-          break;
-      }
-    }
-  }
-
   getRarityColor(): string {
-    const rarityColors: Record<string, string> = {
-      common: '#FFFFFF',
-      uncommon: '#4CAF50',
-      rare: '#2196F3',
-      epic: '#9C27B0',
-      legendary: '#FFD700'
-    };
-    
-    return rarityColors[this.rarity] || '#FFFFFF';
+    return getRarityColor(this.rarity);
   }
   
   // 添加缺失的方法定义
@@ -172,74 +163,62 @@ class BaseEquipment implements Equipment {
 }
 
 // 武器类装备
+// 未传入随机流时不生成属性（用于读档还原）
 class Weapon extends BaseEquipment {
-  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number) {
+  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number, rng?: RandomStream) {
     super(name, EQUIPMENT_TYPES.WEAPON, rarity as keyof typeof RARITY_TYPES, level);
-    this.generateWeaponStats();
+    if (rng) this.generateWeaponStats(rng);
   }
   
-  private generateWeaponStats(): void {
-    // 基于稀有度和等级生成武器属性
+  private generateWeaponStats(rng: RandomStream): void {
+    // 基于稀有度和等级生成武器的基础属性（其余属性来自词缀）
     const rarityMultiplier = this.getRarityMultiplier();
     const levelMultiplier = 1 + (this.level - 1) * 0.1;
     
-    // 武器主要加攻击力
-    const baseAttack = randomInt(10, 30);
-    this.stats.attack = Math.floor(baseAttack * rarityMultiplier * levelMultiplier);
-    
-    // 高级武器可能有暴击率
-    if (this.rarity >= RARITY_TYPES.RARE) {
-      this.stats.criticalRate = random(0.02, 0.05) * rarityMultiplier;
-    }
+    // 武器的基础属性为攻击力
+    const baseAttack = rng.int(10, 30);
+    this.baseStats.attack = Math.floor(baseAttack * rarityMultiplier * levelMultiplier);
   }
 }
 
 // 防具类装备
 class Armor extends BaseEquipment {
-  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number) {
+  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number, rng?: RandomStream) {
     super(name, EQUIPMENT_TYPES.ARMOR, rarity as keyof typeof RARITY_TYPES, level);
-    this.generateArmorStats();
+    if (rng) this.generateArmorStats(rng);
   }
   
-  private generateArmorStats(): void {
+  private generateArmorStats(rng: RandomStream): void {
     const rarityMultiplier = this.getRarityMultiplier();
     const levelMultiplier = 1 + (this.level - 1) * 0.1;
     
-    // 防具主要加防御力和生命值
-    const baseDefense = randomInt(5, 15);
-    const baseHealth = randomInt(20, 50);
+    // 防具的基础属性为防御力和生命值
+    const baseDefense = rng.int(5, 15);
+    const baseHealth = rng.int(20, 50);
     
-    this.stats.defense = Math.floor(baseDefense * rarityMultiplier * levelMultiplier);
-    this.stats.maxHealth = Math.floor(baseHealth * rarityMultiplier * levelMultiplier);
+    this.baseStats.defense = Math.floor(baseDefense * rarityMultiplier * levelMultiplier);
+    this.baseStats.maxHealth = Math.floor(baseHealth * rarityMultiplier * levelMultiplier);
   }
 }
 
 // 饰品类装备
 class Accessory extends BaseEquipment {
-  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number) {
+  constructor(name: string, rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary', level: number, rng?: RandomStream) {
     super(name, EQUIPMENT_TYPES.ACCESSORY, rarity as keyof typeof RARITY_TYPES, level);
-    this.generateAccessoryStats();
+    if (rng) this.generateAccessoryStats(rng);
   }
   
-  private generateAccessoryStats(): void {
+  private generateAccessoryStats(rng: RandomStream): void {
     const rarityMultiplier = this.getRarityMultiplier();
     const levelMultiplier = 1 + (this.level - 1) * 0.1;
     
-    // 饰品可以加各种属性
+    // 饰品的基础属性随机为攻击力、防御力或生命值之一
     const statOptions = [
-      () => { this.stats.attack = Math.floor(randomInt(5, 15) * rarityMultiplier * levelMultiplier); },
-      () => { this.stats.defense = Math.floor(randomInt(3, 10) * rarityMultiplier * levelMultiplier); },
-      () => { this.stats.maxHealth = Math.floor(randomInt(15, 40) * rarityMultiplier * levelMultiplier); },
-      () => { this.stats.criticalRate = random(0.01, 0.05) * rarityMultiplier; },
-      () => { this.stats.lifesteal = random(0.01, 0.04) * rarityMultiplier; }
+      () => { this.baseStats.attack = Math.floor(rng.int(5, 15) * rarityMultiplier * levelMultiplier); },
+      () => { this.baseStats.defense = Math.floor(rng.int(3, 10) * rarityMultiplier * levelMultiplier); },
+      () => { this.baseStats.maxHealth = Math.floor(rng.int(15, 40) * rarityMultiplier * levelMultiplier); }
     ];
-    
-    // 根据稀有度决定属性数量
-    const statCount = Math.min(1 + this.getRarityLevel(), statOptions.length);
-    
-    // 随机选择属性
-    const selectedStats = [...statOptions].sort(() => Math.random() - 0.5).slice(0, statCount);
-    selectedStats.forEach(statGen => statGen());
+    rng.pick(statOptions)();
   }
 }
 
@@ -267,77 +246,54 @@ class EquipmentFactory {
     '力量之戒', '守护之符', '生命项链', '幸运耳环', '魔法徽章'
   ];
   
-  // 生成随机装备
-  generateRandomEquipment(playerLevel: number, isBossDrop: boolean = false): Equipment {
-    const rarity = this.generateRarity(isBossDrop);
-    const equipmentLevel = Math.floor(playerLevel * (0.8 + Math.random() * 0.4));
-    const equipmentType = this.getRandomEquipmentType();
-    const name = this.getRandomEquipmentName(equipmentType);
-    
-    // 转换稀有度为小写以匹配Equipment接口
-    const rarityLower = rarity.toLowerCase() as 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+  // 生成指定稀有度的随机装备（装备等级在基础等级的80%~120%之间浮动，稀有度由掉落表决定，词缀数量由稀有度决定）
+  generateRandomEquipment(
+    level: number,
+    rarity: EquipmentRarity,
+    rng: RandomStream = defaultRandom.stream(RANDOM_STREAMS.EQUIPMENT)
+  ): Equipment {
+    const equipmentLevel = Math.max(1, Math.floor(level * (0.8 + rng.next() * 0.4)));
+    const equipmentType = this.getRandomEquipmentType(rng);
+    const name = this.getRandomEquipmentName(equipmentType, rng);
     
+    let equipment: BaseEquipment;
     switch (equipmentType) {
-      case 'WEAPON':
-        return new Weapon(name, rarityLower, equipmentLevel);
       case 'ARMOR':
-        return new Armor(name, rarityLower, equipmentLevel);
+        equipment = new Armor(name, rarity, equipmentLevel, rng);
+        break;
       case 'ACCESSORY':
-        return new Accessory(name, rarityLower, equipmentLevel);
+        equipment = new Accessory(name, rarity, equipmentLevel, rng);
+        break;
+      case 'WEAPON':
       default:
-        return new Weapon(name, rarityLower, equipmentLevel);
+        equipment = new Weapon(name, rarity, equipmentLevel, rng);
+        break;
     }
-  }
-  
-  // 生成稀有度
-  private generateRarity(isBossDrop: boolean): keyof typeof RARITY_TYPES {
-    // 根据是否为Boss掉落调整权重
-    const weights = {
-      COMMON: isBossDrop ? 0 : 60,
-      UNCOMMON: isBossDrop ? 10 : 30,
-      RARE: isBossDrop ? 30 : 8,
-      EPIC: isBossDrop ? 40 : 2,
-      LEGENDARY: isBossDrop ? 20 : 0
-    };
     
-    // 内联的加权随机函数
-    const weightedRandom = (weights: Record<string, number>): string => {
-      const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
-      let randomValue = Math.random() * totalWeight;
-      
-      for (const [key, weight] of Object.entries(weights)) {
-        randomValue -= weight;
-        if (randomValue <= 0) {
-          return key;
-        }
-      }
-      
-      // 确保返回字符串类型，避免undefined
-      return Object.keys(weights)[0] || 'COMMON';
-    };
-    
-    return weightedRandom(weights) as keyof typeof RARITY_TYPES;
+    // 按稀有度随机词缀，名称和描述由词缀生成
+    equipment.setAffixes(rollAffixes(equipment.type, rarity, equipmentLevel, rng));
+    return equipment;
   }
   
   // 获取随机装备类型
-  private getRandomEquipmentType(): keyof typeof EQUIPMENT_TYPES {
+  private getRandomEquipmentType(rng: RandomStream): keyof typeof EQUIPMENT_TYPES {
     const types = Object.keys(EQUIPMENT_TYPES) as (keyof typeof EQUIPMENT_TYPES)[];
-    return types[Math.floor(Math.random() * types.length)] ?? 'WEAPON'; // 添加nullish合并操作符
+    return rng.pick(types);
   }
   
   // 获取随机装备名称 - 移除未使用的rarity参数
-  private getRandomEquipmentName(type: keyof typeof EQUIPMENT_TYPES): string {
+  private getRandomEquipmentName(type: keyof typeof EQUIPMENT_TYPES, rng: RandomStream): string {
     let baseName = '';
     
     switch (type) {
       case 'WEAPON':
-        baseName = this.weaponNames[Math.floor(Math.random() * this.weaponNames.length)] || '木剑';
+        baseName = rng.pick(this.weaponNames);
         break;
       case 'ARMOR':
-        baseName = this.armorNames[Math.floor(Math.random() * this.armorNames.length)] || '布甲';
+        baseName = rng.pick(this.armorNames);
         break;
       case 'ACCESSORY':
-        baseName = this.accessoryNames[Math.floor(Math.random() * this.accessoryNames.length)] || '戒指';
+        baseName = rng.pick(this.accessoryNames);
         break;
       default:
         baseName = '木剑';
@@ -355,18 +311,9 @@ class EquipmentManager {
     this.equipmentFactory = new EquipmentFactory();
   }
   
-  // 生成BOSS掉落的装备
-  generateBossDrop(playerLevel: number): Equipment {
-    return this.equipmentFactory.generateRandomEquipment(playerLevel, true);
-  }
-  
-  // 生成精英怪掉落的装备
-  generateEliteDrop(playerLevel: number): Equipment | null {
-    // 精英怪有30%概率掉落装备
-    if (Math.random() < 0.3) {
-      return this.equipmentFactory.generateRandomEquipment(playerLevel, false);
-    }
-    return null;
+  // 生成指定等级和稀有度的装备（掉落判定见LootTables.ts）
+  createEquipment(level: number, rarity: EquipmentRarity, rng: RandomStream = defaultRandom.stream(RANDOM_STREAMS.EQUIPMENT)): Equipment {
+    return this.equipmentFactory.generateRandomEquipment(level, rarity, rng);
   }
   
   // 检查装备冲突（同一类型是否已装备）
@@ -379,22 +326,22 @@ class EquipmentManager {
     return false;
   }
   
-  // 装备物品到玩家
+  // 装备物品到玩家（物品在背包中时从背包取出）
   equipToPlayer(player: Player, equipment: Equipment): boolean {
+    player.inventory = player.inventory.filter(item => item !== equipment);
+    
     // 如果有同类型装备，先卸载
     const oldEquipment = player.equipment.find(eq => eq.type === equipment.type);
     if (oldEquipment) {
-      oldEquipment.removeEffect?.(player); // 添加可选链操作符
+      oldEquipment.isEquipped = false;
       player.inventory.push(oldEquipment);
       player.equipment = player.equipment.filter(eq => eq.id !== oldEquipment.id);
     }
     
-    // 装备新物品
-    if (equipment.applyEffect) {
-      equipment.applyEffect(player); // 添加检查
-    }
+    // 装备新物品（属性加成由角色的属性表计算）
     player.equipment.push(equipment);
     equipment.isEquipped = true;
+    player.refreshStats();
     
     return true;
   }
@@ -403,10 +350,10 @@ class EquipmentManager {
   unequipFromPlayer(player: Player, equipment: Equipment): boolean {
     const index = player.equipment.indexOf(equipment);
     if (index >= 0) {
-      equipment.removeEffect?.(player); // 添加可选链操作符
       player.equipment.splice(index, 1);
       player.inventory.push(equipment);
       equipment.isEquipped = false;
+      player.refreshStats();
       return true;
     }
     return false;
@@ -416,6 +363,55 @@ class EquipmentManager {
 // 全局装备管理器实例
 export const equipmentManager = new EquipmentManager();
 
+// 获取物品等级（没有等级的装备视为1级）
+export function getEquipmentLevel(equipment: Equipment): number {
+  return equipment instanceof BaseEquipment ? equipment.level : 1;
+}
+
+// 导出装备存档数据
+export function toEquipmentSaveData(equipment: Equipment): EquipmentSaveData {
+  return {
+    id: equipment.id,
+    name: equipment.name,
+    description: equipment.description,
+    type: equipment.type,
+    rarity: equipment.rarity,
+    level: getEquipmentLevel(equipment),
+    baseName: equipment instanceof BaseEquipment ? equipment.baseName : equipment.name,
+    baseStats: { ...(equipment instanceof BaseEquipment ? equipment.baseStats : equipment.stats) },
+    affixes: equipment.affixes.map(affix => ({ ...affix })),
+    stats: { ...equipment.stats },
+    isEquipped: equipment.isEquipped,
+    specialEffect: equipment.specialEffect
+  };
+}
+
+// 从存档数据还原为对应的装备子类实例
+export function restoreEquipment(data: EquipmentSaveData): Equipment {
+  let equipment: BaseEquipment;
+  switch (data.type) {
+    case 'ARMOR':
+      equipment = new Armor(data.name, data.rarity, data.level);
+      break;
+    case 'ACCESSORY':
+      equipment = new Accessory(data.name, data.rarity, data.level);
+      break;
+    case 'WEAPON':
+    default:
+      equipment = new Weapon(data.name, data.rarity, data.level);
+      break;
+  }
+  
+  // 按保存的词缀还原，名称、描述和总属性重新计算
+  equipment.id = data.id;
+  equipment.baseName = data.baseName;
+  equipment.baseStats = { ...data.baseStats };
+  equipment.setAffixes(data.affixes);
+  equipment.isEquipped = data.isEquipped;
+  equipment.specialEffect = data.specialEffect;
+  return equipment;
+}
+
 // 为BaseEquipment类添加辅助方法
 BaseEquipment.prototype.getRarityMultiplier = function() {
   const multipliers: Record<string, number> = {
@@ -0,0 +1,59 @@
+import type { GameEvents } from '../types';
+
+// 事件监听器
+export type EventListener<T> = (payload: T) => void;
+
+// 按事件名分别保存的监听器集合
+type ListenerRegistry<Events> = { [K in keyof Events]?: Set<EventListener<Events[K]>> };
+
+// 强类型事件总线：事件名和负载类型由事件表约束
+export class EventBus<Events extends object> {
+  private listeners: ListenerRegistry<Events> = {};
+  
+  // 订阅事件，返回取消订阅函数
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[type] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+  
+  // 订阅一次性事件
+  once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    const unsubscribe = this.on(type, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+  
+  // 取消订阅
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners[type]?.delete(listener);
+  }
+  
+  // 派发事件（单个监听器出错不影响其他监听器和游戏逻辑）
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+    
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(type)} listener:`, error);
+      }
+    }
+  }
+  
+  // 移除所有监听器
+  clear(): void {
+    this.listeners = {};
+  }
+}
+
+// 游戏事件总线
+export type GameEventBus = EventBus<GameEvents>;
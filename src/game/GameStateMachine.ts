@@ -0,0 +1,129 @@
+import type { InputAction } from './InputManager';
+
+// 游戏状态
+export type GameStateId =
+  | 'boot'
+  | 'loading'
+  | 'mainMenu'
+  | 'playing'
+  | 'paused'
+  | 'levelUpChoice'
+  | 'gameOver'
+  | 'victory'
+  | 'keyBindings'
+  | 'lootFilter'
+  | 'inventory'
+  | 'characterSheet';
+
+// 各状态允许切换到的目标状态
+export const GAME_STATE_TRANSITIONS: Record<GameStateId, readonly GameStateId[]> = {
+  boot: ['loading'],
+  loading: ['mainMenu'],
+  mainMenu: ['playing', 'keyBindings'],
+  playing: ['paused', 'levelUpChoice', 'gameOver', 'victory', 'inventory', 'characterSheet'],
+  paused: ['playing', 'mainMenu', 'keyBindings', 'lootFilter'],
+  levelUpChoice: ['playing', 'paused'],
+  gameOver: ['playing', 'mainMenu'],
+  victory: ['playing', 'mainMenu'],
+  // 在设置界面读档时直接进入游戏
+  keyBindings: ['mainMenu', 'paused', 'playing'],
+  lootFilter: ['paused', 'playing'],
+  inventory: ['playing', 'paused'],
+  characterSheet: ['playing']
+};
+
+// 状态处理器：每个状态负责自己的输入、更新和渲染
+export interface GameStateHandler {
+  enter?: (from: GameStateId | null) => void;
+  exit?: (to: GameStateId) => void;
+  update?: (deltaTime: number) => void;
+  render?: () => void;
+  handleKeyDown?: (event: KeyboardEvent) => void;
+  handleAction?: (action: InputAction) => void;
+  handlePointerDown?: (x: number, y: number) => void;
+  // 按下后的指针移动和松开（用于拖动）
+  handlePointerMove?: (x: number, y: number) => void;
+  handlePointerUp?: (x: number, y: number) => void;
+}
+
+// 游戏状态机
+export class GameStateMachine {
+  private handlers: Map<GameStateId, GameStateHandler> = new Map();
+  private current: GameStateId | null = null;
+  
+  // 注册状态处理器
+  register(id: GameStateId, handler: GameStateHandler): void {
+    this.handlers.set(id, handler);
+  }
+  
+  // 获取当前状态
+  getCurrentState(): GameStateId | null {
+    return this.current;
+  }
+  
+  // 当前是否处于给定状态之一
+  isIn(...ids: GameStateId[]): boolean {
+    return this.current !== null && ids.includes(this.current);
+  }
+  
+  // 是否允许切换到目标状态（初始状态只能是boot）
+  canTransition(to: GameStateId): boolean {
+    if (this.current === null) return to === 'boot';
+    return GAME_STATE_TRANSITIONS[this.current].includes(to);
+  }
+  
+  // 切换状态，依次调用旧状态的exit和新状态的enter，返回是否切换成功
+  transition(to: GameStateId): boolean {
+    if (!this.canTransition(to)) {
+      console.warn(`Invalid game state transition: ${this.current} -> ${to}`);
+      return false;
+    }
+    
+    const from = this.current;
+    if (from !== null) {
+      this.handlers.get(from)?.exit?.(to);
+    }
+    this.current = to;
+    this.handlers.get(to)?.enter?.(from);
+    return true;
+  }
+  
+  // 更新当前状态（deltaTime单位：秒）
+  update(deltaTime: number): void {
+    this.getCurrentHandler()?.update?.(deltaTime);
+  }
+  
+  // 渲染当前状态
+  render(): void {
+    this.getCurrentHandler()?.render?.();
+  }
+  
+  // 将按键交给当前状态处理
+  handleKeyDown(event: KeyboardEvent): void {
+    this.getCurrentHandler()?.handleKeyDown?.(event);
+  }
+  
+  // 将逻辑输入动作交给当前状态处理
+  handleAction(action: InputAction): void {
+    this.getCurrentHandler()?.handleAction?.(action);
+  }
+  
+  // 将点击/触摸交给当前状态处理（canvas坐标）
+  handlePointerDown(x: number, y: number): void {
+    this.getCurrentHandler()?.handlePointerDown?.(x, y);
+  }
+  
+  // 将指针移动交给当前状态处理（canvas坐标）
+  handlePointerMove(x: number, y: number): void {
+    this.getCurrentHandler()?.handlePointerMove?.(x, y);
+  }
+  
+  // 将指针松开交给当前状态处理（canvas坐标）
+  handlePointerUp(x: number, y: number): void {
+    this.getCurrentHandler()?.handlePointerUp?.(x, y);
+  }
+  
+  private getCurrentHandler(): GameStateHandler | undefined {
+    return this.current === null ? undefined : this.handlers.get(this.current);
+  }
+}
@@ -1,32 +1,140 @@
-import type { GameState } from '../types';
-import { MapGenerator } from './MapGenerator';
-import { Player as PlayerClass } from './Player';
-import { MonsterSpawner } from './Monster';
+import type { InputState, StatusEffectType, EquipmentRarity, Equipment, InventoryCommand, PlayerStat } from '../types';
+import { EQUIPMENT_TYPES } from '../types';
 import { SpriteLoader } from './SpriteLoader';
-import { skillPool } from './SkillSystem';
+import { World, FIXED_TIMESTEP, PLAYER_ATTACK_RANGE, PLAYER_ATTACK_ARC } from './World';
+import { ReplayRecorder, ReplayPlayer, quantizeInput, encodeReplay, decodeReplay } from './Replay';
+import { saveManager } from './SaveSystem';
+import { GameStateMachine } from './GameStateMachine';
+import {
+  InputManager,
+  INPUT_ACTIONS,
+  INPUT_ACTION_LABELS,
+  MAX_BINDINGS_PER_ACTION,
+  describeBinding,
+  toAnalogVector,
+  type InputAction
+} from './InputManager';
+import { GamepadInput } from './GamepadInput';
+import { STATUS_EFFECTS, type StatusEffects } from './StatusEffects';
+import { PROJECTILE_TRAIL_FADE_TIME, PROJECTILE_COLORS } from './Projectiles';
+import type { SpatialRect } from './SpatialHash';
+import {
+  getRarityColor,
+  getEquipmentLevel,
+  sortEquipment,
+  compareEquipmentStats,
+  EQUIPMENT_TYPE_NAMES,
+  type EquipmentSortMode
+} from './EquipmentSystem';
+import { EQUIPMENT_STAT_NAMES, formatStatValue, describeAffix } from './Affixes';
+import { PLAYER_STATS, PLAYER_STAT_NAMES, formatPlayerStat, describeStatBreakdown } from './Stats';
+import { downloadTextFile, pickTextFile } from '../utils/fileUtils';
+import { formatDuration } from '../utils/gameUtils';
 
+// 菜单选项
+interface MenuOption {
+  label: string;
+  action: () => void;
+}
+
+// 拾取设置界面中的稀有度（从低到高）及显示名称
+const LOOT_FILTER_RARITIES: Array<{ rarity: EquipmentRarity; label: string }> = [
+  { rarity: 'common', label: '普通' },
+  { rarity: 'uncommon', label: '优秀' },
+  { rarity: 'rare', label: '稀有' },
+  { rarity: 'epic', label: '史诗' },
+  { rarity: 'legendary', label: '传说' }
+];
+
+// 物品栏界面的排序方式及显示名称
+const INVENTORY_SORT_MODES: Array<{ mode: EquipmentSortMode; label: string }> = [
+  { mode: 'rarity', label: '稀有度' },
+  { mode: 'type', label: '类型' },
+  { mode: 'level', label: '等级' }
+];
+
+// 物品栏的格子大小、格子间距和已装备栏位大小（像素）
+const INVENTORY_CELL_SIZE = 52;
+const INVENTORY_CELL_GAP = 8;
+const INVENTORY_SLOT_SIZE = 64;
+
+// 指针移动超过该距离后视为拖动而不是点击（像素）
+const INVENTORY_DRAG_THRESHOLD = 8;
+
+// 矩形区域
+interface ScreenRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 物品栏中的一件物品及其位置（from和index用于生成物品栏操作）
+interface InventoryEntry {
+  item: Equipment;
+  from: InventoryCommand['from'];
+  index: number;
+}
+
+// 点是否在矩形内
+function containsPoint(rect: ScreenRect, x: number, y: number): boolean {
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
+
+// 在候选值中循环切换到下一个
+function cycleValue<T>(values: readonly T[], current: T): T {
+  return values[(values.indexOf(current) + 1) % values.length]!;
+}
+
+// 拾取提示的显示时间（秒）和最多同时显示的条数
+const PICKUP_TOAST_DURATION = 3;
+const MAX_PICKUP_TOASTS = 5;
+
+// 游戏系统：负责canvas渲染和DOM输入，游戏逻辑由World模拟
 export class GameSystem {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private gameState: GameState;
-  private mapGenerator: MapGenerator;
-  private monsterSpawner: MonsterSpawner;
+  private world: World;
   private lastTime: number = 0;
+  // 固定步长累计时间（单位：秒）
+  private accumulator: number = 0;
   private animationId: number | null = null;
-  private keysPressed: Set<string> = new Set();
-  private showSkillSelection: boolean = false;
-  private isGameOver: boolean = false;
-  private skillOptions: any[] = [];
   
-  // 攻击效果系统
-  private attackEffects: Array<{
-    x: number;
-    y: number;
-    damage: number;
-    lifetime: number;
-    maxLifetime: number;
-    color: string;
-  }> = [];
+  // 游戏状态机
+  private stateMachine: GameStateMachine = new GameStateMachine();
+  // 当前菜单的选项及键盘选中的索引
+  private menuOptions: MenuOption[] = [];
+  private menuIndex: number = 0;
+  
+  // 按键设置界面的选中位置，以及关闭后返回的状态
+  private bindingRow: number = 0;
+  private bindingColumn: number = 0;
+  private bindingsReturnState: 'mainMenu' | 'paused' = 'mainMenu';
+  // 升级界面中方向键/十字键选中的技能
+  private skillSelectionIndex: number = 0;
+  // 物品栏界面的排序方式、筛选条件（null为全部）和正在拖动的物品
+  private inventorySort: EquipmentSortMode = 'rarity';
+  private inventoryTypeFilter: Equipment['type'] | null = null;
+  private inventoryRarityFilter: EquipmentRarity | null = null;
+  private inventoryDrag: (InventoryEntry & { startX: number; startY: number; x: number; y: number; moved: boolean }) | null = null;
+  // 角色面板中点击或方向键选中的属性（显示来源明细）
+  private characterSelectedStat: PlayerStat | null = null;
+  
+  // 屏幕提示（如手柄连接状态）
+  private notification: { text: string; timeLeft: number } | null = null;
+  // 拾取装备的提示（新的在前）
+  private pickupToasts: Array<{ text: string; color: string; timeLeft: number }> = [];
+  
+  // 回放录制与播放
+  private recorder: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+  
+  // 上次自动存档时的玩家等级
+  private lastAutosaveLevel: number = 0;
+  
+  // 输入映射（按键、鼠标、触摸 -> 逻辑动作）
+  private input: InputManager = new InputManager();
+  private gamepad: GamepadInput;
   
   // 移动端控制
   private isMobile: boolean;
@@ -61,7 +169,15 @@ export class GameSystem {
     touchId: null
   };
   private touchIds: Set<number> = new Set();
-
+  // 按住物品栏按钮和角色按钮的触摸，以及交给当前状态处理（点击、拖动）的触摸
+  private inventoryButtonTouchId: number | null = null;
+  private characterButtonTouchId: number | null = null;
+  private pointerTouchId: number | null = null;
+  
+  // 鼠标瞄准：鼠标在canvas中的位置，触摸操作后失效直到鼠标再次移动
+  private mousePosition = { x: 0, y: 0 };
+  private mouseAimActive: boolean = false;
+  
   constructor(canvasId: string) {
     const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
     if (!canvas) {
@@ -69,80 +185,317 @@ export class GameSystem {
     }
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d')!;
-    this.gameState = this.initializeGameState();
-    this.mapGenerator = new MapGenerator();
-    this.monsterSpawner = new MonsterSpawner();
+    // 主菜单中选择新游戏或继续存档前先创建一个世界
+    this.world = new World();
+    this.watchWorldEvents();
+    this.recorder = this.createRecorder(false);
+    this.lastAutosaveLevel = this.world.getState().player.level;
     
     // 检测是否为移动设备
     this.isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
     
+    this.gamepad = new GamepadInput(this.input, {
+      onConnectionChange: (id, connected) => this.handleGamepadConnection(id, connected)
+    });
+    
+    this.registerStates();
+    this.stateMachine.transition('boot');
+    
     this.setupEventListeners();
     this.resizeCanvas();
   }
-
-  private initializeGameState(): GameState {
-    // 创建玩家
-    const player = new PlayerClass();
+  
+  // 注册各游戏状态的进入/退出、输入、更新和渲染
+  private registerStates(): void {
+    const states = this.stateMachine;
     
-    return {
-      player,
-      monsters: [],
-      obstacles: [],
-      equipment: [],
-      keys: {},
-      camera: { x: 0, y: 0 },
-      score: 0,
-      gameOver: false,
-      lastMonsterCount: 0
-    };
+    states.register('boot', {});
+    
+    states.register('loading', {
+      render: () => this.renderLoading()
+    });
+    
+    states.register('mainMenu', {
+      enter: () => {
+        const options: MenuOption[] = [
+          { label: '新游戏', action: () => this.restartGame() },
+          { label: '按键设置', action: () => states.transition('keyBindings') }
+        ];
+        if (saveManager.hasSave()) {
+          options.unshift({ label: '继续游戏', action: () => this.continueGame() });
+        }
+        this.setMenu(options);
+      },
+      render: () => this.renderMainMenu(),
+      handleAction: (action) => this.handleMenuAction(action),
+      handlePointerDown: (x, y) => this.handleMenuPointer(x, y)
+    });
+    
+    states.register('playing', {
+      enter: () => {
+        // 丢弃暂停期间累计的时间
+        this.accumulator = 0;
+      },
+      update: (deltaTime) => this.updatePlaying(deltaTime),
+      render: () => this.renderWorld(),
+      handleAction: (action) => {
+        if (action === 'pause') {
+          states.transition('paused');
+        } else if (action === 'inventory') {
+          states.transition('inventory');
+        } else if (action === 'character') {
+          states.transition('characterSheet');
+        }
+      }
+    });
+    
+    states.register('paused', {
+      enter: () => {
+        this.setMenu([
+          { label: '继续游戏', action: () => states.transition('playing') },
+          { label: '按键设置', action: () => states.transition('keyBindings') },
+          { label: '拾取设置', action: () => states.transition('lootFilter') },
+          { label: '返回主菜单', action: () => states.transition('mainMenu') }
+        ]);
+      },
+      exit: (to) => {
+        // 返回主菜单前保存，之后可以继续这局游戏
+        if (to === 'mainMenu') {
+          this.autosave();
+        }
+      },
+      render: () => {
+        this.renderWorld();
+        this.renderPauseOverlay();
+      },
+      handleAction: (action) => {
+        if (action === 'pause') {
+          states.transition('playing');
+        } else {
+          this.handleMenuAction(action);
+        }
+      },
+      handlePointerDown: (x, y) => this.handleMenuPointer(x, y)
+    });
+    
+    states.register('levelUpChoice', {
+      enter: () => {
+        this.skillSelectionIndex = 0;
+      },
+      render: () => {
+        this.renderWorld();
+        this.renderSkillSelection();
+      },
+      handleAction: (action) => {
+        if (action === 'pause') {
+          states.transition('paused');
+        } else if (action === 'skill1') {
+          this.chooseSkill(0);
+        } else if (action === 'skill2') {
+          this.chooseSkill(1);
+        } else if (action === 'skill3') {
+          this.chooseSkill(2);
+        } else if (action === 'moveUp' || action === 'moveDown') {
+          const count = this.world.getSkillOptions().length;
+          const step = action === 'moveUp' ? -1 : 1;
+          this.skillSelectionIndex = (this.skillSelectionIndex + step + count) % count;
+        } else if (action === 'confirm') {
+          this.chooseSkill(this.skillSelectionIndex);
+        }
+      },
+      handlePointerDown: (x, y) => this.handleSkillSelection(x, y)
+    });
+    
+    states.register('gameOver', {
+      enter: () => {
+        // 死亡后删除存档，避免读档复活
+        saveManager.clear();
+        this.setEndMenu();
+      },
+      render: () => this.renderGameOver(),
+      handleAction: (action) => this.handleMenuAction(action),
+      handlePointerDown: (x, y) => this.handleMenuPointer(x, y)
+    });
+    
+    states.register('victory', {
+      enter: () => {
+        saveManager.clear();
+        this.setEndMenu();
+      },
+      render: () => this.renderVictory(),
+      handleAction: (action) => this.handleMenuAction(action),
+      handlePointerDown: (x, y) => this.handleMenuPointer(x, y)
+    });
+    
+    // 拾取设置界面：切换各稀有度是否自动拾取
+    states.register('lootFilter', {
+      enter: () => this.setLootFilterMenu(0),
+      render: () => {
+        this.renderWorld();
+        this.renderLootFilter();
+      },
+      handleAction: (action) => {
+        if (action === 'pause') {
+          states.transition('paused');
+        } else {
+          this.handleMenuAction(action);
+        }
+      },
+      handlePointerDown: (x, y) => this.handleLootFilterPointer(x, y)
+    });
+    
+    // 物品栏界面：模拟暂停，点击或拖动装备、卸下和丢弃物品
+    states.register('inventory', {
+      enter: () => {
+        this.inventoryDrag = null;
+      },
+      render: () => {
+        this.renderWorld();
+        this.renderInventory();
+      },
+      handleAction: (action) => {
+        if (action === 'inventory' || action === 'pause') {
+          states.transition('playing');
+        }
+      },
+      handlePointerDown: (x, y) => this.handleInventoryPointerDown(x, y),
+      handlePointerMove: (x, y) => this.handleInventoryPointerMove(x, y),
+      handlePointerUp: (x, y) => this.handleInventoryPointerUp(x, y)
+    });
+    
+    // 角色面板：模拟暂停，显示最终属性、各属性的来源明细和已学技能
+    states.register('characterSheet', {
+      enter: () => {
+        this.characterSelectedStat = null;
+      },
+      render: () => {
+        this.renderWorld();
+        this.renderCharacterSheet();
+      },
+      handleAction: (action) => {
+        if (action === 'character' || action === 'pause') {
+          states.transition('playing');
+        } else if (action === 'moveUp' || action === 'moveDown') {
+          const current = this.characterSelectedStat ? PLAYER_STATS.indexOf(this.characterSelectedStat) : -1;
+          const step = action === 'moveUp' ? -1 : 1;
+          const next = current < 0 ? (step > 0 ? 0 : PLAYER_STATS.length - 1) : (current + step + PLAYER_STATS.length) % PLAYER_STATS.length;
+          this.characterSelectedStat = PLAYER_STATS[next] ?? null;
+        }
+      },
+      handlePointerDown: (x, y) => {
+        const stat = this.getCharacterStatAt(x, y);
+        this.characterSelectedStat = stat === this.characterSelectedStat ? null : stat;
+      }
+    });
+    
+    // 按键设置界面使用固定的方向键/回车/Esc操作，避免改键后无法操作界面
+    states.register('keyBindings', {
+      enter: (from) => {
+        this.bindingsReturnState = from === 'paused' ? 'paused' : 'mainMenu';
+        this.bindingRow = 0;
+        this.bindingColumn = 0;
+      },
+      render: () => this.renderKeyBindings(),
+      handleKeyDown: (event) => this.handleBindingKey(event),
+      handlePointerDown: (x, y) => this.handleBindingPointer(x, y)
+    });
   }
   
   private setupEventListeners(): void {
     // 键盘事件监听
     window.addEventListener('keydown', (event) => {
-      this.keysPressed.add(event.key);
+      // 按键设置界面正在等待新按键
+      if (this.input.isCapturing()) {
+        event.preventDefault();
+        this.input.handleKeyDown(event);
+        return;
+      }
+      
+      // 回放中的按键只用于控制回放
+      const inReplay = this.replayPlayer !== null;
+      const actions = this.input.handleKeyDown(event);
+      this.handleReplayKey(event);
+      this.handleSaveKey(event);
+      if (!inReplay) {
+        this.stateMachine.handleKeyDown(event);
+        this.dispatchActions(actions);
+      }
     });
     
     window.addEventListener('keyup', (event) => {
-      this.keysPressed.delete(event.key);
+      this.input.handleKeyUp(event);
+    });
+    
+    // 鼠标按键：先交给当前状态处理点击位置，再触发绑定的动作
+    this.canvas.addEventListener('mousedown', (event) => {
+      if (this.input.isCapturing()) {
+        this.input.handleMouseDown(event.button);
+        return;
+      }
+      
+      const actions = this.input.handleMouseDown(event.button);
+      if (this.replayPlayer) return;
+      
+      if (event.button === 0) {
+        // 获取鼠标在canvas中的坐标
+        const rect = this.canvas.getBoundingClientRect();
+        this.stateMachine.handlePointerDown(event.clientX - rect.left, event.clientY - rect.top);
+      }
+      this.dispatchActions(actions);
     });
     
-    // 鼠标移动事件 - 使用下划线前缀表示未使用的参数
-    window.addEventListener('mousemove', (_event) => {
-      // 暂时不处理鼠标移动
+    window.addEventListener('mouseup', (event) => {
+      this.input.handleMouseUp(event.button);
+      if (event.button === 0 && !this.replayPlayer) {
+        const rect = this.canvas.getBoundingClientRect();
+        this.stateMachine.handlePointerUp(event.clientX - rect.left, event.clientY - rect.top);
+      }
     });
     
-    // 窗口大小变化事件
-    window.addEventListener('resize', () => {
-      this.resizeCanvas();
+    // 禁用右键菜单，以便把鼠标右键绑定到动作
+    this.canvas.addEventListener('contextmenu', (event) => {
+      event.preventDefault();
     });
     
-    window.addEventListener('click', (event) => {
-      if (this.showSkillSelection) {
-        this.handleSkillSelection(event);
-      } else if (this.isGameOver) {
-        // 检查是否点击了重新开始按钮
-        const buttonWidth = 200;
-        const buttonHeight = 60;
-        const buttonX = this.canvas.width / 2 - buttonWidth / 2;
-        const buttonY = this.canvas.height / 2 + 50;
-        
-        // 获取鼠标在canvas中的坐标
-        const rect = this.canvas.getBoundingClientRect();
-        const mouseX = event.clientX - rect.left;
-        const mouseY = event.clientY - rect.top;
-        
-        // 检查是否点击了按钮区域
-        if (mouseX >= buttonX && mouseX <= buttonX + buttonWidth && 
-            mouseY >= buttonY && mouseY <= buttonY + buttonHeight) {
-          this.restartGame();
-        }
+    // 鼠标移动时记录位置，用于瞄准
+    window.addEventListener('mousemove', (event) => {
+      const rect = this.canvas.getBoundingClientRect();
+      this.mousePosition = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      this.mouseAimActive = true;
+      if (!this.replayPlayer) {
+        this.stateMachine.handlePointerMove(this.mousePosition.x, this.mousePosition.y);
+      }
+    });
+    
+    // 切换到后台时自动存档并暂停（暂停本身不存档，每次切换只写一次存档）
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) {
+        this.autosave();
+        this.pauseGame();
       }
     });
     
+    // 窗口失去焦点时暂停，并清空按键（失焦期间收不到keyup）
+    window.addEventListener('blur', () => {
+      this.input.clear();
+      this.joystick.active = false;
+      this.attackButton.pressed = false;
+      this.inventoryButtonTouchId = null;
+      this.characterButtonTouchId = null;
+      this.pointerTouchId = null;
+      this.touchIds.clear();
+      this.pauseGame();
+    });
+    
+    // 窗口大小变化事件
+    window.addEventListener('resize', () => {
+      this.resizeCanvas();
+    });
+    
     // 触摸事件监听 - 适用于移动设备
     this.canvas.addEventListener('touchstart', (event) => {
       event.preventDefault(); // 防止默认行为（如滚动）
+      this.mouseAimActive = false;
       
       const touches = event.touches;
       for (let i = 0; i < touches.length; i++) {
@@ -212,14 +565,27 @@ export class GameSystem {
       height: this.joystick.radius * 2
     };
     
+    // 如果在物品栏按钮区域
+    if (containsPoint(this.getInventoryButtonRect(), x, y)) {
+      this.inventoryButtonTouchId = touch.identifier;
+      this.touchIds.add(touch.identifier);
+      this.dispatchActions(this.input.setTouchZone('inventoryButton', true));
+    }
+    // 如果在角色按钮区域
+    else if (containsPoint(this.getCharacterButtonRect(), x, y)) {
+      this.characterButtonTouchId = touch.identifier;
+      this.touchIds.add(touch.identifier);
+      this.dispatchActions(this.input.setTouchZone('characterButton', true));
+    }
     // 如果在攻击按钮区域
-    if (x >= attackButtonArea.x && x <= attackButtonArea.x + attackButtonArea.width &&
+    else if (x >= attackButtonArea.x && x <= attackButtonArea.x + attackButtonArea.width &&
         y >= attackButtonArea.y && y <= attackButtonArea.y + attackButtonArea.height) {
       this.attackButton.x = attackButtonArea.x + attackButtonArea.width / 2;
       this.attackButton.y = attackButtonArea.y + attackButtonArea.height / 2;
       this.attackButton.pressed = true;
       this.attackButton.touchId = touch.identifier;
       this.touchIds.add(touch.identifier);
+      this.dispatchActions(this.input.setTouchZone('attackButton', true));
     }
     // 如果在虚拟摇杆区域
     else if (x >= joystickArea.x && x <= joystickArea.x + joystickArea.width &&
@@ -231,19 +597,13 @@ export class GameSystem {
       this.joystick.currentY = y;
       this.joystick.touchId = touch.identifier;
       this.touchIds.add(touch.identifier);
+      this.updateJoystickInput();
     }
-    // 游戏结束时的触摸处理
-    else if (this.isGameOver) {
-      // 检查是否点击了重新开始按钮
-      const buttonWidth = 200;
-      const buttonHeight = 60;
-      const buttonX = this.canvas.width / 2 - buttonWidth / 2;
-      const buttonY = this.canvas.height / 2 + 50;
-      
-      if (x >= buttonX && x <= buttonX + buttonWidth && 
-          y >= buttonY && y <= buttonY + buttonHeight) {
-        this.restartGame();
-      }
+    // 其他区域的触摸交给当前状态处理（菜单按钮、技能选择、物品栏拖动等）
+    else if (!this.replayPlayer) {
+      this.pointerTouchId = touch.identifier;
+      this.touchIds.add(touch.identifier);
+      this.stateMachine.handlePointerDown(x, y);
     }
   }
   
@@ -259,6 +619,10 @@ export class GameSystem {
     if (this.joystick.active && this.joystick.touchId === touch.identifier) {
       this.joystick.currentX = x;
       this.joystick.currentY = y;
+      this.updateJoystickInput();
+    }
+    if (this.pointerTouchId === touch.identifier) {
+      this.stateMachine.handlePointerMove(x, y);
     }
   }
   
@@ -266,14 +630,29 @@ export class GameSystem {
   private handleTouchEnd(touch: Touch): void {
     if (!this.touchIds.has(touch.identifier)) return;
     
+    const rect = this.canvas.getBoundingClientRect();
     // 只重置对应的控制状态
     if (this.joystick.touchId === touch.identifier) {
       this.joystick.active = false;
       this.joystick.touchId = null;
+      this.updateJoystickInput();
     }
     if (this.attackButton.touchId === touch.identifier) {
       this.attackButton.pressed = false;
       this.attackButton.touchId = null;
+      this.input.setTouchZone('attackButton', false);
+    }
+    if (this.inventoryButtonTouchId === touch.identifier) {
+      this.inventoryButtonTouchId = null;
+      this.input.setTouchZone('inventoryButton', false);
+    }
+    if (this.characterButtonTouchId === touch.identifier) {
+      this.characterButtonTouchId = null;
+      this.input.setTouchZone('characterButton', false);
+    }
+    if (this.pointerTouchId === touch.identifier) {
+      this.pointerTouchId = null;
+      this.stateMachine.handlePointerUp(touch.clientX - rect.left, touch.clientY - rect.top);
     }
     
     this.touchIds.delete(touch.identifier);
@@ -284,22 +663,21 @@ export class GameSystem {
     this.canvas.height = window.innerHeight;
   }
   
-  // 启动游戏前预加载资源
+  // 启动游戏循环，预加载资源后进入主菜单
   async start(): Promise<void> {
+    this.stateMachine.transition('loading');
+    this.animate();
+    
     try {
       // 预加载精灵资源
       const spriteLoader = SpriteLoader.getInstance();
       await spriteLoader.preloadGameSprites();
-      
-      // 资源加载完成后开始游戏
-      this.spawnInitialMonsters();
-      this.animate();
     } catch (error) {
+      // 即使资源加载失败，也进入游戏（会使用后备绘制）
       console.error('Failed to load game resources:', error);
-      // 即使资源加载失败，也尝试启动游戏（会使用后备绘制）
-      this.spawnInitialMonsters();
-      this.animate();
     }
+    
+    this.stateMachine.transition('mainMenu');
   }
   
   stop(): void {
@@ -309,445 +687,1501 @@ export class GameSystem {
     }
   }
   
-  private spawnInitialMonsters(): void {
-    // 生成一些初始怪物
-    for (let i = 0; i < 5; i++) {
-      const angle = (i / 5) * Math.PI * 2;
-      const radius = 500;
-      const x = this.gameState.player.x + Math.cos(angle) * radius;
-      const y = this.gameState.player.y + Math.sin(angle) * radius;
-      
-      // 使用正确的方法名spawnMonster
-      const monster = this.monsterSpawner.spawnMonster(x, y);
-      this.gameState.monsters.push(monster);
-    }
-  }
-  
   private animate(currentTime: number = 0): void {
-    const deltaTime = currentTime - this.lastTime;
+    // 限制单帧时间，避免切回标签页时一次模拟过多帧
+    const deltaTime = Math.max(0, Math.min((currentTime - this.lastTime) / 1000, 0.25));
     this.lastTime = currentTime;
     
-    if (!this.isGameOver) {
-      this.update(deltaTime / 1000);
+    // 手柄没有事件回调，每帧轮询
+    this.dispatchActions(this.gamepad.poll());
+    this.updateNotification(deltaTime);
+    
+    if (this.replayPlayer) {
+      this.replayPlayer.update(deltaTime);
+    } else {
+      this.stateMachine.update(deltaTime);
     }
     this.render();
     
     this.animationId = requestAnimationFrame((time) => this.animate(time));
   }
   
-  private update(deltaTime: number): void {
-    this.updatePlayer(deltaTime);
-    this.updateCamera();
-    this.checkMonsterSpawn();
-    this.updateMonsters(deltaTime);
-    this.updateSkills();
-    this.applySlowEffects();
-    this.checkCollisions();
-    this.updateMap();
-    this.checkGameOver();
-    this.updateAttackEffects(deltaTime);
-    this.checkSkillPoints();
+  // 游戏进行中：按固定步长推进模拟，并录制每一步的输入
+  private updatePlaying(deltaTime: number): void {
+    this.accumulator += deltaTime;
+    while (this.accumulator >= FIXED_TIMESTEP && !this.world.isAwaitingSkillChoice()) {
+      const input = quantizeInput(this.collectInput());
+      this.recorder.recordFrame(input);
+      this.world.step(FIXED_TIMESTEP, input);
+      this.accumulator -= FIXED_TIMESTEP;
+      
+      if (this.world.isOver()) {
+        this.stateMachine.transition('gameOver');
+        return;
+      }
+      if (this.world.isVictory()) {
+        this.stateMachine.transition('victory');
+        return;
+      }
+    }
+    
+    // 升级时自动存档
+    const playerLevel = this.world.getState().player.level;
+    if (playerLevel > this.lastAutosaveLevel) {
+      this.lastAutosaveLevel = playerLevel;
+      this.autosave();
+    }
+    
+    // 有未使用的技能点时停止模拟，等待玩家选择技能
+    if (this.world.isAwaitingSkillChoice()) {
+      this.stateMachine.transition('levelUpChoice');
+    }
+  }
+  
+  // 手柄插拔时显示提示，断开时暂停游戏
+  private handleGamepadConnection(id: string, connected: boolean): void {
+    this.showNotification(connected ? `手柄已连接: ${id}` : '手柄已断开');
+    if (!connected) {
+      this.pauseGame();
+    }
   }
   
-  private updatePlayer(deltaTime: number): void {
-    const player = this.gameState.player;
+  // 显示屏幕提示
+  private showNotification(text: string, duration: number = 3): void {
+    this.notification = { text, timeLeft: duration };
+  }
+  
+  private updateNotification(deltaTime: number): void {
+    this.pickupToasts.forEach(toast => toast.timeLeft -= deltaTime);
+    this.pickupToasts = this.pickupToasts.filter(toast => toast.timeLeft > 0);
     
-    // 使用moveSpeed代替不存在的speed属性
-    const playerInstance = player as any;
-    const moveSpeed = playerInstance.moveSpeed || 300; // 默认速度
-    const speed = moveSpeed * deltaTime;
+    if (!this.notification) return;
+    
+    this.notification.timeLeft -= deltaTime;
+    if (this.notification.timeLeft <= 0) {
+      this.notification = null;
+    }
+  }
+  
+  // 订阅当前世界的事件（切换世界后需要重新订阅）
+  private watchWorldEvents(): void {
+    this.pickupToasts = [];
+    this.world.getEvents().on('itemPickedUp', ({ item }) => {
+      this.pickupToasts.unshift({ text: `拾取: ${item.name}`, color: getRarityColor(item.rarity), timeLeft: PICKUP_TOAST_DURATION });
+      this.pickupToasts.length = Math.min(this.pickupToasts.length, MAX_PICKUP_TOASTS);
+    });
+    this.world.getEvents().on('itemDropped', ({ item }) => {
+      this.pickupToasts.unshift({ text: `丢弃: ${item.name}`, color: getRarityColor(item.rarity), timeLeft: PICKUP_TOAST_DURATION });
+      this.pickupToasts.length = Math.min(this.pickupToasts.length, MAX_PICKUP_TOASTS);
+    });
+  }
+  
+  // 游戏进行中时暂停
+  private pauseGame(): void {
+    if (this.stateMachine.isIn('playing')) {
+      this.stateMachine.transition('paused');
+    }
+  }
+  
+  // 设置当前菜单选项
+  private setMenu(options: MenuOption[]): void {
+    this.menuOptions = options;
+    this.menuIndex = 0;
+  }
+  
+  // 拾取设置菜单：每个稀有度一项，最后一项返回暂停菜单
+  private setLootFilterMenu(selectedIndex: number): void {
+    const options: MenuOption[] = LOOT_FILTER_RARITIES.map(({ rarity, label }, index) => ({
+      label: `${label}: ${this.world.isAutoPickup(rarity) ? '自动拾取' : '按键拾取'}`,
+      action: () => {
+        const enabled = !this.world.isAutoPickup(rarity);
+        this.world.setAutoPickup(rarity, enabled);
+        this.recorder.recordAutoPickup(rarity, enabled);
+        this.setLootFilterMenu(index);
+      }
+    }));
+    options.push({ label: '返回', action: () => this.stateMachine.transition('paused') });
+    this.setMenu(options);
+    this.menuIndex = selectedIndex;
+  }
+  
+  // 拾取设置界面的选项区域（比普通菜单按钮更紧凑，从屏幕上方向下排列）
+  private getLootFilterRowRect(index: number): { x: number; y: number; width: number; height: number } {
+    const width = 260;
+    const height = 44;
+    return {
+      x: this.canvas.width / 2 - width / 2,
+      y: 140 + index * (height + 12),
+      width,
+      height
+    };
+  }
+  
+  // 点击拾取设置选项
+  private handleLootFilterPointer(x: number, y: number): void {
+    for (let i = 0; i < this.menuOptions.length; i++) {
+      const rect = this.getLootFilterRowRect(i);
+      if (x >= rect.x && x <= rect.x + rect.width &&
+          y >= rect.y && y <= rect.y + rect.height) {
+        this.menuOptions[i]?.action();
+        return;
+      }
+    }
+  }
+  
+  // 物品栏界面的布局：左侧为已装备栏位和丢弃区，右侧为工具栏（排序、类型筛选、稀有度筛选）和背包格子
+  private getInventoryLayout(): {
+    panel: ScreenRect;
+    slots: Array<{ type: Equipment['type']; rect: ScreenRect }>;
+    dropZone: ScreenRect;
+    toolbar: ScreenRect[];
+    grid: ScreenRect;
+    columns: number;
+    capacity: number;
+  } {
+    const width = Math.min(this.canvas.width - 40, 640);
+    const height = Math.min(this.canvas.height - 40, 520);
+    const panel = { x: (this.canvas.width - width) / 2, y: (this.canvas.height - height) / 2, width, height };
+    const slotStep = INVENTORY_SLOT_SIZE + 30;
+    const slots = Object.values(EQUIPMENT_TYPES).map((type, index) => ({
+      type,
+      rect: { x: panel.x + 30, y: panel.y + 90 + index * slotStep, width: INVENTORY_SLOT_SIZE, height: INVENTORY_SLOT_SIZE }
+    }));
+    const dropZone = { x: panel.x + 20, y: panel.y + 90 + slots.length * slotStep, width: 84, height: 48 };
+    
+    const gridX = panel.x + 130;
+    const gridWidth = panel.x + width - 20 - gridX;
+    const buttonWidth = Math.min(120, (gridWidth - 16) / 3);
+    const toolbar = [0, 1, 2].map(index => ({ x: gridX + index * (buttonWidth + 8), y: panel.y + 56, width: buttonWidth, height: 28 }));
+    const grid = { x: gridX, y: panel.y + 100, width: gridWidth, height: panel.y + height - 40 - (panel.y + 100) };
+    const step = INVENTORY_CELL_SIZE + INVENTORY_CELL_GAP;
+    const columns = Math.max(1, Math.floor((grid.width + INVENTORY_CELL_GAP) / step));
+    const rows = Math.max(0, Math.floor((grid.height + INVENTORY_CELL_GAP) / step));
+    return { panel, slots, dropZone, toolbar, grid, columns, capacity: columns * rows };
+  }
+  
+  // 背包格子的区域
+  private getInventoryCellRect(slot: number): ScreenRect {
+    const { grid, columns } = this.getInventoryLayout();
+    const step = INVENTORY_CELL_SIZE + INVENTORY_CELL_GAP;
+    return {
+      x: grid.x + (slot % columns) * step,
+      y: grid.y + Math.floor(slot / columns) * step,
+      width: INVENTORY_CELL_SIZE,
+      height: INVENTORY_CELL_SIZE
+    };
+  }
+  
+  // 背包中按当前筛选条件显示的物品（已排序）
+  private getInventoryBagEntries(): InventoryEntry[] {
+    const inventory = this.world.getState().player.inventory;
+    const visible = inventory.filter(item =>
+      (this.inventoryTypeFilter === null || item.type === this.inventoryTypeFilter) &&
+      (this.inventoryRarityFilter === null || item.rarity === this.inventoryRarityFilter)
+    );
+    return sortEquipment(visible, this.inventorySort).map(item => ({ item, from: 'bag', index: inventory.indexOf(item) }));
+  }
+  
+  // 已装备栏位中的物品
+  private getEquippedEntry(type: Equipment['type']): InventoryEntry | null {
+    const equipment = this.world.getState().player.equipment;
+    const index = equipment.findIndex(item => item.type === type);
+    const item = equipment[index];
+    return item ? { item, from: 'equipped', index } : null;
+  }
+  
+  // 指针位置的物品（已装备栏位或背包格子）
+  private getInventoryEntryAt(x: number, y: number): InventoryEntry | null {
+    const layout = this.getInventoryLayout();
+    for (const slot of layout.slots) {
+      if (containsPoint(slot.rect, x, y)) {
+        return this.getEquippedEntry(slot.type);
+      }
+    }
     
-    let dx = 0;
-    let dy = 0;
+    const entries = this.getInventoryBagEntries().slice(0, layout.capacity);
+    const slot = entries.findIndex((_entry, index) => containsPoint(this.getInventoryCellRect(index), x, y));
+    return entries[slot] ?? null;
+  }
+  
+  // 按下：工具栏按钮切换排序和筛选，物品开始拖动（松开时没有移动则视为点击）
+  private handleInventoryPointerDown(x: number, y: number): void {
+    const [sortButton, typeButton, rarityButton] = this.getInventoryLayout().toolbar;
+    if (sortButton && containsPoint(sortButton, x, y)) {
+      this.inventorySort = cycleValue(INVENTORY_SORT_MODES.map(option => option.mode), this.inventorySort);
+      return;
+    }
+    if (typeButton && containsPoint(typeButton, x, y)) {
+      this.inventoryTypeFilter = cycleValue([null, ...Object.values(EQUIPMENT_TYPES)], this.inventoryTypeFilter);
+      return;
+    }
+    if (rarityButton && containsPoint(rarityButton, x, y)) {
+      this.inventoryRarityFilter = cycleValue([null, ...LOOT_FILTER_RARITIES.map(option => option.rarity)], this.inventoryRarityFilter);
+      return;
+    }
     
-    // 键盘控制
-    if (this.keysPressed.has('ArrowUp')) {
-      dy -= speed;
+    const entry = this.getInventoryEntryAt(x, y);
+    this.inventoryDrag = entry ? { ...entry, startX: x, startY: y, x, y, moved: false } : null;
+  }
+  
+  private handleInventoryPointerMove(x: number, y: number): void {
+    const drag = this.inventoryDrag;
+    if (!drag) return;
+    
+    drag.x = x;
+    drag.y = y;
+    if (Math.hypot(x - drag.startX, y - drag.startY) > INVENTORY_DRAG_THRESHOLD) {
+      drag.moved = true;
+    }
+  }
+  
+  // 松开：点击时装备或卸下；拖到丢弃区时丢弃，背包物品拖到同类型栏位时装备，已装备物品拖到背包时卸下
+  private handleInventoryPointerUp(x: number, y: number): void {
+    const drag = this.inventoryDrag;
+    this.inventoryDrag = null;
+    if (!drag) return;
+    
+    const layout = this.getInventoryLayout();
+    const action: InventoryCommand['action'] = drag.from === 'bag' ? 'equip' : 'unequip';
+    if (!drag.moved) {
+      this.applyInventoryCommand({ action, from: drag.from, index: drag.index });
+    } else if (containsPoint(layout.dropZone, x, y)) {
+      this.applyInventoryCommand({ action: 'drop', from: drag.from, index: drag.index });
+    } else if (drag.from === 'bag' && layout.slots.some(slot => slot.type === drag.item.type && containsPoint(slot.rect, x, y))) {
+      this.applyInventoryCommand({ action, from: drag.from, index: drag.index });
+    } else if (drag.from === 'equipped' && containsPoint(layout.grid, x, y)) {
+      this.applyInventoryCommand({ action, from: drag.from, index: drag.index });
+    }
+  }
+  
+  // 执行物品栏操作并录制
+  private applyInventoryCommand(command: InventoryCommand): void {
+    if (this.world.applyInventoryCommand(command)) {
+      this.recorder.recordInventoryCommand(command);
+    }
+  }
+  
+  // 物品栏按钮区域（触摸操作时显示在攻击按钮上方）
+  private getInventoryButtonRect(): ScreenRect {
+    return {
+      x: this.canvas.width - 74,
+      y: this.canvas.height - this.attackButton.radius * 2 - 74,
+      width: 64,
+      height: 56
+    };
+  }
+  
+  // 角色按钮区域（物品栏按钮左侧）
+  private getCharacterButtonRect(): ScreenRect {
+    const inventoryButton = this.getInventoryButtonRect();
+    return { ...inventoryButton, x: inventoryButton.x - inventoryButton.width - 10 };
+  }
+  
+  // 角色面板的布局：左侧为角色概况和属性列表，右侧为已学技能
+  private getCharacterSheetLayout(): { panel: ScreenRect; statRows: Array<{ stat: PlayerStat; rect: ScreenRect }>; skillsX: number } {
+    const width = Math.min(this.canvas.width - 40, 640);
+    const height = Math.min(this.canvas.height - 40, 520);
+    const panel = { x: (this.canvas.width - width) / 2, y: (this.canvas.height - height) / 2, width, height };
+    const statRows = PLAYER_STATS.map((stat, index) => ({
+      stat,
+      rect: { x: panel.x + 20, y: panel.y + 170 + index * 30, width: Math.min(260, width / 2 - 30), height: 26 }
+    }));
+    return { panel, statRows, skillsX: panel.x + Math.max(300, width / 2 + 10) };
+  }
+  
+  // 指针位置的属性行
+  private getCharacterStatAt(x: number, y: number): PlayerStat | null {
+    return this.getCharacterSheetLayout().statRows.find(row => containsPoint(row.rect, x, y))?.stat ?? null;
+  }
+  
+  // 游戏结束或胜利后的菜单
+  private setEndMenu(): void {
+    this.setMenu([
+      { label: '重新开始游戏', action: () => this.restartGame() },
+      { label: '返回主菜单', action: () => this.stateMachine.transition('mainMenu') }
+    ]);
+  }
+  
+  // 菜单按钮区域（从屏幕中央向下排列）
+  private getMenuButtonRect(index: number): { x: number; y: number; width: number; height: number } {
+    const width = 200;
+    const height = 60;
+    return {
+      x: this.canvas.width / 2 - width / 2,
+      y: this.canvas.height / 2 + 50 + index * (height + 20),
+      width,
+      height
+    };
+  }
+  
+  // 通过动作操作菜单：上下选择，确认执行
+  private handleMenuAction(action: InputAction): void {
+    const count = this.menuOptions.length;
+    if (count === 0) return;
+    
+    if (action === 'moveUp') {
+      this.menuIndex = (this.menuIndex - 1 + count) % count;
+    } else if (action === 'moveDown') {
+      this.menuIndex = (this.menuIndex + 1) % count;
+    } else if (action === 'confirm') {
+      this.menuOptions[this.menuIndex]?.action();
     }
-    if (this.keysPressed.has('ArrowDown')) {
-      dy += speed;
+  }
+  
+  // 把触发的动作交给当前状态（回放中忽略）
+  private dispatchActions(actions: InputAction[]): void {
+    if (this.replayPlayer) return;
+    actions.forEach(action => this.stateMachine.handleAction(action));
+  }
+  
+  // 点击菜单按钮
+  private handleMenuPointer(x: number, y: number): void {
+    for (let i = 0; i < this.menuOptions.length; i++) {
+      const rect = this.getMenuButtonRect(i);
+      if (x >= rect.x && x <= rect.x + rect.width && 
+          y >= rect.y && y <= rect.y + rect.height) {
+        this.menuOptions[i]?.action();
+        return;
+      }
     }
-    if (this.keysPressed.has('ArrowLeft')) {
-      dx -= speed;
+  }
+  
+  // 采集当前帧的键盘、鼠标、手柄与虚拟摇杆输入
+  private collectInput(): InputState {
+    const move = this.input.getMoveVector();
+    const aim = this.getAimDirection();
+    
+    return {
+      moveX: move.x,
+      moveY: move.y,
+      attack: this.input.isActionActive('attack'),
+      aimX: aim.x,
+      aimY: aim.y,
+      pickup: this.input.isActionActive('pickup')
+    };
+  }
+  
+  // 瞄准方向（单位向量）：右摇杆优先，其次是鼠标指向，都没有时为0
+  private getAimDirection(): { x: number; y: number } {
+    let aim = this.gamepad.getAim();
+    
+    if (aim.x === 0 && aim.y === 0 && this.mouseAimActive) {
+      const player = this.world.getState().player;
+      const camera = this.world.getState().camera;
+      aim = {
+        x: this.mousePosition.x - (player.x - camera.x),
+        y: this.mousePosition.y - (player.y - camera.y)
+      };
     }
-    if (this.keysPressed.has('ArrowRight')) {
-      dx += speed;
+    
+    const length = Math.sqrt(aim.x * aim.x + aim.y * aim.y);
+    if (length === 0) return { x: 0, y: 0 };
+    return { x: aim.x / length, y: aim.y / length };
+  }
+  
+  // 把虚拟摇杆的偏移转换为移动输入
+  private updateJoystickInput(): void {
+    if (!this.joystick.active) {
+      this.input.setAnalogMove('joystick', 0, 0);
+      return;
     }
     
-    // 虚拟摇杆控制
-    if (this.joystick.active) {
-      const deltaX = this.joystick.currentX - this.joystick.startX;
-      const deltaY = this.joystick.currentY - this.joystick.startY;
-      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+    // 偏移达到摇杆半径时为满速
+    const move = toAnalogVector(
+      this.joystick.currentX - this.joystick.startX,
+      this.joystick.currentY - this.joystick.startY,
+      this.joystick.radius
+    );
+    this.input.setAnalogMove('joystick', move.x, move.y);
+  }
+  
+  // 按键设置界面的行数：每个动作一行，加上"摇杆死区"、"恢复默认"和"返回"
+  private getBindingRowCount(): number {
+    return INPUT_ACTIONS.length + 3;
+  }
+  
+  // 摇杆死区设置所在的行
+  private getDeadZoneRow(): number {
+    return INPUT_ACTIONS.length;
+  }
+  
+  // 按键设置界面中单元格的区域（动作行的column为绑定位置，按钮行忽略column）
+  private getBindingCellRect(row: number, column: number): { x: number; y: number; width: number; height: number } {
+    const labelWidth = 140;
+    const cellWidth = 140;
+    const rowHeight = 34;
+    const tableX = this.canvas.width / 2 - (labelWidth + cellWidth * MAX_BINDINGS_PER_ACTION) / 2;
+    const y = 110 + row * rowHeight;
+    
+    if (row >= INPUT_ACTIONS.length) {
+      return { x: this.canvas.width / 2 - 100, y: y + 10, width: 200, height: 28 };
+    }
+    return { x: tableX + labelWidth + column * cellWidth, y, width: cellWidth - 8, height: 28 };
+  }
+  
+  // 按键设置界面的键盘操作
+  private handleBindingKey(event: KeyboardEvent): void {
+    const rowCount = this.getBindingRowCount();
+    
+    switch (event.key) {
+      case 'ArrowUp':
+        this.bindingRow = (this.bindingRow - 1 + rowCount) % rowCount;
+        break;
+      case 'ArrowDown':
+        this.bindingRow = (this.bindingRow + 1) % rowCount;
+        break;
+      case 'ArrowLeft':
+        if (this.bindingRow === this.getDeadZoneRow()) {
+          this.gamepad.setDeadZone(this.gamepad.getDeadZone() - 0.05);
+        } else {
+          this.bindingColumn = Math.max(0, this.bindingColumn - 1);
+        }
+        break;
+      case 'ArrowRight':
+        if (this.bindingRow === this.getDeadZoneRow()) {
+          this.gamepad.setDeadZone(this.gamepad.getDeadZone() + 0.05);
+        } else {
+          this.bindingColumn = Math.min(MAX_BINDINGS_PER_ACTION - 1, this.bindingColumn + 1);
+        }
+        break;
+      case 'Enter':
+        this.activateBindingCell();
+        break;
+      case 'Delete':
+      case 'Backspace': {
+        const action = INPUT_ACTIONS[this.bindingRow];
+        if (action && this.bindingColumn < this.input.getBindings(action).length) {
+          this.input.removeBinding(action, this.bindingColumn);
+        }
+        break;
+      }
+      case 'Escape':
+        this.stateMachine.transition(this.bindingsReturnState);
+        break;
+    }
+  }
+  
+  // 点击按键设置界面的单元格
+  private handleBindingPointer(x: number, y: number): void {
+    for (let row = 0; row < this.getBindingRowCount(); row++) {
+      const columns = row < INPUT_ACTIONS.length ? MAX_BINDINGS_PER_ACTION : 1;
+      for (let column = 0; column < columns; column++) {
+        const rect = this.getBindingCellRect(row, column);
+        if (x >= rect.x && x <= rect.x + rect.width && 
+            y >= rect.y && y <= rect.y + rect.height) {
+          this.bindingRow = row;
+          if (row === this.getDeadZoneRow()) {
+            // 点击左半边减小死区，右半边增大
+            const step = x < rect.x + rect.width / 2 ? -0.05 : 0.05;
+            this.gamepad.setDeadZone(this.gamepad.getDeadZone() + step);
+            return;
+          }
+          this.bindingColumn = column;
+          this.activateBindingCell();
+          return;
+        }
+      }
+    }
+  }
+  
+  // 执行选中的单元格：动作行等待新按键，按钮行恢复默认或返回
+  private activateBindingCell(): void {
+    const action = INPUT_ACTIONS[this.bindingRow];
+    if (action) {
+      const column = this.bindingColumn;
+      this.input.captureNextBinding(binding => {
+        if (binding) {
+          this.input.setBinding(action, column, binding);
+        }
+      });
+    } else if (this.bindingRow === this.getDeadZoneRow()) {
+      // 死区通过左右键调整
+    } else if (this.bindingRow === this.getDeadZoneRow() + 1) {
+      this.input.resetBindings();
+    } else {
+      this.stateMachine.transition(this.bindingsReturnState);
+    }
+  }
+  
+  // 获取当前正在显示的世界（回放时为回放世界）
+  private getActiveWorld(): World {
+    return this.replayPlayer ? this.replayPlayer.getWorld() : this.world;
+  }
+  
+  // 处理回放相关按键
+  private handleReplayKey(event: KeyboardEvent): void {
+    // F8导出当前录像，F9载入录像
+    if (event.key === 'F8') {
+      event.preventDefault();
+      downloadTextFile(`replay-${this.world.getSeed()}.json`, encodeReplay(this.recorder.getData()));
+      return;
+    }
+    if (event.key === 'F9') {
+      event.preventDefault();
+      pickTextFile()
+        .then(text => this.startReplay(text))
+        .catch(error => console.error('Failed to load replay:', error));
+      return;
+    }
+    
+    const replayPlayer = this.replayPlayer;
+    if (!replayPlayer) return;
+    
+    const seekFrames = Math.round(5 / FIXED_TIMESTEP); // 每次跳转5秒
+    switch (event.key) {
+      case ' ':
+        replayPlayer.togglePause();
+        break;
+      case '1':
+        replayPlayer.setSpeed(1);
+        break;
+      case '2':
+        replayPlayer.setSpeed(2);
+        break;
+      case '4':
+        replayPlayer.setSpeed(4);
+        break;
+      case 'ArrowLeft':
+        replayPlayer.seek(replayPlayer.getFrame() - seekFrames);
+        break;
+      case 'ArrowRight':
+        replayPlayer.seek(replayPlayer.getFrame() + seekFrames);
+        break;
+      case 'Escape':
+        this.replayPlayer = null;
+        break;
+    }
+  }
+  
+  // 创建录像录制器（从存档继续时记录起始状态）
+  private createRecorder(fromSave: boolean): ReplayRecorder {
+    return new ReplayRecorder(this.world.getSeed(), fromSave ? this.world.toSaveData() : undefined);
+  }
+  
+  // 切换到读档得到的世界
+  private loadWorld(world: World): void {
+    this.world = world;
+    this.watchWorldEvents();
+    this.recorder = this.createRecorder(true);
+    this.accumulator = 0;
+    this.lastAutosaveLevel = world.getState().player.level;
+    this.replayPlayer = null;
+    
+    if (!this.stateMachine.isIn('playing')) {
+      this.stateMachine.transition('playing');
+    }
+  }
+  
+  // 从本地存档继续游戏，存档损坏时开始新游戏
+  private continueGame(): void {
+    const world = saveManager.load();
+    if (world) {
+      this.loadWorld(world);
+    } else {
+      this.restartGame();
+    }
+  }
+  
+  // 是否处于对局中（可以存档），物品栏、角色面板、拾取设置和从暂停菜单打开的按键设置也算在对局中
+  private isInRun(): boolean {
+    return this.stateMachine.isIn('playing', 'paused', 'levelUpChoice', 'lootFilter', 'inventory', 'characterSheet') ||
+      (this.stateMachine.isIn('keyBindings') && this.bindingsReturnState === 'paused');
+  }
+  
+  // 自动存档（回放中或不在对局中时不存档）
+  private autosave(): void {
+    if (this.replayPlayer || !this.isInRun()) return;
+    saveManager.save(this.world);
+  }
+  
+  // 处理存档相关按键：F6存档（Shift导出文件），F7读档（Shift导入文件）
+  private handleSaveKey(event: KeyboardEvent): void {
+    if (event.key === 'F6') {
+      event.preventDefault();
+      if (this.replayPlayer || !this.isInRun()) return;
       
-      if (distance > 0) {
-        // 计算方向向量并归一化
-        const normalizedX = deltaX / distance;
-        const normalizedY = deltaY / distance;
+      if (event.shiftKey) {
+        saveManager.exportToFile(this.world);
+      } else {
+        saveManager.save(this.world);
+      }
+    } else if (event.key === 'F7') {
+      event.preventDefault();
+      if (this.stateMachine.isIn('boot', 'loading')) return;
+      
+      if (event.shiftKey) {
+        saveManager.importFromFile()
+          .then(world => this.loadWorld(world))
+          .catch(error => console.error('Failed to import save:', error));
+      } else {
+        const world = saveManager.load();
+        if (world) {
+          this.loadWorld(world);
+        }
+      }
+    }
+  }
+  
+  // 开始播放录像
+  private startReplay(text: string): void {
+    this.replayPlayer = new ReplayPlayer(decodeReplay(text));
+  }
+  
+  private updateCamera(): void {
+    const player = this.getActiveWorld().getState().player;
+    const camera = this.getActiveWorld().getState().camera;
+    
+    camera.x = player.x - this.canvas.width / 2;
+    camera.y = player.y - this.canvas.height / 2;
+  }
+  
+  private handleSkillSelection(mouseX: number, mouseY: number): void {
+    const skillOptions = this.world.getSkillOptions();
+    if (skillOptions.length === 0) return;
+    
+    const startY = this.canvas.height / 2;
+    const buttonHeight = 60;
+    const buttonSpacing = 20;
+    
+    // 检查是否点击了某个技能按钮
+    for (let i = 0; i < skillOptions.length; i++) {
+      const buttonY = startY + i * (buttonHeight + buttonSpacing);
+      
+      if (mouseY >= buttonY && mouseY <= buttonY + buttonHeight && 
+          mouseX >= this.canvas.width / 2 - 200 && mouseX <= this.canvas.width / 2 + 200) {
+        // 学习选择的技能并关闭技能选择界面
+        this.chooseSkill(i);
+        break;
+      }
+    }
+  }
+  
+  // 选择技能后继续游戏
+  private chooseSkill(index: number): void {
+    if (this.world.chooseSkill(index)) {
+      this.recorder.recordSkillChoice(index);
+      this.stateMachine.transition('playing');
+    }
+  }
+  
+  // 渲染投射物：火球为发光圆球，闪电链为沿命中点折线的电弧
+  private renderProjectiles(): void {
+    const ctx = this.ctx;
+    const camera = this.getActiveWorld().getState().camera;
+    
+    for (const projectile of this.getActiveWorld().getProjectiles()) {
+      ctx.save();
+      if (projectile.kind === 'lightning') {
+        const points = projectile.active
+          ? [...projectile.trail, { x: projectile.x, y: projectile.y }]
+          : projectile.trail;
+        ctx.globalAlpha = projectile.active ? 1 : Math.max(0, projectile.fading / PROJECTILE_TRAIL_FADE_TIME);
+        ctx.strokeStyle = '#87CEFA';
+        ctx.shadowColor = '#FFFFFF';
+        ctx.shadowBlur = 10;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        points.forEach((point, index) => {
+          const screenX = point.x - camera.x;
+          const screenY = point.y - camera.y;
+          if (index === 0) {
+            ctx.moveTo(screenX, screenY);
+          } else {
+            // 在两点之间加入折点，形成闪电的锯齿效果
+            const previous = points[index - 1]!;
+            const midX = (previous.x + point.x) / 2 - camera.x + (Math.random() - 0.5) * 20;
+            const midY = (previous.y + point.y) / 2 - camera.y + (Math.random() - 0.5) * 20;
+            ctx.lineTo(midX, midY);
+            ctx.lineTo(screenX, screenY);
+          }
+        });
+        ctx.stroke();
+      } else if (projectile.active && projectile.kind === 'arrow') {
+        // 箭矢沿飞行方向绘制为短线
+        const length = 16 / Math.max(1, projectile.speed);
+        ctx.strokeStyle = PROJECTILE_COLORS.arrow;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(projectile.x - camera.x, projectile.y - camera.y);
+        ctx.lineTo(projectile.x - projectile.vx * length - camera.x, projectile.y - projectile.vy * length - camera.y);
+        ctx.stroke();
+      } else if (projectile.active) {
+        ctx.fillStyle = '#FF8C00';
+        ctx.shadowColor = '#FF4500';
+        ctx.shadowBlur = 15;
+        ctx.beginPath();
+        ctx.arc(projectile.x - camera.x, projectile.y - camera.y, projectile.radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }
+  
+  // 渲染Boss技能的地面预警：外框标出范围，内部填充随蓄力进度扩大
+  private renderTelegraphs(): void {
+    const ctx = this.ctx;
+    const camera = this.getActiveWorld().getState().camera;
+    
+    for (const telegraph of this.getActiveWorld().getTelegraphs()) {
+      const progress = telegraph.duration > 0 ? 1 - telegraph.remaining / telegraph.duration : 1;
+      const screenX = telegraph.x - camera.x;
+      const screenY = telegraph.y - camera.y;
+      
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 23, 68, 0.9)';
+      ctx.fillStyle = 'rgba(255, 23, 68, 0.3)';
+      ctx.lineWidth = 2;
+      if (telegraph.kind === 'circle') {
+        ctx.beginPath();
+        ctx.arc(screenX, screenY, telegraph.radius, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(screenX, screenY, telegraph.radius * progress, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        const dx = telegraph.toX - telegraph.x;
+        const dy = telegraph.toY - telegraph.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        ctx.translate(screenX, screenY);
+        ctx.rotate(Math.atan2(dy, dx));
+        ctx.strokeRect(0, -telegraph.radius, length, telegraph.radius * 2);
+        ctx.fillRect(0, -telegraph.radius, length * progress, telegraph.radius * 2);
+      }
+      ctx.restore();
+    }
+  }
+  
+  // 渲染地面掉落物：装备显示稀有度颜色的光柱和光晕，经验球显示为小光点，快消失时闪烁
+  private renderLoot(): void {
+    const ctx = this.ctx;
+    const camera = this.getActiveWorld().getState().camera;
+    
+    for (const drop of this.getActiveWorld().getLootInArea(this.getViewArea(50))) {
+      if (drop.lifetime < 5 && !drop.attracted && Math.floor(drop.lifetime * 4) % 2 === 0) continue;
+      
+      const screenX = drop.x - camera.x;
+      const screenY = drop.y - camera.y;
+      
+      ctx.save();
+      if (drop.item) {
+        const color = getRarityColor(drop.item.rarity);
+        const beam = ctx.createLinearGradient(screenX, screenY - 60, screenX, screenY);
+        beam.addColorStop(0, `${color}00`);
+        beam.addColorStop(1, `${color}AA`);
+        ctx.fillStyle = beam;
+        ctx.fillRect(screenX - 3, screenY - 60, 6, 60);
+        
+        const glow = ctx.createRadialGradient(screenX, screenY, 0, screenX, screenY, 16);
+        glow.addColorStop(0, `${color}CC`);
+        glow.addColorStop(1, `${color}00`);
+        ctx.fillStyle = glow;
+        ctx.beginPath();
+        ctx.arc(screenX, screenY, 16, 0, Math.PI * 2);
+        ctx.fill();
+        
+        ctx.fillStyle = color;
+        ctx.fillRect(screenX - 5, screenY - 5, 10, 10);
+      } else {
+        ctx.fillStyle = '#69F0AE';
+        ctx.beginPath();
+        ctx.arc(screenX, screenY, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }
+  
+  // 渲染右上角的拾取提示（按稀有度着色，逐渐淡出）
+  private renderPickupToasts(): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.font = '16px Arial';
+    ctx.textAlign = 'right';
+    this.pickupToasts.forEach((toast, index) => {
+      ctx.globalAlpha = Math.min(1, toast.timeLeft);
+      ctx.fillStyle = toast.color;
+      ctx.fillText(toast.text, this.canvas.width - 20, 100 + index * 24);
+    });
+    ctx.restore();
+  }
+  
+  // 渲染屏幕顶部的Boss血条（名称、阶段和狂暴倒计时），位于提示下方
+  private renderBossBar(): void {
+    const boss = this.getActiveWorld().getActiveBoss();
+    const controller = boss?.boss;
+    if (!boss || !controller) return;
+    
+    const ctx = this.ctx;
+    const width = 400;
+    const x = this.canvas.width / 2 - width / 2;
+    const y = 64;
+    const healthPercent = Math.max(0, boss.health / boss.maxHealth);
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x - 10, y, width + 20, 44);
+    ctx.fillStyle = '#5D0000';
+    ctx.fillRect(x, y + 24, width, 12);
+    ctx.fillStyle = controller.isEnraged() ? '#FF1744' : '#D50000';
+    ctx.fillRect(x, y + 24, width * healthPercent, 12);
+    
+    ctx.font = 'bold 14px Arial';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${boss.getName()}  阶段 ${controller.getPhase() + 1}/${controller.getPhaseCount()}`, x, y + 12);
+    ctx.textAlign = 'right';
+    if (controller.isEnraged()) {
+      ctx.fillStyle = '#FF1744';
+      ctx.fillText('狂暴', x + width, y + 12);
+    } else {
+      ctx.fillText(`狂暴 ${Math.ceil(controller.getEnrageRemaining())}秒`, x + width, y + 12);
+    }
+    ctx.restore();
+  }
+  
+  // 渲染攻击效果
+  private renderAttackEffects(): void {
+    const ctx = this.ctx;
+    const camera = this.getActiveWorld().getState().camera;
+    
+    for (const effect of this.getActiveWorld().getAttackEffects()) {
+      const screenX = effect.x - camera.x;
+      const screenY = effect.y - camera.y;
+      
+      // 计算透明度（根据剩余生命值）
+      const alpha = effect.lifetime / effect.maxLifetime;
+      
+      // 渲染伤害数字
+      if (effect.damage > 0) {
+        ctx.save();
+        ctx.font = 'bold 16px Arial';
+        ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
         
-        // 限制最大移动距离为摇杆半径
-        const moveDistance = Math.min(distance, this.joystick.radius);
+        // 数字向上飘动的效果
+        const floatOffset = (1 - alpha) * 20;
+        
+        ctx.fillText(`-${Math.round(effect.damage)}`, screenX, screenY - floatOffset);
+        ctx.restore();
+      }
+      
+      // 渲染攻击光圈效果
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(screenX, screenY, 30 * alpha, 0, Math.PI * 2);
+      ctx.strokeStyle = `${effect.color}${Math.floor(alpha * 255).toString(16).padStart(2, '0')}`;
+      ctx.lineWidth = 3;
+      ctx.stroke();
+      ctx.restore();
+      
+      // 渲染粒子效果
+      for (let i = 0; i < 4; i++) {
+        const angle = (i / 4) * Math.PI * 2 + Date.now() * 0.005;
+        const particleRadius = 40 * alpha;
+        const particleX = screenX + Math.cos(angle) * particleRadius;
+        const particleY = screenY + Math.sin(angle) * particleRadius;
         
-        dx += normalizedX * moveDistance * (speed / this.joystick.radius);
-        dy += normalizedY * moveDistance * (speed / this.joystick.radius);
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(particleX, particleY, 3, 0, Math.PI * 2);
+        ctx.fillStyle = `${effect.color}${Math.floor(alpha * 255).toString(16).padStart(2, '0')}`;
+        ctx.fill();
+        ctx.restore();
+      }
+    }
+  }
+  
+  private render(): void {
+    const ctx = this.ctx;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    
+    if (this.replayPlayer) {
+      if (this.replayPlayer.getWorld().isOver()) {
+        this.renderGameOver();
+      } else {
+        this.renderWorld();
       }
+      this.renderReplayControls(this.replayPlayer);
+    } else {
+      this.stateMachine.render();
+    }
+    
+    if (this.notification) {
+      this.renderNotification(this.notification.text);
+    }
+  }
+  
+  // 渲染屏幕顶部的提示
+  private renderNotification(text: string): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.font = '16px Arial';
+    const width = ctx.measureText(text).width + 40;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(this.canvas.width / 2 - width / 2, 20, width, 36);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, this.canvas.width / 2, 38);
+    ctx.restore();
+  }
+  
+  // 渲染游戏世界和HUD
+  private renderWorld(): void {
+    this.updateCamera();
+    this.renderMap();
+    this.renderTelegraphs();
+    this.renderLoot();
+    this.renderMonsters();
+    this.renderPlayer();
+    this.renderAttackRange();
+    this.renderProjectiles();
+    this.renderAttackEffects();
+    this.renderUI();
+    this.renderPickupToasts();
+    this.renderBossBar();
+  }
+  
+  // 渲染加载画面
+  private renderLoading(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('加载中...', this.canvas.width / 2, this.canvas.height / 2);
+    ctx.textAlign = 'left';
+  }
+  
+  // 渲染主菜单
+  private renderMainMenu(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    
+    ctx.fillStyle = '#FFFF00';
+    ctx.font = '48px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('击杀怪物', this.canvas.width / 2, this.canvas.height / 2 - 50);
+    
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = '16px Arial';
+    ctx.fillText(
+      `攻击: ${this.input.describeAction('attack')}    暂停: ${this.input.describeAction('pause')}`,
+      this.canvas.width / 2,
+      this.canvas.height / 2
+    );
+    
+    this.renderMenuButtons();
+  }
+  
+  // 渲染暂停界面
+  private renderPauseOverlay(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '48px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('已暂停', this.canvas.width / 2, this.canvas.height / 2 - 50);
+    
+    this.renderMenuButtons();
+  }
+  
+  // 渲染拾取设置界面（稀有度名称使用稀有度颜色）
+  private renderLootFilter(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    
+    ctx.save();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '30px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('拾取设置', this.canvas.width / 2, 80);
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#AAAAAA';
+    ctx.fillText(`关闭自动拾取的稀有度需要按住${this.input.describeAction('pickup')}拾取`, this.canvas.width / 2, 110);
+    
+    ctx.font = '18px Arial';
+    ctx.textBaseline = 'middle';
+    this.menuOptions.forEach((option, index) => {
+      const rect = this.getLootFilterRowRect(index);
+      const selected = index === this.menuIndex;
+      ctx.fillStyle = selected ? '#0088FF' : '#333333';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = selected ? '#FFFF00' : '#666666';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      
+      const rarity = LOOT_FILTER_RARITIES[index]?.rarity;
+      ctx.fillStyle = rarity ? getRarityColor(rarity) : '#FFFFFF';
+      ctx.fillText(option.label, rect.x + rect.width / 2, rect.y + rect.height / 2);
+    });
+    ctx.restore();
+  }
+  
+  // 渲染物品栏界面：已装备栏位、工具栏、丢弃区和背包格子，拖动的物品跟随指针，悬停或拖动时显示物品提示
+  private renderInventory(): void {
+    const ctx = this.ctx;
+    const layout = this.getInventoryLayout();
+    const { panel } = layout;
+    const drag = this.inventoryDrag?.moved ? this.inventoryDrag : null;
+    
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(20, 20, 30, 0.95)';
+    ctx.fillRect(panel.x, panel.y, panel.width, panel.height);
+    ctx.strokeStyle = '#666666';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(panel.x, panel.y, panel.width, panel.height);
+    
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('物品栏', panel.x + 20, panel.y + 28);
+    
+    // 已装备栏位（栏位上方为类型名称）
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'center';
+    for (const slot of layout.slots) {
+      ctx.fillStyle = '#AAAAAA';
+      ctx.fillText(EQUIPMENT_TYPE_NAMES[slot.type], slot.rect.x + slot.rect.width / 2, slot.rect.y - 12);
+      const entry = this.getEquippedEntry(slot.type);
+      const dragged = drag?.from === 'equipped' && drag.index === entry?.index;
+      this.renderInventoryItem(entry && !dragged ? entry.item : null, slot.rect);
+    }
+    
+    // 丢弃区（拖动物品时高亮）
+    const { dropZone } = layout;
+    ctx.fillStyle = drag ? 'rgba(244, 67, 54, 0.5)' : 'rgba(244, 67, 54, 0.2)';
+    ctx.fillRect(dropZone.x, dropZone.y, dropZone.width, dropZone.height);
+    ctx.strokeStyle = '#F44336';
+    ctx.strokeRect(dropZone.x, dropZone.y, dropZone.width, dropZone.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText('丢弃', dropZone.x + dropZone.width / 2, dropZone.y + dropZone.height / 2);
+    
+    // 工具栏
+    const typeFilter = this.inventoryTypeFilter;
+    const rarityFilter = this.inventoryRarityFilter;
+    const toolbarLabels = [
+      `排序: ${INVENTORY_SORT_MODES.find(option => option.mode === this.inventorySort)?.label}`,
+      `类型: ${typeFilter ? EQUIPMENT_TYPE_NAMES[typeFilter] : '全部'}`,
+      `稀有度: ${LOOT_FILTER_RARITIES.find(option => option.rarity === rarityFilter)?.label ?? '全部'}`
+    ];
+    layout.toolbar.forEach((rect, index) => {
+      ctx.fillStyle = '#333333';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = '#666666';
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.fillStyle = index === 2 && rarityFilter ? getRarityColor(rarityFilter) : '#FFFFFF';
+      ctx.fillText(toolbarLabels[index] ?? '', rect.x + rect.width / 2, rect.y + rect.height / 2);
+    });
+    
+    // 背包格子（放不下的物品只显示数量）
+    const entries = this.getInventoryBagEntries();
+    const shown = entries.slice(0, layout.capacity);
+    shown.forEach((entry, index) => {
+      const dragged = drag?.from === 'bag' && drag.index === entry.index;
+      this.renderInventoryItem(dragged ? null : entry.item, this.getInventoryCellRect(index));
+    });
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#AAAAAA';
+    const bottomY = panel.y + panel.height - 20;
+    if (entries.length === 0) {
+      ctx.fillText(this.world.getState().player.inventory.length === 0 ? '背包是空的' : '没有符合筛选条件的物品', layout.grid.x, layout.grid.y + 20);
+    } else if (entries.length > shown.length) {
+      ctx.fillText(`另有${entries.length - shown.length}件未显示`, layout.grid.x, bottomY);
     }
     
-    // 获取当前活跃的障碍物
-    const obstacles = this.mapGenerator.getAllActiveObstacles();
+    // 操作提示
+    ctx.textAlign = 'right';
+    ctx.fillText(`点击装备/卸下，拖到丢弃区丢弃    ${this.input.describeAction('inventory')} 关闭`, panel.x + panel.width - 20, bottomY);
+    ctx.restore();
+    
+    // 拖动中的物品跟随指针
+    if (drag) {
+      const size = INVENTORY_CELL_SIZE;
+      this.renderInventoryItem(drag.item, { x: drag.x - size / 2, y: drag.y - size / 2, width: size, height: size });
+    }
     
-    // 使用Player类的move方法，传入障碍物数组进行碰撞检测
-    if (player.move) {
-      player.move(dx, dy, obstacles);
-    } else {
-      // 后备方案：如果没有move方法，使用类型断言
-      (player as any).move(dx, dy, obstacles);
+    // 物品提示：拖动时显示拖动的物品，否则显示鼠标悬停的物品
+    const hovered = drag ?? (this.mouseAimActive ? this.getInventoryEntryAt(this.mousePosition.x, this.mousePosition.y) : null);
+    if (hovered) {
+      const position = drag ? { x: drag.x, y: drag.y } : this.mousePosition;
+      this.renderItemTooltip(hovered, position.x, position.y);
     }
-  }
-  
-  private updateCamera(): void {
-    const player = this.gameState.player;
-    const camera = this.gameState.camera;
     
-    camera.x = player.x - this.canvas.width / 2;
-    camera.y = player.y - this.canvas.height / 2;
-  }
-  
-  private checkMonsterSpawn(): void {
-    const maxMonsters = 10;
-    if (this.gameState.monsters.length < maxMonsters) {
-      // 根据游戏进度生成更强大的怪物
-      const player = this.gameState.player;
-      const spawnDistance = 1000;
-      
-      const angle = Math.random() * Math.PI * 2;
-      const spawnX = player.x + Math.cos(angle) * spawnDistance;
-      const spawnY = player.y + Math.sin(angle) * spawnDistance;
-      
-      // 使用正确的方法名spawnMonster
-      const monster = this.monsterSpawner.spawnMonster(spawnX, spawnY);
-      
-      this.gameState.monsters.push(monster);
+    if (this.isMobile || window.innerWidth < 768) {
+      this.renderTouchButtons();
     }
   }
   
-  private updateMonsters(deltaTime: number): void {
-    const player = this.gameState.player;
+  // 渲染角色面板：角色概况、各项最终属性（悬停或选中时显示来源明细）和已学技能
+  private renderCharacterSheet(): void {
+    const ctx = this.ctx;
+    const player = this.world.getState().player;
+    const layout = this.getCharacterSheetLayout();
+    const { panel } = layout;
+    const hovered = this.mouseAimActive ? this.getCharacterStatAt(this.mousePosition.x, this.mousePosition.y) : null;
+    const selected = hovered ?? this.characterSelectedStat;
     
-    // 获取当前活跃的障碍物
-    const obstacles = this.mapGenerator.getAllActiveObstacles();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     
-    for (const monster of this.gameState.monsters) {
-      // 使用Monster类的move方法，传入deltaTime和障碍物数组进行碰撞检测
-      if (monster.move) {
-        // 直接设置目标为玩家（使用类型断言）
-        (monster as any).target = player;
-        
-        monster.move(deltaTime, obstacles);
+    ctx.save();
+    ctx.fillStyle = 'rgba(20, 20, 30, 0.95)';
+    ctx.fillRect(panel.x, panel.y, panel.width, panel.height);
+    ctx.strokeStyle = '#666666';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(panel.x, panel.y, panel.width, panel.height);
+    
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('角色', panel.x + 20, panel.y + 28);
+    
+    // 角色概况
+    ctx.font = '16px Arial';
+    Object.entries(player.getStatsSummary()).forEach(([label, value], index) => {
+      ctx.fillStyle = '#AAAAAA';
+      ctx.fillText(label, panel.x + 20, panel.y + 66 + index * 24);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(value, panel.x + 120, panel.y + 66 + index * 24);
+    });
+    
+    // 属性列表
+    for (const { stat, rect } of layout.statRows) {
+      if (stat === selected) {
+        ctx.fillStyle = '#334466';
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
       }
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#CCCCCC';
+      ctx.fillText(PLAYER_STAT_NAMES[stat], rect.x + 8, rect.y + rect.height / 2);
+      ctx.textAlign = 'right';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(formatPlayerStat(stat, player[stat]), rect.x + rect.width - 8, rect.y + rect.height / 2);
     }
-  }
-  
-  private handleMonsterDeath(monster: any, index: number): void {
-    const player = this.gameState.player;
     
-    console.log(`怪物死亡，获得 ${monster.experienceReward} 经验值`);
-    
-    // 增加分数
-    this.gameState.score += monster.experienceReward;
+    // 已学技能
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#FFFF00';
+    ctx.fillText('技能', layout.skillsX, panel.y + 66);
+    ctx.font = '14px Arial';
+    if (player.skills.length === 0) {
+      ctx.fillStyle = '#888888';
+      ctx.fillText('尚未学习技能', layout.skillsX, panel.y + 92);
+    }
+    player.skills.forEach((skill, index) => {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(skill.getLevelDescription(), layout.skillsX, panel.y + 92 + index * 22);
+    });
     
-    // 增加经验
-    player.gainExperience(monster.experienceReward);
+    // 操作提示
+    ctx.fillStyle = '#AAAAAA';
+    ctx.textAlign = 'right';
+    ctx.fillText(`悬停或点击属性查看来源    ${this.input.describeAction('character')} 关闭`, panel.x + panel.width - 20, panel.y + panel.height - 20);
+    ctx.restore();
     
-    // 生成掉落装备
-    const loot = monster.dropLoot();
-    if (loot.length > 0) {
-      // 将装备添加到玩家背包
-      loot.forEach((item: any) => {
-        player.addEquipment(item);
-      });
+    // 属性来源明细（悬停时跟随鼠标，选中时显示在属性行右侧）
+    if (selected) {
+      const row = layout.statRows.find(statRow => statRow.stat === selected)!;
+      const position = hovered ? this.mousePosition : { x: row.rect.x + row.rect.width, y: row.rect.y };
+      this.renderStatBreakdown(selected, position.x, position.y);
     }
     
-    // 从怪物列表中移除
-    this.gameState.monsters.splice(index, 1);
-  }
-
-  // 完全删除这个未使用的方法
-  private updateSkills(): void {
-    // 暂时不更新技能
-  }
-  
-  // 检查玩家是否有未使用的技能点，如果有则显示技能选择界面
-  private checkSkillPoints(): void {
-    const player = this.gameState.player;
-    // 使用类型断言访问skillPoints属性
-    const playerInstance = player as any;
-    
-    // 如果玩家有技能点且不在技能选择界面
-    if (playerInstance.skillPoints > 0 && !this.showSkillSelection) {
-      this.showSkillSelection = true;
-      // 获取三个随机技能选项
-      this.skillOptions = skillPool.getRandomSkillOptions(3);
-      console.log('显示技能选择界面，可用技能点:', playerInstance.skillPoints);
+    if (this.isMobile || window.innerWidth < 768) {
+      this.renderTouchButtons();
     }
   }
   
-  private handleSkillSelection(event: MouseEvent): void {
-    if (!this.showSkillSelection || this.skillOptions.length === 0) return;
+  // 渲染属性的来源明细：基础值、升级、装备、技能和状态效果的加成，最后为最终值
+  private renderStatBreakdown(stat: PlayerStat, pointerX: number, pointerY: number): void {
+    const ctx = this.ctx;
+    const player = this.world.getState().player;
+    const rows = [
+      ...describeStatBreakdown(player.getStatBlock(), stat),
+      { label: '最终', value: formatPlayerStat(stat, player[stat]) }
+    ];
     
-    const rect = this.canvas.getBoundingClientRect();
-    const mouseX = event.clientX - rect.left;
-    const mouseY = event.clientY - rect.top;
+    ctx.save();
+    ctx.font = '14px Arial';
+    ctx.textBaseline = 'top';
+    const lineHeight = 20;
+    const labelWidth = Math.max(...rows.map(row => ctx.measureText(row.label).width));
+    const valueWidth = Math.max(...rows.map(row => ctx.measureText(row.value).width));
+    const width = labelWidth + valueWidth + 40;
+    const height = (rows.length + 1) * lineHeight + 12;
+    const x = Math.max(0, Math.min(pointerX + 16, this.canvas.width - width));
+    const y = Math.max(0, Math.min(pointerY + 16, this.canvas.height - height));
     
-    const startY = this.canvas.height / 2;
-    const buttonHeight = 60;
-    const buttonSpacing = 20;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = '#666666';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, width, height);
     
-    // 检查是否点击了某个技能按钮
-    for (let i = 0; i < this.skillOptions.length; i++) {
-      const buttonY = startY + i * (buttonHeight + buttonSpacing);
-      
-      if (mouseY >= buttonY && mouseY <= buttonY + buttonHeight && 
-          mouseX >= this.canvas.width / 2 - 200 && mouseX <= this.canvas.width / 2 + 200) {
-        
-        // 学习选择的技能
-        const selectedSkill = this.skillOptions[i];
-        this.gameState.player.learnSkill(selectedSkill);
-        
-        // 关闭技能选择界面
-        this.showSkillSelection = false;
-        this.skillOptions = [];
-        console.log('选择技能:', selectedSkill.name);
-        break;
-      }
-    }
+    ctx.fillStyle = '#FFFF00';
+    ctx.textAlign = 'left';
+    ctx.fillText(PLAYER_STAT_NAMES[stat], x + 10, y + 6);
+    rows.forEach((row, index) => {
+      const rowY = y + 6 + (index + 1) * lineHeight;
+      // 基础值和最终值为白色，加成按增减显示为绿色或红色
+      const isModifier = index > 0 && index < rows.length - 1;
+      ctx.textAlign = 'left';
+      ctx.fillStyle = isModifier ? '#AAAAAA' : '#FFFFFF';
+      ctx.fillText(row.label, x + 10, rowY);
+      ctx.textAlign = 'right';
+      ctx.fillStyle = !isModifier ? '#FFFFFF' : row.value.startsWith('-') ? '#F44336' : '#4CAF50';
+      ctx.fillText(row.value, x + width - 10, rowY);
+    });
+    ctx.restore();
   }
   
-  private applySlowEffects(): void {
-    // 暂时不应用减速效果
-  }
-
-  // 移除整个未使用的方法
-  private checkCollisions(): void {
-    // 检查玩家与怪物的碰撞
-    this.checkPlayerAttacks();
-    this.checkMonsterAttacks();
+  // 渲染物品格子：稀有度颜色的边框，中间为类型名称的首字，右下角为物品等级（item为null时为空格子）
+  private renderInventoryItem(item: Equipment | null, rect: ScreenRect): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.fillStyle = '#222222';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.strokeStyle = item ? getRarityColor(item.rarity) : '#444444';
+    ctx.lineWidth = item ? 3 : 1;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    
+    if (item) {
+      ctx.fillStyle = getRarityColor(item.rarity);
+      ctx.font = '22px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(EQUIPMENT_TYPE_NAMES[item.type].charAt(0), rect.x + rect.width / 2, rect.y + rect.height / 2);
+      ctx.fillStyle = '#CCCCCC';
+      ctx.font = '10px Arial';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'alphabetic';
+      ctx.fillText(`Lv.${getEquipmentLevel(item)}`, rect.x + rect.width - 4, rect.y + rect.height - 4);
+    }
+    ctx.restore();
   }
   
-  private checkPlayerAttacks(): void {
-    const player = this.gameState.player;
-    
-    // 检查空格键是否被按下或攻击按钮是否被触摸
-    if (this.keysPressed.has(' ') || this.attackButton.pressed) {
-      console.log(this.attackButton.pressed ? '攻击按钮被按下' : '空格键被按下');
-      
-      // 创建玩家攻击特效
-      this.createAttackEffect(player.x, player.y, 0, '#FF4500');
-      
-      // 直接执行攻击，不依赖canAttack检查，确保攻击能够触发
-      console.log('执行攻击，忽略冷却时间');
-      
-      // 计算攻击伤害
-      let attackDamage = 25; // 固定基础伤害
-      
-      // 如果玩家实例有performAttack方法，则使用它
-      if (player.performAttack) {
-        const calculatedDamage = player.performAttack();
-        attackDamage = calculatedDamage > 0 ? calculatedDamage : attackDamage;
-      }
-      
-      console.log('最终攻击伤害:', attackDamage);
-      
-      // 遍历所有怪物，使用较大的攻击范围
-      for (let i = this.gameState.monsters.length - 1; i >= 0; i--) {
-        const monster = this.gameState.monsters[i];
-        if (!monster || !monster.takeDamage) {
-          console.log('跳过无效怪物或无法受伤的怪物');
-          continue;
-        }
-        
-        // 计算距离
-        const distance = Math.sqrt(
-          Math.pow(player.x - monster.x, 2) + Math.pow(player.y - monster.y, 2)
-        );
-        
-        console.log(`怪物 ${i} 距离: ${distance}`);
-        
-        // 扩大攻击范围到150像素
-        if (distance <= 150) {
-          console.log(`攻击范围内的怪物，造成 ${attackDamage} 点伤害`);
-          
-          try {
-            // 对怪物造成伤害
-            const isDead = monster.takeDamage(attackDamage);
-            console.log('怪物受伤，是否死亡:', isDead);
-            
-            // 在怪物位置创建伤害特效
-            this.createAttackEffect(monster.x, monster.y, attackDamage, '#FF6B6B');
-            
-            // 如果怪物死亡，处理死亡逻辑
-            if (isDead) {
-              console.log('怪物死亡，处理死亡逻辑');
-              this.handleMonsterDeath(monster, i);
-            }
-          } catch (error) {
-            console.error('攻击怪物时出错:', error);
-          }
-        }
+  // 渲染物品提示：名称、稀有度、类型和等级，各项属性，以及词缀
+  // 背包物品与同类型的已装备物品对比，属性差值按增减显示为绿色或红色
+  private renderItemTooltip(entry: InventoryEntry, pointerX: number, pointerY: number): void {
+    const ctx = this.ctx;
+    const { item } = entry;
+    const compared = entry.from === 'bag' ? this.getEquippedEntry(item.type)?.item ?? null : null;
+    const rarityLabel = LOOT_FILTER_RARITIES.find(option => option.rarity === item.rarity)?.label ?? item.rarity;
+    
+    // 每行由若干段不同颜色的文字组成
+    const lines: Array<Array<{ text: string; color: string }>> = [
+      [{ text: item.name, color: getRarityColor(item.rarity) }],
+      [{ text: `${rarityLabel} ${EQUIPMENT_TYPE_NAMES[item.type]} Lv.${getEquipmentLevel(item)}`, color: '#AAAAAA' }]
+    ];
+    if (entry.from === 'bag') {
+      lines.push([{ text: compared ? `对比已装备: ${compared.name}` : '该栏位未装备物品', color: '#888888' }]);
+    }
+    for (const { stat, value, delta } of compareEquipmentStats(item, compared)) {
+      const line = [{ text: `${EQUIPMENT_STAT_NAMES[stat]} ${formatStatValue(stat, value)}`, color: value === 0 ? '#888888' : '#FFFFFF' }];
+      if (entry.from === 'bag' && Math.abs(delta) > 1e-9) {
+        line.push({ text: ` (${formatStatValue(stat, delta)})`, color: delta > 0 ? '#4CAF50' : '#F44336' });
       }
+      lines.push(line);
+    }
+    for (const affix of item.affixes) {
+      lines.push([{ text: describeAffix(affix), color: '#9FA8DA' }]);
     }
+    
+    ctx.save();
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    const lineHeight = 20;
+    const width = Math.max(...lines.map(line => line.reduce((sum, part) => sum + ctx.measureText(part.text).width, 0))) + 20;
+    const height = lines.length * lineHeight + 12;
+    const x = Math.max(0, Math.min(pointerX + 16, this.canvas.width - width));
+    const y = Math.max(0, Math.min(pointerY + 16, this.canvas.height - height));
+    
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = getRarityColor(item.rarity);
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, width, height);
+    lines.forEach((line, index) => {
+      let textX = x + 10;
+      for (const part of line) {
+        ctx.fillStyle = part.color;
+        ctx.fillText(part.text, textX, y + 6 + index * lineHeight);
+        textX += ctx.measureText(part.text).width;
+      }
+    });
+    ctx.restore();
   }
   
-  // 暂时注释掉未使用的方法
-  // private applyLifesteal(_damage: number): void {
-  //   // 暂时禁用生命偷取
-  //   // TODO: 实现生命偷取逻辑
-  // }
-  
-  private checkMonsterAttacks(): void {
-    const player = this.gameState.player;
+  // 渲染按键设置界面
+  private renderKeyBindings(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     
-    for (const monster of this.gameState.monsters) {
-      if (!monster) continue;
+    ctx.save();
+    ctx.fillStyle = '#FFFF00';
+    ctx.font = '30px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('按键设置', this.canvas.width / 2, 60);
+    
+    ctx.font = '16px Arial';
+    ctx.textBaseline = 'middle';
+    for (let row = 0; row < INPUT_ACTIONS.length; row++) {
+      const action = INPUT_ACTIONS[row];
+      if (!action) continue;
+      const bindings = this.input.getBindings(action);
       
-      const distance = Math.sqrt(
-        Math.pow(player.x - monster.x, 2) + Math.pow(player.y - monster.y, 2)
-      );
+      // 动作名称
+      const firstCell = this.getBindingCellRect(row, 0);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.textAlign = 'right';
+      ctx.fillText(INPUT_ACTION_LABELS[action], firstCell.x - 16, firstCell.y + firstCell.height / 2);
       
-      // 简化版：如果怪物在攻击范围内（60像素），则攻击玩家
-      if (distance <= 60) {
-        // 使用monster.attack作为伤害，应用玩家防御减免
-        const actualDamage = Math.max(1, monster.attack - player.defense * 0.5);
-        console.log(`怪物攻击玩家，造成 ${actualDamage} 点伤害`);
-        
-        player.takeDamage(actualDamage);
-      }
-    }
-  }
-  
-  private updateMap(): void {
-    const player = this.gameState.player;
-    this.mapGenerator.updateActiveChunks(player.x, player.y);
-  }
-  
-  private checkGameOver(): void {
-    if (this.gameState.player.health <= 0) {
-      this.isGameOver = true;
-    }
-  }
-  
-  // 更新攻击效果
-  private updateAttackEffects(deltaTime: number): void {
-    for (let i = this.attackEffects.length - 1; i >= 0; i--) {
-      const effect = this.attackEffects[i];
-      if (effect) {
-        effect.lifetime -= deltaTime;
+      // 各绑定位置
+      ctx.textAlign = 'center';
+      for (let column = 0; column < MAX_BINDINGS_PER_ACTION; column++) {
+        const rect = this.getBindingCellRect(row, column);
+        const selected = row === this.bindingRow && column === this.bindingColumn;
+        const binding = bindings[column];
         
-        // 移除过期的效果
-        if (effect.lifetime <= 0) {
-          this.attackEffects.splice(i, 1);
+        ctx.fillStyle = selected ? '#0088FF' : '#444444';
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        if (selected) {
+          ctx.strokeStyle = '#FFFF00';
+          ctx.lineWidth = 2;
+          ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
         }
+        
+        const label = selected && this.input.isCapturing()
+          ? '请按键...'
+          : binding ? describeBinding(binding) : '-';
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(label, rect.x + rect.width / 2, rect.y + rect.height / 2);
       }
     }
-  }
-  
-  // 创建攻击效果
-  private createAttackEffect(x: number, y: number, damage: number, color: string): void {
-    this.attackEffects.push({
-      x,
-      y,
-      damage,
-      lifetime: 0.5, // 持续0.5秒
-      maxLifetime: 0.5,
-      color
+    
+    // 摇杆死区、恢复默认、返回按钮
+    const buttons = [`◀ 手柄摇杆死区 ${this.gamepad.getDeadZone().toFixed(2)} ▶`, '恢复默认', '返回'];
+    buttons.forEach((label, index) => {
+      const row = this.getDeadZoneRow() + index;
+      const rect = this.getBindingCellRect(row, 0);
+      const selected = row === this.bindingRow;
+      
+      ctx.fillStyle = selected ? '#0088FF' : '#0066CC';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = selected ? '#FFFF00' : '#FFFFFF';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(label, rect.x + rect.width / 2, rect.y + rect.height / 2);
     });
+    
+    // 操作提示
+    const hintRect = this.getBindingCellRect(this.getBindingRowCount(), 0);
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = '14px Arial';
+    ctx.fillText('方向键选择  回车修改  Delete清除  ←/→调整死区  Esc返回', this.canvas.width / 2, hintRect.y + 30);
+    ctx.restore();
   }
   
-  // 渲染攻击效果
-  private renderAttackEffects(): void {
+  // 渲染当前菜单按钮，键盘选中的按钮高亮
+  private renderMenuButtons(): void {
     const ctx = this.ctx;
-    const camera = this.gameState.camera;
     
-    for (const effect of this.attackEffects) {
-      const screenX = effect.x - camera.x;
-      const screenY = effect.y - camera.y;
-      
-      // 计算透明度（根据剩余生命值）
-      const alpha = effect.lifetime / effect.maxLifetime;
+    ctx.save();
+    ctx.textAlign = 'center';
+    for (let i = 0; i < this.menuOptions.length; i++) {
+      const option = this.menuOptions[i];
+      if (!option) continue;
+      const rect = this.getMenuButtonRect(i);
+      const selected = i === this.menuIndex;
       
-      // 渲染伤害数字
-      if (effect.damage > 0) {
-        ctx.save();
-        ctx.font = 'bold 16px Arial';
-        ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        
-        // 数字向上飘动的效果
-        const floatOffset = (1 - alpha) * 20;
-        
-        ctx.fillText(`-${effect.damage}`, screenX, screenY - floatOffset);
-        ctx.restore();
-      }
+      // 按钮背景
+      ctx.fillStyle = selected ? '#0088FF' : '#0066CC';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
       
-      // 渲染攻击光圈效果
-      ctx.save();
-      ctx.beginPath();
-      ctx.arc(screenX, screenY, 30 * alpha, 0, Math.PI * 2);
-      ctx.strokeStyle = `${effect.color}${Math.floor(alpha * 255).toString(16).padStart(2, '0')}`;
-      ctx.lineWidth = 3;
-      ctx.stroke();
-      ctx.restore();
+      // 按钮边框
+      ctx.strokeStyle = selected ? '#FFFF00' : '#FFFFFF';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
       
-      // 渲染粒子效果
-      for (let i = 0; i < 4; i++) {
-        const angle = (i / 4) * Math.PI * 2 + Date.now() * 0.005;
-        const particleRadius = 40 * alpha;
-        const particleX = screenX + Math.cos(angle) * particleRadius;
-        const particleY = screenY + Math.sin(angle) * particleRadius;
-        
-        ctx.save();
-        ctx.beginPath();
-        ctx.arc(particleX, particleY, 3, 0, Math.PI * 2);
-        ctx.fillStyle = `${effect.color}${Math.floor(alpha * 255).toString(16).padStart(2, '0')}`;
-        ctx.fill();
-        ctx.restore();
-      }
+      // 按钮文字
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = '20px Arial';
+      ctx.fillText(option.label, rect.x + rect.width / 2, rect.y + 35);
     }
+    ctx.restore();
   }
   
-  private render(): void {
+  // 渲染回放控制条
+  private renderReplayControls(replayPlayer: ReplayPlayer): void {
     const ctx = this.ctx;
-    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    const barWidth = Math.min(600, this.canvas.width - 40);
+    const barX = this.canvas.width / 2 - barWidth / 2;
+    const barY = this.canvas.height - 40;
+    const progress = replayPlayer.getFrameCount() > 0
+      ? replayPlayer.getFrame() / replayPlayer.getFrameCount()
+      : 1;
     
-    if (this.isGameOver) {
-      this.renderGameOver();
-    } else {
-      this.renderMap();
-      this.renderMonsters();
-      this.renderPlayer();
-      this.renderAttackRange();
-      this.renderAttackEffects();
-      this.renderUI();
-      
-      if (this.showSkillSelection) {
-        this.renderSkillSelection();
-      }
-    }
+    ctx.save();
+    
+    // 进度条
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(barX - 10, barY - 30, barWidth + 20, 50);
+    ctx.fillStyle = '#555555';
+    ctx.fillRect(barX, barY, barWidth, 8);
+    ctx.fillStyle = '#4ECDC4';
+    ctx.fillRect(barX, barY, barWidth * progress, 8);
+    
+    // 状态文字
+    const seconds = (frames: number) => Math.floor(frames * FIXED_TIMESTEP);
+    const status = replayPlayer.isFinished() ? '回放结束' : replayPlayer.isPaused() ? '已暂停' : '回放中';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(
+      `${status} ${replayPlayer.getSpeed()}x  ${seconds(replayPlayer.getFrame())}s / ${seconds(replayPlayer.getFrameCount())}s`,
+      barX,
+      barY - 10
+    );
+    ctx.textAlign = 'right';
+    ctx.fillText('空格 暂停  1/2/4 倍速  ←/→ 跳转  Esc 退出', barX + barWidth, barY - 10);
+    
+    ctx.restore();
   }
   
   private renderAttackRange(): void {
     const ctx = this.ctx;
-    const player = this.gameState.player;
-    const camera = this.gameState.camera;
+    const player = this.getActiveWorld().getState().player;
+    const camera = this.getActiveWorld().getState().camera;
     
     const screenX = player.x - camera.x;
     const screenY = player.y - camera.y;
-    const attackRange = 150; // 与checkPlayerAttacks方法中的攻击范围保持一致
     
-    // 绘制半透明的圆形表示攻击范围
+    // 绘制玩家朝向前方的半透明扇形表示攻击范围
     ctx.beginPath();
-    ctx.arc(screenX, screenY, attackRange, 0, Math.PI * 2);
+    ctx.moveTo(screenX, screenY);
+    ctx.arc(
+      screenX,
+      screenY,
+      PLAYER_ATTACK_RANGE,
+      player.facing - PLAYER_ATTACK_ARC / 2,
+      player.facing + PLAYER_ATTACK_ARC / 2
+    );
+    ctx.closePath();
     ctx.fillStyle = 'rgba(255, 107, 107, 0.2)'; // 半透明红色
     ctx.fill();
     
@@ -757,18 +2191,29 @@ export class GameSystem {
     ctx.stroke();
   }
   
+  // 当前屏幕对应的世界区域（向外扩展margin像素）
+  private getViewArea(margin: number): SpatialRect {
+    const camera = this.getActiveWorld().getState().camera;
+    return {
+      x: camera.x - margin,
+      y: camera.y - margin,
+      width: this.canvas.width + margin * 2,
+      height: this.canvas.height + margin * 2
+    };
+  }
+  
   private renderMap(): void {
     const ctx = this.ctx;
-    const camera = this.gameState.camera;
+    const camera = this.getActiveWorld().getState().camera;
     
     // 渲染背景
     ctx.fillStyle = '#222222';
     ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     
-    // 渲染障碍物
-    const activeObstacles = this.mapGenerator.getAllActiveObstacles();
+    // 渲染障碍物（只绘制屏幕范围内的）
+    const visibleObstacles = this.getActiveWorld().getObstaclesInArea(this.getViewArea(50));
     
-    for (const obstacle of activeObstacles) {
+    for (const obstacle of visibleObstacles) {
       const screenX = obstacle.x - camera.x;
       const screenY = obstacle.y - camera.y;
       
@@ -779,18 +2224,25 @@ export class GameSystem {
   
   private renderMonsters(): void {
     const ctx = this.ctx;
-    const camera = this.gameState.camera;
+    const camera = this.getActiveWorld().getState().camera;
     
-    for (const monster of this.gameState.monsters) {
+    // 只绘制屏幕范围内的怪物
+    for (const monster of this.getActiveWorld().getMonstersInArea(this.getViewArea(0))) {
       const screenX = monster.x - camera.x;
       const screenY = monster.y - camera.y;
       
-      // 渲染怪物
-      ctx.fillStyle = '#FF0000';
+      // 渲染怪物（按怪物定义的颜色区分种类）
+      ctx.fillStyle = monster.getDefinition().color;
       ctx.fillRect(screenX - 20, screenY - 20, 40, 40);
+      this.renderStatusTint(ctx, monster.statusEffects, screenX, screenY, 40);
       
-      // 渲染怪物血条
+      // 渲染怪物血条、护盾条和状态效果图标
       this.renderHealthBar(ctx, screenX, screenY - 30, 40, monster.health, monster.maxHealth);
+      if (monster.maxShield > 0) {
+        ctx.fillStyle = '#64B5F6';
+        ctx.fillRect(screenX - 20, screenY - 34, 40 * Math.max(0, monster.shield / monster.maxShield), 3);
+      }
+      this.renderStatusIcons(ctx, monster.statusEffects, screenX, screenY - 36);
       
       // 渲染怪物等级
       ctx.fillStyle = '#FFFFFF';
@@ -801,18 +2253,42 @@ export class GameSystem {
   
   private renderPlayer(): void {
     const ctx = this.ctx;
-    const player = this.gameState.player;
-    const camera = this.gameState.camera;
+    const player = this.getActiveWorld().getState().player;
+    const camera = this.getActiveWorld().getState().camera;
     
     const screenX = player.x - camera.x;
     const screenY = player.y - camera.y;
     
-    // 渲染玩家
-    ctx.fillStyle = '#0000FF';
-    ctx.fillRect(screenX - 25, screenY - 25, 50, 50);
+    // 渲染玩家精灵（朝左时水平翻转），精灵未加载时使用色块
+    const sprite = SpriteLoader.getInstance().getSprite('player_idle');
+    if (sprite) {
+      ctx.save();
+      ctx.translate(screenX, screenY);
+      if (Math.cos(player.facing) < 0) ctx.scale(-1, 1);
+      ctx.drawImage(sprite, -25, -25, 50, 50);
+      ctx.restore();
+    } else {
+      ctx.fillStyle = '#0000FF';
+      ctx.fillRect(screenX - 25, screenY - 25, 50, 50);
+    }
+    this.renderStatusTint(ctx, player.statusEffects, screenX, screenY, 50);
+    
+    // 渲染朝向指示
+    ctx.save();
+    ctx.translate(screenX, screenY);
+    ctx.rotate(player.facing);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    ctx.moveTo(39, 0);
+    ctx.lineTo(29, -6);
+    ctx.lineTo(29, 6);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
     
-    // 渲染玩家血条
+    // 渲染玩家血条和状态效果图标
     this.renderHealthBar(ctx, screenX, screenY - 40, 50, player.health, player.maxHealth);
+    this.renderStatusIcons(ctx, player.statusEffects, screenX, screenY - 46);
     
     // 渲染玩家等级
     ctx.fillStyle = '#FFFFFF';
@@ -820,6 +2296,49 @@ export class GameSystem {
     ctx.fillText(`Lv.${player.level}`, screenX - 15, screenY + 45);
   }
   
+  // 用最新施加的状态效果颜色给实体着色
+  private renderStatusTint(ctx: CanvasRenderingContext2D, statusEffects: StatusEffects, x: number, y: number, size: number): void {
+    const effects = statusEffects.getEffects();
+    const latest = effects[effects.length - 1];
+    if (!latest) return;
+    
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+    ctx.fillStyle = STATUS_EFFECTS[latest.type].color;
+    ctx.fillRect(x - size / 2, y - size / 2, size, size);
+    ctx.restore();
+  }
+  
+  // 在血条上方居中绘制状态效果图标（同类效果只画一个，右下角显示层数）
+  private renderStatusIcons(ctx: CanvasRenderingContext2D, statusEffects: StatusEffects, centerX: number, bottomY: number): void {
+    const stacks = new Map<StatusEffectType, number>();
+    statusEffects.getEffects().forEach(effect => stacks.set(effect.type, (stacks.get(effect.type) ?? 0) + 1));
+    if (stacks.size === 0) return;
+    
+    const iconSize = 14;
+    const gap = 2;
+    let x = centerX - (stacks.size * (iconSize + gap) - gap) / 2;
+    
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    stacks.forEach((count, type) => {
+      const definition = STATUS_EFFECTS[type];
+      ctx.fillStyle = definition.color;
+      ctx.fillRect(x, bottomY - iconSize, iconSize, iconSize);
+      ctx.fillStyle = '#000000';
+      ctx.font = '10px Arial';
+      ctx.fillText(definition.icon, x + iconSize / 2, bottomY - iconSize / 2);
+      if (count > 1) {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = 'bold 8px Arial';
+        ctx.fillText(String(count), x + iconSize - 2, bottomY - 2);
+      }
+      x += iconSize + gap;
+    });
+    ctx.restore();
+  }
+  
   private renderHealthBar(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, current: number, max: number): void {
     const healthPercent = Math.max(0, current / max);
     
@@ -834,12 +2353,12 @@ export class GameSystem {
   
   private renderUI(): void {
     const ctx = this.ctx;
-    const player = this.gameState.player;
+    const player = this.getActiveWorld().getState().player;
     
     // 渲染分数
     ctx.fillStyle = '#FFFFFF';
     ctx.font = '20px Arial';
-    ctx.fillText(`分数: ${this.gameState.score}`, 20, 30);
+    ctx.fillText(`分数: ${this.getActiveWorld().getState().score}`, 20, 30);
     
     // 渲染玩家状态
     ctx.fillText(`等级: ${player.level}`, 20, 60);
@@ -848,6 +2367,18 @@ export class GameSystem {
     ctx.fillText(`防御: ${player.defense}`, 20, 150);
     ctx.fillText(`经验: ${Math.floor(player.experience)}/${Math.floor(player.experienceToNextLevel)}`, 20, 180);
     
+    // 渲染游戏时间和刷怪状态（休整倒计时或下一波次）
+    const director = this.getActiveWorld().getDirector();
+    const breather = director.getBreatherRemaining();
+    const nextWave = director.getNextWave();
+    let waveText = `时间: ${formatDuration(director.getElapsed())}`;
+    if (breather > 0) {
+      waveText += `  休整 ${Math.ceil(breather)}s`;
+    } else if (nextWave) {
+      waveText += `  ${nextWave.wave.name} ${formatDuration(nextWave.time - director.getElapsed())}`;
+    }
+    ctx.fillText(waveText, 20, 210);
+    
     // 渲染技能栏
     this.renderSkillBar();
     
@@ -913,6 +2444,8 @@ export class GameSystem {
       ctx.restore();
     }
     
+    this.renderTouchButtons();
+    
     // 渲染攻击按钮
     const attackButtonX = this.canvas.width - this.attackButton.radius;
     const attackButtonY = this.canvas.height - this.attackButton.radius;
@@ -946,6 +2479,32 @@ export class GameSystem {
     ctx.restore();
   }
   
+  // 渲染物品栏和角色按钮
+  private renderTouchButtons(): void {
+    this.renderTouchButton(this.getInventoryButtonRect(), '背包', this.inventoryButtonTouchId !== null);
+    this.renderTouchButton(this.getCharacterButtonRect(), '角色', this.characterButtonTouchId !== null);
+  }
+  
+  // 渲染矩形触摸按钮
+  private renderTouchButton(rect: ScreenRect, label: string, pressed: boolean): void {
+    const ctx = this.ctx;
+    
+    ctx.save();
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = pressed ? '#8D6E63' : '#6D4C41';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '16px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, rect.x + rect.width / 2, rect.y + rect.height / 2);
+    ctx.restore();
+  }
+  
   private renderSkillBar(): void {
     const ctx = this.ctx;
     const startX = this.canvas.width - 200;
@@ -980,14 +2539,17 @@ export class GameSystem {
     
     // 渲染技能选项
     ctx.textAlign = 'left';
-    for (let i = 0; i < this.skillOptions.length; i++) {
-      const skill = this.skillOptions[i];
+    const skillOptions = this.getActiveWorld().getSkillOptions();
+    for (let i = 0; i < skillOptions.length; i++) {
+      const skill = skillOptions[i];
+      if (!skill) continue;
       const buttonY = startY + i * (buttonHeight + buttonSpacing);
+      const selected = i === this.skillSelectionIndex;
       
-      // 渲染按钮背景
-      ctx.fillStyle = '#444444';
+      // 渲染按钮背景（方向键/十字键选中的选项高亮）
+      ctx.fillStyle = selected ? '#555577' : '#444444';
       ctx.fillRect(this.canvas.width / 2 - buttonWidth / 2, buttonY, buttonWidth, buttonHeight);
-      ctx.strokeStyle = '#FFFFFF';
+      ctx.strokeStyle = selected ? '#FFFF00' : '#FFFFFF';
       ctx.lineWidth = 2;
       ctx.strokeRect(this.canvas.width / 2 - buttonWidth / 2, buttonY, buttonWidth, buttonHeight);
       
@@ -1031,41 +2593,42 @@ export class GameSystem {
     // 渲染最终分数
     ctx.fillStyle = '#FFFF00';
     ctx.font = '24px Arial';
-    ctx.fillText(`最终分数: ${this.gameState.score}`, this.canvas.width / 2, this.canvas.height / 2);
-    
-    // 渲染重新开始按钮
-    const buttonWidth = 200;
-    const buttonHeight = 60;
-    const buttonX = this.canvas.width / 2 - buttonWidth / 2;
-    const buttonY = this.canvas.height / 2 + 50;
+    ctx.fillText(`最终分数: ${this.getActiveWorld().getState().score}`, this.canvas.width / 2, this.canvas.height / 2);
     
-    // 按钮背景
-    ctx.fillStyle = '#0066CC';
-    ctx.fillRect(buttonX, buttonY, buttonWidth, buttonHeight);
+    // 回放中不显示菜单按钮
+    if (!this.replayPlayer) {
+      this.renderMenuButtons();
+    }
+    ctx.textAlign = 'left';
+  }
+  
+  // 渲染胜利画面
+  private renderVictory(): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.fillStyle = '#FFD700';
+    ctx.font = '48px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('胜利！', this.canvas.width / 2, this.canvas.height / 2 - 50);
     
-    // 按钮边框
-    ctx.strokeStyle = '#FFFFFF';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(buttonX, buttonY, buttonWidth, buttonHeight);
+    ctx.fillStyle = '#FFFF00';
+    ctx.font = '24px Arial';
+    ctx.fillText(`最终分数: ${this.getActiveWorld().getState().score}`, this.canvas.width / 2, this.canvas.height / 2);
     
-    // 按钮文字
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = '20px Arial';
-    ctx.fillText('重新开始游戏', this.canvas.width / 2, this.canvas.height / 2 + 85);
+    this.renderMenuButtons();
+    ctx.textAlign = 'left';
   }
   
   private restartGame(): void {
-    // 停止当前动画循环
-    this.stop();
-    
-    // 重置游戏状态
-    this.gameState = this.initializeGameState();
-    this.isGameOver = false;
-    
-    // 生成初始怪物
-    this.spawnInitialMonsters();
-    
-    // 重新开始游戏循环
-    this.animate();
+    // 重置游戏世界（会生成初始怪物）并重新开始录制
+    saveManager.clear();
+    this.world = new World();
+    this.watchWorldEvents();
+    this.recorder = this.createRecorder(false);
+    this.accumulator = 0;
+    this.lastAutosaveLevel = this.world.getState().player.level;
+    
+    this.stateMachine.transition('playing');
   }
 }
\ No newline at end of file
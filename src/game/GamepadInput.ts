@@ -0,0 +1,170 @@
+import type { SaveStorage } from './SaveSystem';
+import { InputManager, toAnalogVector, type InputAction } from './InputManager';
+
+// 读取手柄列表的函数（默认使用navigator.getGamepads，测试时可替换）
+export type GamepadSource = () => ReadonlyArray<Gamepad | null>;
+
+// 手柄连接状态变化回调
+export type GamepadConnectionListener = (id: string, connected: boolean) => void;
+
+// 默认摇杆死区
+export const DEFAULT_DEAD_ZONE = 0.2;
+
+// 死区允许的范围
+export const MIN_DEAD_ZONE = 0;
+export const MAX_DEAD_ZONE = 0.9;
+
+// 按键按下的模拟量阈值（扳机键为模拟量）
+const BUTTON_PRESS_THRESHOLD = 0.5;
+
+// localStorage中的手柄设置键
+const GAMEPAD_STORAGE_KEY = 'kill-monsters:gamepad';
+
+// 手柄输入选项
+export interface GamepadInputOptions {
+  source?: GamepadSource;
+  storage?: SaveStorage | null;
+  onConnectionChange?: GamepadConnectionListener;
+}
+
+// 默认手柄来源
+function getNavigatorGamepads(): ReadonlyArray<Gamepad | null> {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+    return [];
+  }
+  return navigator.getGamepads();
+}
+
+// 手柄输入：每帧轮询Gamepad API，把左摇杆和按键转换为InputManager的输入
+export class GamepadInput {
+  private input: InputManager;
+  private source: GamepadSource;
+  private storage: SaveStorage | null;
+  private onConnectionChange?: GamepadConnectionListener;
+  private deadZone: number;
+  // 已连接的手柄（index -> id）
+  private connected: Map<number, string> = new Map();
+  // 上一帧各按键的按下状态（所有手柄合并）
+  private buttonStates: boolean[] = [];
+  // 右摇杆瞄准方向（死区内为0）
+  private aim = { x: 0, y: 0 };
+  
+  constructor(input: InputManager, options: GamepadInputOptions = {}) {
+    this.input = input;
+    this.source = options.source ?? getNavigatorGamepads;
+    if (options.storage !== undefined) {
+      this.storage = options.storage;
+    } else {
+      this.storage = typeof localStorage !== 'undefined' ? localStorage : null;
+    }
+    this.onConnectionChange = options.onConnectionChange;
+    this.deadZone = this.loadDeadZone();
+  }
+  
+  // 获取摇杆死区
+  getDeadZone(): number {
+    return this.deadZone;
+  }
+  
+  // 设置摇杆死区并保存
+  setDeadZone(deadZone: number): void {
+    this.deadZone = Math.min(MAX_DEAD_ZONE, Math.max(MIN_DEAD_ZONE, Math.round(deadZone * 100) / 100));
+    try {
+      this.storage?.setItem(GAMEPAD_STORAGE_KEY, JSON.stringify({ deadZone: this.deadZone }));
+    } catch (error) {
+      console.error('Failed to save gamepad settings:', error);
+    }
+  }
+  
+  // 是否有手柄连接
+  isConnected(): boolean {
+    return this.connected.size > 0;
+  }
+  
+  // 获取右摇杆瞄准方向
+  getAim(): { x: number; y: number } {
+    return { ...this.aim };
+  }
+  
+  // 轮询手柄状态，返回本帧新按下的按键触发的动作
+  poll(): InputAction[] {
+    const gamepads = this.source().filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected);
+    this.detectConnectionChanges(gamepads);
+    
+    // 左摇杆移动，右摇杆瞄准
+    const move = this.readStick(gamepads, 0, 1);
+    this.input.setAnalogMove('gamepad', move.x, move.y);
+    this.aim = this.readStick(gamepads, 2, 3);
+    
+    // 按键：任意手柄按下即视为按下，只在状态变化时通知InputManager
+    const actions: InputAction[] = [];
+    const buttonCount = Math.max(this.buttonStates.length, ...gamepads.map(gamepad => gamepad.buttons.length));
+    for (let button = 0; button < buttonCount; button++) {
+      const isPressed = gamepads.some(gamepad => {
+        const state = gamepad.buttons[button];
+        return !!state && (state.pressed || state.value > BUTTON_PRESS_THRESHOLD);
+      });
+      
+      if (isPressed !== (this.buttonStates[button] ?? false)) {
+        this.buttonStates[button] = isPressed;
+        actions.push(...this.input.handleGamepadButton(button, isPressed));
+      }
+    }
+    
+    return actions;
+  }
+  
+  // 检测手柄插拔（部分浏览器在按下按键前不派发gamepadconnected事件，所以以轮询结果为准）
+  private detectConnectionChanges(gamepads: Gamepad[]): void {
+    const current = new Map(gamepads.map(gamepad => [gamepad.index, gamepad.id] as [number, string]));
+    
+    this.connected.forEach((id, index) => {
+      if (current.get(index) !== id) {
+        this.connected.delete(index);
+        this.onConnectionChange?.(id, false);
+      }
+    });
+    current.forEach((id, index) => {
+      if (!this.connected.has(index)) {
+        this.connected.set(index, id);
+        this.onConnectionChange?.(id, true);
+      }
+    });
+    
+    // 所有手柄断开时释放按键和摇杆，避免角色持续移动或攻击
+    if (gamepads.length === 0 && this.buttonStates.length > 0) {
+      this.buttonStates = [];
+      this.input.releaseDevice('gamepad');
+      this.input.setAnalogMove('gamepad', 0, 0);
+      this.aim = { x: 0, y: 0 };
+    }
+  }
+  
+  // 读取摇杆（多个手柄时取偏移最大的一个），应用死区
+  private readStick(gamepads: Gamepad[], axisX: number, axisY: number): { x: number; y: number } {
+    let stickX = 0;
+    let stickY = 0;
+    for (const gamepad of gamepads) {
+      const x = gamepad.axes[axisX] ?? 0;
+      const y = gamepad.axes[axisY] ?? 0;
+      if (x * x + y * y > stickX * stickX + stickY * stickY) {
+        stickX = x;
+        stickY = y;
+      }
+    }
+    return toAnalogVector(stickX, stickY, 1, this.deadZone);
+  }
+  
+  private loadDeadZone(): number {
+    try {
+      const text = this.storage?.getItem(GAMEPAD_STORAGE_KEY);
+      const deadZone = text ? JSON.parse(text).deadZone : undefined;
+      if (typeof deadZone === 'number' && deadZone >= MIN_DEAD_ZONE && deadZone <= MAX_DEAD_ZONE) {
+        return deadZone;
+      }
+    } catch (error) {
+      console.error('Failed to load gamepad settings:', error);
+    }
+    return DEFAULT_DEAD_ZONE;
+  }
+}
@@ -0,0 +1,424 @@
+import type { SaveStorage } from './SaveSystem';
+
+// 逻辑输入动作
+export const INPUT_ACTIONS = [
+  'moveUp',
+  'moveDown',
+  'moveLeft',
+  'moveRight',
+  'attack',
+  'pickup',
+  'inventory',
+  'character',
+  'pause',
+  'confirm',
+  'skill1',
+  'skill2',
+  'skill3'
+] as const;
+
+export type InputAction = typeof INPUT_ACTIONS[number];
+
+// 动作显示名称
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: '向上移动',
+  moveDown: '向下移动',
+  moveLeft: '向左移动',
+  moveRight: '向右移动',
+  attack: '攻击',
+  pickup: '拾取',
+  inventory: '物品栏',
+  character: '角色属性',
+  pause: '暂停',
+  confirm: '确认',
+  skill1: '技能选项1',
+  skill2: '技能选项2',
+  skill3: '技能选项3'
+};
+
+// 触摸区域
+export const TOUCH_ZONES = ['attackButton', 'inventoryButton', 'characterButton'] as const;
+
+export type TouchZone = typeof TOUCH_ZONES[number];
+
+// 触摸区域显示名称
+const TOUCH_ZONE_LABELS: Record<TouchZone, string> = {
+  attackButton: '触摸攻击键',
+  inventoryButton: '触摸物品栏键',
+  characterButton: '触摸角色键'
+};
+
+// 物理输入绑定：键盘按键（KeyboardEvent.code）、鼠标按键、触摸区域或手柄按键（标准布局索引）
+export type InputBinding =
+  | { device: 'keyboard'; code: string }
+  | { device: 'mouse'; button: number }
+  | { device: 'touch'; zone: TouchZone }
+  | { device: 'gamepad'; button: number };
+
+// 动作到绑定的映射（每个动作可以有多个绑定）
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+// 每个动作在设置界面中可编辑的绑定数量
+export const MAX_BINDINGS_PER_ACTION = 4;
+
+// localStorage中的按键绑定键
+const BINDINGS_STORAGE_KEY = 'kill-monsters:bindings';
+
+const key = (code: string): InputBinding => ({ device: 'keyboard', code });
+const pad = (button: number): InputBinding => ({ device: 'gamepad', button });
+
+// 手柄标准布局按键索引
+export const GAMEPAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  BACK: 8,
+  START: 9,
+  L3: 10,
+  R3: 11,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15
+} as const;
+
+// 默认按键绑定
+export const DEFAULT_BINDINGS: InputBindings = {
+  moveUp: [key('KeyW'), key('ArrowUp'), pad(GAMEPAD_BUTTONS.DPAD_UP)],
+  moveDown: [key('KeyS'), key('ArrowDown'), pad(GAMEPAD_BUTTONS.DPAD_DOWN)],
+  moveLeft: [key('KeyA'), key('ArrowLeft'), pad(GAMEPAD_BUTTONS.DPAD_LEFT)],
+  moveRight: [key('KeyD'), key('ArrowRight'), pad(GAMEPAD_BUTTONS.DPAD_RIGHT)],
+  attack: [key('Space'), { device: 'mouse', button: 0 }, pad(GAMEPAD_BUTTONS.A), { device: 'touch', zone: 'attackButton' }],
+  pickup: [key('KeyE'), pad(GAMEPAD_BUTTONS.X)],
+  inventory: [key('KeyI'), pad(GAMEPAD_BUTTONS.BACK), { device: 'touch', zone: 'inventoryButton' }],
+  character: [key('KeyC'), pad(GAMEPAD_BUTTONS.Y), { device: 'touch', zone: 'characterButton' }],
+  pause: [key('Escape'), key('KeyP'), pad(GAMEPAD_BUTTONS.START)],
+  confirm: [key('Enter'), pad(GAMEPAD_BUTTONS.A)],
+  skill1: [key('Digit1')],
+  skill2: [key('Digit2')],
+  skill3: [key('Digit3')]
+};
+
+// 复制绑定表
+function cloneBindings(bindings: InputBindings): InputBindings {
+  const copy = {} as InputBindings;
+  for (const action of INPUT_ACTIONS) {
+    copy[action] = bindings[action].map(binding => ({ ...binding }));
+  }
+  return copy;
+}
+
+// 绑定的唯一标识（用于记录按下状态）
+function bindingId(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'keyboard':
+      return `keyboard:${binding.code}`;
+    case 'mouse':
+      return `mouse:${binding.button}`;
+    case 'touch':
+      return `touch:${binding.zone}`;
+    case 'gamepad':
+      return `gamepad:${binding.button}`;
+  }
+}
+
+// 校验从存储中读出的绑定
+function isValidBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null || !('device' in value)) return false;
+  switch (value.device) {
+    case 'keyboard':
+      return 'code' in value && typeof value.code === 'string';
+    case 'mouse':
+      return 'button' in value && typeof value.button === 'number';
+    case 'touch':
+      return 'zone' in value && TOUCH_ZONES.some(zone => zone === value.zone);
+    case 'gamepad':
+      return 'button' in value && typeof value.button === 'number';
+    default:
+      return false;
+  }
+}
+
+// 按键名称
+const KEY_LABELS: { [code: string]: string } = {
+  Space: '空格',
+  Enter: '回车',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: '左Shift',
+  ShiftRight: '右Shift',
+  ControlLeft: '左Ctrl',
+  ControlRight: '右Ctrl',
+  Tab: 'Tab'
+};
+
+// 手柄按键名称（按标准布局索引）
+const GAMEPAD_BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', '十字键↑', '十字键↓', '十字键←', '十字键→'
+];
+
+// 把二维偏移转换为长度不超过1的移动向量（虚拟摇杆和手柄摇杆共用）
+// radius为偏移达到满速的距离，偏移小于deadZone（相对radius的比例）时视为没有输入
+export function toAnalogVector(dx: number, dy: number, radius: number, deadZone: number = 0): { x: number; y: number } {
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  const magnitude = Math.min(distance / radius, 1);
+  if (distance === 0 || magnitude <= deadZone) {
+    return { x: 0, y: 0 };
+  }
+  
+  // 死区外的输入重新映射到0~1，避免刚离开死区时速度突变
+  const scaled = (magnitude - deadZone) / (1 - deadZone);
+  return {
+    x: (dx / distance) * scaled,
+    y: (dy / distance) * scaled
+  };
+}
+
+// 绑定的显示名称
+export function describeBinding(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'keyboard': {
+      const label = KEY_LABELS[binding.code];
+      if (label) return label;
+      return binding.code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, '小键盘');
+    }
+    case 'mouse':
+      return ['鼠标左键', '鼠标中键', '鼠标右键'][binding.button] ?? `鼠标键${binding.button}`;
+    case 'touch':
+      return TOUCH_ZONE_LABELS[binding.zone];
+    case 'gamepad':
+      return `手柄${GAMEPAD_BUTTON_LABELS[binding.button] ?? binding.button}`;
+  }
+}
+
+// 输入管理器：把物理按键、鼠标按键和触摸区域映射为逻辑动作
+export class InputManager {
+  private bindings: InputBindings;
+  private storage: SaveStorage | null;
+  // 当前按下的物理输入
+  private pressed: Set<string> = new Set();
+  // 各来源的模拟移动量（虚拟摇杆等）
+  private analogMoves: Map<string, { x: number; y: number }> = new Map();
+  // 等待捕获新绑定的回调（设置界面使用）
+  private captureCallback: ((binding: InputBinding | null) => void) | null = null;
+  
+  constructor(storage?: SaveStorage | null) {
+    if (storage !== undefined) {
+      this.storage = storage;
+    } else {
+      this.storage = typeof localStorage !== 'undefined' ? localStorage : null;
+    }
+    this.bindings = this.loadBindings();
+  }
+  
+  // 处理按键按下，返回触发的动作
+  handleKeyDown(event: KeyboardEvent): InputAction[] {
+    const binding: InputBinding = { device: 'keyboard', code: event.code };
+    if (this.captureCallback) {
+      // Esc取消捕获
+      this.finishCapture(event.code === 'Escape' ? null : binding);
+      return [];
+    }
+    
+    // 按住按键时的自动重复不重复触发动作
+    if (event.repeat) return [];
+    return this.press(binding);
+  }
+  
+  handleKeyUp(event: KeyboardEvent): void {
+    this.release({ device: 'keyboard', code: event.code });
+  }
+  
+  // 处理鼠标按键按下，返回触发的动作
+  handleMouseDown(button: number): InputAction[] {
+    const binding: InputBinding = { device: 'mouse', button };
+    if (this.captureCallback) {
+      this.finishCapture(binding);
+      return [];
+    }
+    return this.press(binding);
+  }
+  
+  handleMouseUp(button: number): void {
+    this.release({ device: 'mouse', button });
+  }
+  
+  // 设置手柄按键的按下状态，按下时返回触发的动作
+  handleGamepadButton(button: number, isPressed: boolean): InputAction[] {
+    const binding: InputBinding = { device: 'gamepad', button };
+    if (!isPressed) {
+      this.release(binding);
+      return [];
+    }
+    if (this.captureCallback) {
+      this.finishCapture(binding);
+      return [];
+    }
+    return this.press(binding);
+  }
+  
+  // 设置触摸区域的按下状态，按下时返回触发的动作
+  setTouchZone(zone: TouchZone, isPressed: boolean): InputAction[] {
+    const binding: InputBinding = { device: 'touch', zone };
+    if (isPressed) {
+      return this.press(binding);
+    }
+    this.release(binding);
+    return [];
+  }
+  
+  // 设置某个来源的模拟移动量（分量范围-1到1）
+  setAnalogMove(source: string, x: number, y: number): void {
+    if (x === 0 && y === 0) {
+      this.analogMoves.delete(source);
+    } else {
+      this.analogMoves.set(source, { x, y });
+    }
+  }
+  
+  // 释放某个设备的所有按下状态（如手柄断开时）
+  releaseDevice(device: InputBinding['device']): void {
+    for (const id of [...this.pressed]) {
+      if (id.startsWith(`${device}:`)) {
+        this.pressed.delete(id);
+      }
+    }
+  }
+  
+  // 清空所有按下状态（窗口失焦时收不到抬起事件）
+  clear(): void {
+    this.pressed.clear();
+    this.analogMoves.clear();
+  }
+  
+  // 动作当前是否处于按下状态
+  isActionActive(action: InputAction): boolean {
+    return this.bindings[action].some(binding => this.pressed.has(bindingId(binding)));
+  }
+  
+  // 获取移动方向，长度不超过1（斜向移动速度与直线相同）
+  getMoveVector(): { x: number; y: number } {
+    let x = 0;
+    let y = 0;
+    
+    if (this.isActionActive('moveUp')) y -= 1;
+    if (this.isActionActive('moveDown')) y += 1;
+    if (this.isActionActive('moveLeft')) x -= 1;
+    if (this.isActionActive('moveRight')) x += 1;
+    
+    this.analogMoves.forEach(move => {
+      x += move.x;
+      y += move.y;
+    });
+    
+    const length = Math.sqrt(x * x + y * y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+    return { x, y };
+  }
+  
+  // 获取动作的所有绑定
+  getBindings(action: InputAction): readonly InputBinding[] {
+    return this.bindings[action];
+  }
+  
+  // 动作绑定的显示文字，如"W / ↑"
+  describeAction(action: InputAction): string {
+    const labels = this.bindings[action].map(describeBinding);
+    return labels.length > 0 ? labels.join(' / ') : '未绑定';
+  }
+  
+  // 设置动作指定位置的绑定（同一物理输入会从其他动作中移除）
+  setBinding(action: InputAction, index: number, binding: InputBinding): void {
+    const id = bindingId(binding);
+    for (const other of INPUT_ACTIONS) {
+      this.bindings[other] = this.bindings[other].filter(existing => bindingId(existing) !== id);
+    }
+    
+    const bindings = this.bindings[action];
+    if (index < bindings.length) {
+      bindings[index] = binding;
+    } else {
+      bindings.push(binding);
+    }
+    this.saveBindings();
+  }
+  
+  // 移除动作指定位置的绑定
+  removeBinding(action: InputAction, index: number): void {
+    this.bindings[action].splice(index, 1);
+    this.saveBindings();
+  }
+  
+  // 恢复默认绑定
+  resetBindings(): void {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.saveBindings();
+  }
+  
+  // 捕获下一个按键或鼠标按键作为新绑定（按Esc取消时回调null）
+  captureNextBinding(callback: (binding: InputBinding | null) => void): void {
+    this.captureCallback = callback;
+  }
+  
+  // 是否正在捕获新绑定
+  isCapturing(): boolean {
+    return this.captureCallback !== null;
+  }
+  
+  private finishCapture(binding: InputBinding | null): void {
+    const callback = this.captureCallback;
+    this.captureCallback = null;
+    callback?.(binding);
+  }
+  
+  // 记录按下并返回该输入绑定的动作
+  private press(binding: InputBinding): InputAction[] {
+    const id = bindingId(binding);
+    this.pressed.add(id);
+    return INPUT_ACTIONS.filter(action =>
+      this.bindings[action].some(existing => bindingId(existing) === id)
+    );
+  }
+  
+  private release(binding: InputBinding): void {
+    this.pressed.delete(bindingId(binding));
+  }
+  
+  // 从本地存储读取绑定，缺失或损坏的动作使用默认绑定
+  private loadBindings(): InputBindings {
+    const bindings = cloneBindings(DEFAULT_BINDINGS);
+    const text = this.storage?.getItem(BINDINGS_STORAGE_KEY);
+    if (!text) return bindings;
+    
+    try {
+      const stored = JSON.parse(text);
+      for (const action of INPUT_ACTIONS) {
+        if (Array.isArray(stored[action])) {
+          bindings[action] = stored[action].filter(isValidBinding);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load key bindings:', error);
+    }
+    return bindings;
+  }
+  
+  private saveBindings(): void {
+    try {
+      this.storage?.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (error) {
+      console.error('Failed to save key bindings:', error);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import type { Equipment, EquipmentRarity, LootDrop, LootSaveData, Player, Position } from '../types';
+import type { GameEventBus } from './EventBus';
+import { SpatialHash, type SpatialRect } from './SpatialHash';
+import { toEquipmentSaveData, restoreEquipment } from './EquipmentSystem';
+import { distance } from '../utils/gameUtils';
+import type { RandomStream } from '../utils/random';
+
+// 装备和经验球在地面上的存在时间（秒）
+export const ITEM_DROP_LIFETIME = 60;
+export const EXPERIENCE_DROP_LIFETIME = 30;
+
+// 掉落物被吸引后飞向玩家的速度（像素/秒）
+export const LOOT_ATTRACT_SPEED = 600;
+
+// 掉落物离玩家中心小于该距离时被拾取（像素）
+export const LOOT_COLLECT_DISTANCE = 20;
+
+// 多件掉落物在死亡位置周围散开的最大距离（像素）
+export const LOOT_SCATTER_RADIUS = 30;
+
+// 各稀有度默认开启自动拾取
+export const DEFAULT_AUTO_PICKUP: Record<EquipmentRarity, boolean> = {
+  common: true,
+  uncommon: true,
+  rare: true,
+  epic: true,
+  legendary: true
+};
+
+// 地面掉落物系统：怪物掉落的装备和经验球留在地面上，
+// 进入玩家拾取范围后飞向玩家并被拾取，超时未拾取时消失
+export class LootSystem {
+  private drops: LootDrop[] = [];
+  // 掉落物的空间索引（按中心点分桶）
+  private index: SpatialHash<LootDrop> = new SpatialHash();
+  // 各稀有度是否自动拾取（关闭的稀有度只在按住拾取键时拾取，经验球总是自动拾取）
+  private autoPickup: Record<EquipmentRarity, boolean> = { ...DEFAULT_AUTO_PICKUP };
+  
+  // 获取地面上的掉落物
+  getDrops(): readonly LootDrop[] {
+    return this.drops;
+  }
+  
+  // 获取区域内的掉落物（用于渲染裁剪）
+  getDropsInArea(area: SpatialRect): LootDrop[] {
+    return this.index.queryAABB(area);
+  }
+  
+  // 稀有度是否自动拾取
+  isAutoPickup(rarity: EquipmentRarity): boolean {
+    return this.autoPickup[rarity];
+  }
+  
+  // 设置稀有度是否自动拾取
+  setAutoPickup(rarity: EquipmentRarity, enabled: boolean): void {
+    this.autoPickup[rarity] = enabled;
+  }
+  
+  // 在位置周围掉落装备
+  dropItems(position: Position, items: Equipment[], rng: RandomStream): void {
+    for (const item of items) {
+      const scattered = this.scatter(position, items.length, rng);
+      this.add({
+        kind: 'item', x: scattered.x, y: scattered.y, item, experience: 0,
+        lifetime: ITEM_DROP_LIFETIME, attracted: false, manualPickup: false
+      });
+    }
+  }
+  
+  // 在位置放下玩家丢弃的装备（只在按住拾取键时拾取）
+  dropPlayerItem(position: Position, item: Equipment): void {
+    this.add({
+      kind: 'item', x: position.x, y: position.y, item, experience: 0,
+      lifetime: ITEM_DROP_LIFETIME, attracted: false, manualPickup: true
+    });
+  }
+  
+  // 在位置掉落经验球
+  dropExperience(position: Position, experience: number): void {
+    if (experience <= 0) return;
+    this.add({
+      kind: 'experience', x: position.x, y: position.y, item: null, experience,
+      lifetime: EXPERIENCE_DROP_LIFETIME, attracted: false, manualPickup: false
+    });
+  }
+  
+  // 推进掉落物：拾取范围内的掉落物被吸向玩家，到达玩家时拾取，超时的掉落物消失（deltaTime单位：秒）
+  update(deltaTime: number, player: Player, pickupHeld: boolean, events: GameEventBus): void {
+    const center = { x: player.x + player.width / 2, y: player.y + player.height / 2 };
+    
+    for (const drop of this.index.queryRange(center, player.getPickupRadius())) {
+      if (!drop.attracted && this.canPickUp(drop, pickupHeld)) {
+        drop.attracted = true;
+      }
+    }
+    
+    const collected: LootDrop[] = [];
+    this.drops = this.drops.filter(drop => {
+      if (drop.attracted) {
+        const dist = distance(drop, center);
+        const step = LOOT_ATTRACT_SPEED * deltaTime;
+        if (dist <= LOOT_COLLECT_DISTANCE + step) {
+          collected.push(drop);
+          this.index.remove(drop);
+          return false;
+        }
+        drop.x += (center.x - drop.x) / dist * step;
+        drop.y += (center.y - drop.y) / dist * step;
+        this.index.update(drop);
+        return true;
+      }
+      
+      drop.lifetime -= deltaTime;
+      if (drop.lifetime <= 0) {
+        this.index.remove(drop);
+        return false;
+      }
+      return true;
+    });
+    
+    // 在遍历结束后拾取，升级等回调不会影响本帧的掉落物列表
+    for (const drop of collected) {
+      if (drop.item) {
+        player.addEquipment(drop.item);
+        events.emit('itemPickedUp', { player, item: drop.item });
+      } else {
+        player.gainExperience(drop.experience);
+      }
+    }
+  }
+  
+  // 清空所有掉落物
+  clear(): void {
+    this.drops = [];
+    this.index.clear();
+  }
+  
+  // 导出存档数据
+  toSaveData(): LootSaveData {
+    return {
+      drops: this.drops.map(drop => ({
+        ...drop,
+        item: drop.item ? toEquipmentSaveData(drop.item) : null
+      })),
+      autoPickup: { ...this.autoPickup }
+    };
+  }
+  
+  // 从存档数据还原
+  loadSaveData(data: LootSaveData): void {
+    this.clear();
+    for (const saved of data.drops) {
+      this.add({ ...saved, item: saved.item ? restoreEquipment(saved.item) : null });
+    }
+    this.autoPickup = { ...DEFAULT_AUTO_PICKUP, ...data.autoPickup };
+  }
+  
+  private add(drop: LootDrop): void {
+    this.drops.push(drop);
+    this.index.insert(drop);
+  }
+  
+  // 经验球总是自动拾取，装备按稀有度设置或按住拾取键时拾取，玩家丢弃的装备只在按住拾取键时拾取
+  private canPickUp(drop: LootDrop, pickupHeld: boolean): boolean {
+    if (!drop.item) return true;
+    if (drop.manualPickup) return pickupHeld;
+    return pickupHeld || this.autoPickup[drop.item.rarity];
+  }
+  
+  // 只有一件掉落物时放在原位，多件时随机散开
+  private scatter(position: Position, count: number, rng: RandomStream): Position {
+    if (count <= 1) return { x: position.x, y: position.y };
+    
+    const angle = rng.range(0, Math.PI * 2);
+    const radius = rng.range(0, LOOT_SCATTER_RADIUS);
+    return { x: position.x + Math.cos(angle) * radius, y: position.y + Math.sin(angle) * radius };
+  }
+}
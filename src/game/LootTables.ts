@@ -0,0 +1,166 @@
+import type { Equipment, EquipmentRarity, LootTablesSaveData } from '../types';
+import { RARITY_TYPES } from '../types';
+import type { MonsterRank } from './Monster';
+import { equipmentManager } from './EquipmentSystem';
+import { GameRandom, RANDOM_STREAMS, type RandomStream } from '../utils/random';
+
+// 稀有度从低到高的顺序
+export const RARITY_ORDER = Object.values(RARITY_TYPES) as EquipmentRarity[];
+
+// 各级别怪物的稀有度偏移：权重按 (1 + 偏移 × 稀有度序号) 放大，越稀有放大越多
+export const RANK_RARITY_SHIFT: Record<MonsterRank, number> = {
+  normal: 0,
+  elite: 0.5,
+  boss: 1
+};
+
+// 怪物每高一级增加的稀有度偏移
+export const LEVEL_RARITY_SHIFT = 0.05;
+
+// 保底：同一张掉落表连续未掉落时每次判定的掉落几率增加量
+export const BAD_LUCK_STEP = 0.02;
+
+// 保底：连续未掉落的次数达到该值时下一次判定必定掉落
+export const BAD_LUCK_LIMIT = 25;
+
+// 掉落表：每次判定的掉落几率、判定次数、各稀有度的权重和必定掉落的装备
+export interface LootTableDefinition {
+  // 掉落表标识（保底计数按掉落表分别记录）
+  id: string;
+  dropChance: number;
+  rolls: number;
+  rarityWeights: Partial<Record<EquipmentRarity, number>>;
+  // 必定掉落（不消耗保底计数）：件数和最低稀有度
+  guaranteed?: { count: number; minRarity: EquipmentRarity };
+}
+
+// 掉落来源：掉落表和决定稀有度偏移的怪物级别、等级
+export interface LootSource {
+  table: LootTableDefinition;
+  rank: MonsterRank;
+  level: number;
+}
+
+// 掉落模拟结果
+export interface LootDistribution {
+  kills: number;
+  items: number;
+  // 没有任何掉落的击杀次数
+  emptyKills: number;
+  byRarity: Record<EquipmentRarity, number>;
+  // 最长的连续未掉落次数
+  longestDryStreak: number;
+}
+
+// 按怪物级别和等级调整后的稀有度权重
+export function getRarityWeights(source: LootSource): Record<EquipmentRarity, number> {
+  const shift = RANK_RARITY_SHIFT[source.rank] + Math.max(0, source.level - 1) * LEVEL_RARITY_SHIFT;
+  const weights = {} as Record<EquipmentRarity, number>;
+  RARITY_ORDER.forEach((rarity, index) => {
+    weights[rarity] = (source.table.rarityWeights[rarity] ?? 0) * (1 + shift * index);
+  });
+  return weights;
+}
+
+// 按调整后的权重随机稀有度（低于minRarity的稀有度不会被选中，都不可选时返回minRarity）
+export function rollRarity(source: LootSource, rng: RandomStream, minRarity: EquipmentRarity = 'common'): EquipmentRarity {
+  const weights = getRarityWeights(source);
+  const candidates = RARITY_ORDER.slice(RARITY_ORDER.indexOf(minRarity));
+  if (!candidates.some(rarity => weights[rarity] > 0)) {
+    return minRarity;
+  }
+  return rng.weighted(candidates, rarity => weights[rarity]);
+}
+
+// 掉落表系统：怪物和Boss的装备掉落都经过这里，按掉落表判定后由装备工厂生成装备
+export class LootTableSystem {
+  // 各掉落表连续未掉落的判定次数（保底计数），键为掉落表标识
+  private dryStreaks: Record<string, number> = {};
+  
+  getDryStreak(table: LootTableDefinition): number {
+    return this.dryStreaks[table.id] ?? 0;
+  }
+  
+  // 当前判定的掉落几率（计入该掉落表的保底）
+  getDropChance(table: LootTableDefinition): number {
+    const dryStreak = this.getDryStreak(table);
+    if (dryStreak >= BAD_LUCK_LIMIT) return 1;
+    return Math.min(1, table.dropChance + dryStreak * BAD_LUCK_STEP);
+  }
+  
+  // 按掉落表生成一次击杀的掉落
+  roll(source: LootSource, rng: RandomStream): Equipment[] {
+    const items: Equipment[] = [];
+    const guaranteed = source.table.guaranteed;
+    
+    if (guaranteed) {
+      for (let i = 0; i < guaranteed.count; i++) {
+        items.push(this.createItem(source, rollRarity(source, rng, guaranteed.minRarity), rng));
+      }
+    }
+    
+    for (let i = 0; i < source.table.rolls; i++) {
+      if (rng.chance(this.getDropChance(source.table))) {
+        delete this.dryStreaks[source.table.id];
+        items.push(this.createItem(source, rollRarity(source, rng), rng));
+      } else {
+        this.dryStreaks[source.table.id] = this.getDryStreak(source.table) + 1;
+      }
+    }
+    
+    return items;
+  }
+  
+  // 导出存档数据
+  toSaveData(): LootTablesSaveData {
+    return { dryStreaks: { ...this.dryStreaks } };
+  }
+  
+  // 从存档数据还原
+  loadSaveData(data: LootTablesSaveData): void {
+    this.dryStreaks = { ...data.dryStreaks };
+  }
+  
+  private createItem(source: LootSource, rarity: EquipmentRarity, rng: RandomStream): Equipment {
+    return equipmentManager.createEquipment(source.level, rarity, rng);
+  }
+}
+
+// 模拟多次击杀同一种怪物，统计掉落分布（用于调整掉落表）
+export function simulateLootDrops(source: LootSource, kills: number = 10000, seed: number = 1): LootDistribution {
+  const tables = new LootTableSystem();
+  const rng = new GameRandom(seed).stream(RANDOM_STREAMS.LOOT);
+  const distribution: LootDistribution = {
+    kills,
+    items: 0,
+    emptyKills: 0,
+    byRarity: { common: 0, uncommon: 0, rare: 0, epic: 0, legendary: 0 },
+    longestDryStreak: 0
+  };
+  
+  for (let i = 0; i < kills; i++) {
+    const items = tables.roll(source, rng);
+    distribution.items += items.length;
+    if (items.length === 0) distribution.emptyKills++;
+    for (const item of items) {
+      distribution.byRarity[item.rarity]++;
+    }
+    distribution.longestDryStreak = Math.max(distribution.longestDryStreak, tables.getDryStreak(source.table));
+  }
+  
+  return distribution;
+}
+
+// 把掉落分布格式化为可读的文本行
+export function formatLootDistribution(label: string, distribution: LootDistribution): string[] {
+  const percent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(1)}%` : '-';
+  const lines = [
+    `${label}: ${distribution.items} items from ${distribution.kills} kills ` +
+    `(${(distribution.items / distribution.kills).toFixed(3)}/kill, ${percent(distribution.emptyKills, distribution.kills)} empty, ` +
+    `longest dry streak ${distribution.longestDryStreak})`
+  ];
+  for (const rarity of RARITY_ORDER) {
+    lines.push(`  ${rarity.padEnd(10)} ${String(distribution.byRarity[rarity]).padStart(6)}  ${percent(distribution.byRarity[rarity], distribution.items)}`);
+  }
+  return lines;
+}
@@ -1,6 +1,7 @@
 import type { Position, Obstacle } from '../types';
 import { OBSTACLE_TYPES } from '../types';
-import { generateId, random } from '../utils/gameUtils';
+import { generateId } from '../utils/gameUtils';
+import { RandomStream } from '../utils/random';
 import { SpriteLoader } from './SpriteLoader';
 
 // 地图区块大小
@@ -25,14 +26,9 @@ export class Chunk {
   generate(seed: number) {
     if (this.generated) return;
     
-    // 设置随机数种子，确保相同区块生成相同的障碍物
-    const chunkSeed = seed + this.x * 10000 + this.y * 100;
-    // 使用简单的随机数生成方法代替seedrandom
-    const simpleRandom = (seed: number) => {
-      const x = Math.sin(seed) * 10000;
-      return x - Math.floor(x);
-    };
-    const rng = () => simpleRandom(chunkSeed + Math.random() * 1000);
+    // 设置随机数种子，确保相同区块生成相同的障碍物（与访问顺序无关）
+    const chunkRandom = new RandomStream(`${seed}:chunk:${this.x},${this.y}`);
+    const rng = () => chunkRandom.next();
     
     // 计算区块的世界坐标
     const worldX = this.x * CHUNK_SIZE;
@@ -194,13 +190,22 @@ export class Chunk {
 // 无限地图生成器类
 export class MapGenerator {
   private chunks: Map<string, Chunk>;
+  // 已加载区块每次变化时递增（用于判断障碍物索引是否需要重建）
+  private revision: number = 0;
   private seed: number;
   private activeChunkRadius: number;
+  private spawnRandom: RandomStream;
 
   constructor(seed: number = Date.now(), activeChunkRadius: number = 2) {
     this.chunks = new Map();
     this.seed = seed;
     this.activeChunkRadius = activeChunkRadius;
+    this.spawnRandom = new RandomStream(`${seed}:spawn-points`);
+  }
+
+  // 获取地图种子
+  getSeed(): number {
+    return this.seed;
   }
 
   // 获取区块坐标
@@ -223,6 +228,7 @@ export class MapGenerator {
       const chunk = new Chunk(x, y);
       chunk.generate(this.seed);
       this.chunks.set(key, chunk);
+      this.revision++;
     }
     return this.chunks.get(key)!;
   }
@@ -258,6 +264,28 @@ export class MapGenerator {
     });
     
     keysToRemove.forEach(key => this.chunks.delete(key));
+    if (keysToRemove.length > 0) {
+      this.revision++;
+    }
+  }
+
+  // 获取已加载区块的版本号
+  getRevision(): number {
+    return this.revision;
+  }
+
+  // 获取已加载区块的坐标列表（用于存档）
+  getLoadedChunkCoordinates(): Array<[number, number]> {
+    return Array.from(this.chunks.values(), chunk => [chunk.x, chunk.y] as [number, number]);
+  }
+
+  // 按坐标列表重新加载区块（用于读档，区块内容由种子决定）
+  loadChunks(coordinates: Array<[number, number]>): void {
+    this.chunks.clear();
+    this.revision++;
+    for (const [x, y] of coordinates) {
+      this.getOrCreateChunk(x, y);
+    }
   }
 
   // 获取指定区域内的所有障碍物
@@ -284,6 +312,28 @@ export class MapGenerator {
     return obstacles;
   }
 
+  // 区域是否已加载且没有实心障碍物（不会生成新的区块，区域跨越未加载的区块时视为不可用）
+  isAreaClear(area: { x: number; y: number; width: number; height: number }): boolean {
+    const startChunk = this.getChunkCoordinates(area.x, area.y);
+    const endChunk = this.getChunkCoordinates(area.x + area.width, area.y + area.height);
+    
+    for (let x = startChunk.x; x <= endChunk.x; x++) {
+      for (let y = startChunk.y; y <= endChunk.y; y++) {
+        const chunk = this.chunks.get(this.getChunkKey(x, y));
+        if (!chunk) return false;
+        
+        const blocked = chunk.getObstacles().some(obs =>
+          obs.isSolid &&
+          obs.x < area.x + area.width && obs.x + obs.width > area.x &&
+          obs.y < area.y + area.height && obs.y + obs.height > area.y
+        );
+        if (blocked) return false;
+      }
+    }
+    
+    return true;
+  }
+
   // 获取所有活跃区块中的障碍物
   getAllActiveObstacles(): Obstacle[] {
     const obstacles: Obstacle[] = [];
@@ -326,8 +376,8 @@ export class MapGenerator {
   // 获取随机出生点（确保附近没有障碍物）
   getRandomSpawnPoint(avoidX: number, avoidY: number, radius: number = 200): Position {
     // 生成远离指定点的随机位置
-    const angle = random(0, Math.PI * 2);
-    const distance = radius + random(100, 300);
+    const angle = this.spawnRandom.range(0, Math.PI * 2);
+    const distance = radius + this.spawnRandom.range(100, 300);
     const x = avoidX + Math.cos(angle) * distance;
     const y = avoidY + Math.sin(angle) * distance;
     
@@ -1,52 +1,132 @@
-import type { Monster as IMonster, Position, Collider, Player, Equipment } from '../types';
-import { generateId, random, randomInt, distance, getDirectionTowards, willCollide, hasLineOfSight } from '../utils/gameUtils';
+import type { Monster as IMonster, Position, Collider, Player, Equipment, MonsterSaveData, MonsterAIState, MonsterBehavior, DamageEvent, DamageResult, DamageType } from '../types';
+import type { ProjectileSpawnOptions } from './Projectiles';
+import type { LootTableSystem, LootTableDefinition } from './LootTables';
+import { generateId, distance, getDirectionTowards, willCollide } from '../utils/gameUtils';
+import { GameRandom, RANDOM_STREAMS, defaultRandom } from '../utils/random';
 import { SpriteLoader } from './SpriteLoader';
+import { EventBus, type GameEventBus } from './EventBus';
+import { StatusEffects } from './StatusEffects';
+import { BossController } from './Boss';
+import { BOSS_DEFINITIONS, BOSS_IDS } from './data/bosses';
+import { MONSTER_DEFINITIONS, DEFAULT_MONSTER_ID, SPAWN_TABLES } from './data/bestiary';
 
-// 怪物类型定义
-interface MonsterType {
+// 属性成长曲线：等级倍率 = (1 + (等级 - 1) × linear) × (1 + exponential) ^ (等级 - 1)
+export interface ScalingCurve {
+  linear: number;
+  exponential?: number;
+}
+
+// 怪物级别（决定生成表、暴击和Boss控制器）
+export type MonsterRank = 'normal' | 'elite' | 'boss';
+
+// 攻击方式（冷却、蓄力和引信时间单位为秒）
+export type MonsterAttackPattern =
+  // 近战：在攻击范围内直接造成伤害
+  | { kind: 'melee'; range: number; cooldown: number }
+  // 远程：在攻击范围内发射箭矢，玩家靠近到minRange以内时后退
+  | { kind: 'ranged'; range: number; minRange: number; cooldown: number; projectileSpeed: number; projectileRadius: number }
+  // 冲锋：进入范围后原地蓄力，然后沿直线冲刺，撞到玩家时造成一次伤害
+  | { kind: 'charge'; range: number; cooldown: number; windup: number; speed: number; duration: number; damageMultiplier: number }
+  // 自爆：进入范围后点燃引信，引信结束时对周围造成伤害并消失（不给予经验和掉落）
+  | { kind: 'explode'; range: number; fuse: number; radius: number; damageMultiplier: number };
+
+// 护盾：先于生命承受伤害，一段时间未受伤后按比例恢复
+export interface MonsterShieldDefinition {
+  // 护盾值占最大生命的比例
+  ratio: number;
+  // 受伤后开始恢复的延迟（秒）
+  regenDelay: number;
+  // 每秒恢复的护盾比例
+  regenRate: number;
+}
+
+// 分裂：死亡时在周围生成数个指定的怪物
+export interface MonsterSplitDefinition {
+  into: string;
+  count: number;
+  radius: number;
+}
+
+// 怪物定义（数据见data/bestiary.ts）
+export interface MonsterDefinition {
+  id: string;
   name: string;
-  baseHealth: number;
-  baseAttack: number;
-  baseDefense: number;
-  baseSpeed: number;
-  baseExperience: number;
+  rank: MonsterRank;
+  spriteKey: string;
   color: string;
   size: { min: number; max: number };
+  // 1级时的属性
+  stats: { health: number; attack: number; defense: number; speed: number; experience: number };
+  scaling: Record<'health' | 'attack' | 'defense' | 'experience', ScalingCurve>;
+  resistances?: Partial<Record<DamageType, number>>;
+  behavior: MonsterBehavior;
+  attack: MonsterAttackPattern;
+  shield?: MonsterShieldDefinition;
+  split?: MonsterSplitDefinition;
+  loot: LootTableDefinition;
 }
 
-// 预设怪物类型
-const MONSTER_TYPES: MonsterType[] = [
-  {
-    name: '小怪',
-    baseHealth: 50,
-    baseAttack: 5,
-    baseDefense: 2,
-    baseSpeed: 150,
-    baseExperience: 10,
-    color: '#FF6B6B',
-    size: { min: 30, max: 40 }
-  },
-  {
-    name: '精英怪',
-    baseHealth: 200,
-    baseAttack: 20,
-    baseDefense: 8,
-    baseSpeed: 120,
-    baseExperience: 50,
-    color: '#FFD700',
-    size: { min: 40, max: 60 }
-  },
-  {
-    name: 'Boss',
-    baseHealth: 1000,
-    baseAttack: 50,
-    baseDefense: 20,
-    baseSpeed: 80,
-    baseExperience: 200,
-    color: '#9C27B0',
-    size: { min: 80, max: 120 }
-  }
-];
+// 生成表条目（等级低于minLevel时不会被选中）
+export interface MonsterSpawnEntry {
+  monster: string;
+  weight: number;
+  minLevel?: number;
+}
+
+// 怪物攻击依赖的世界接口（由World提供）
+export interface MonsterHost {
+  spawnProjectile(options: ProjectileSpawnOptions): void;
+  spawnEffect(x: number, y: number, damage: number, color: string): void;
+  dealDamage(event: DamageEvent): DamageResult;
+  // 移除怪物（自爆），不给予经验和掉落
+  removeMonster(monster: Monster): void;
+}
+
+// 按成长曲线计算等级对应的属性
+export function scaleStat(base: number, curve: ScalingCurve, level: number): number {
+  const levels = level - 1;
+  return base * (1 + levels * curve.linear) * Math.pow(1 + (curve.exponential ?? 0), levels);
+}
+
+// 获取怪物定义（找不到时使用默认怪物）
+export function getMonsterDefinition(id: string): MonsterDefinition {
+  return MONSTER_DEFINITIONS[id] ?? MONSTER_DEFINITIONS[DEFAULT_MONSTER_ID]!;
+}
+
+// 近战怪物的攻击范围（像素）
+export const MONSTER_ATTACK_RANGE = 60;
+
+// 所有怪物中最大的攻击触发范围（像素），用于查询可能攻击玩家的怪物
+export const MAX_MONSTER_ATTACK_RANGE = Math.max(...Object.values(MONSTER_DEFINITIONS).map(definition => definition.attack.range));
+
+// 怪物的最大宽度（像素），空间查询按怪物宽度判断命中时用它扩大查询范围
+export const MAX_MONSTER_WIDTH = Math.max(...Object.values(MONSTER_DEFINITIONS).map(definition => definition.size.max));
+
+// 怪物的最大移动速度（像素/秒，包括冲锋），用于确定移动时需要检查的障碍物范围
+export const MAX_MONSTER_SPEED = Math.max(
+  ...Object.values(MONSTER_DEFINITIONS).map(definition =>
+    definition.attack.kind === 'charge' ? Math.max(definition.stats.speed, definition.attack.speed) : definition.stats.speed
+  ),
+  ...Object.values(BOSS_DEFINITIONS).map(definition => definition.abilities.charge?.speed ?? 0)
+);
+
+// 到达路径点的距离（像素）
+const WAYPOINT_REACHED_DISTANCE = 8;
+
+// 追击时失去视线超过该时间（秒）后放弃追击
+const LOSE_SIGHT_TIME = 2;
+
+// 赶路超过该时间（秒）仍没有发现玩家时放弃赶路，在原地游荡
+const SEEK_TIMEOUT = 20;
+
+// 追击时目标距离超过仇恨范围的该倍数后放弃追击
+const LOSE_TARGET_RANGE_MULTIPLIER = 1.5;
+
+// 逃跑到离目标超过仇恨范围的该倍数后停下
+const FLEE_SAFE_RANGE_MULTIPLIER = 1.5;
+
+// 游荡时的速度比例
+const WANDER_SPEED_MULTIPLIER = 0.5;
 
 // 怪物类
 export class Monster implements IMonster {
@@ -66,96 +146,263 @@ export class Monster implements IMonster {
   isElite: boolean;
   isBoss: boolean;
   target?: Player;
+  resistances?: Partial<Record<DamageType, number>>;
+  statusEffects: StatusEffects = new StatusEffects();
+  // Boss的技能和阶段控制（普通怪物为null）
+  boss: BossController | null;
+  // 当前护盾值和最大护盾值（没有护盾的怪物为0）
+  shield: number = 0;
+  maxShield: number = 0;
   
   // 怪物属性
-  private monsterType: MonsterType;
+  private definition: MonsterDefinition;
   private moveSpeed: number;
+  // 攻击触发范围（冲锋怪物为开始冲锋的距离）
   private attackRange: number;
+  // 攻击冷却（毫秒）
   private attackSpeed: number;
-  private lastAttackTime: number;
-  private aggroRange: number;
+  // 剩余攻击冷却（毫秒，按模拟时间递减）
+  private attackCooldown: number;
+  // AI状态、出生点（游荡和返回的中心）和追击时失去视线（赶路时尚未发现玩家）的时间（秒）
+  private aiState: MonsterAIState = 'idle';
+  private home: Position;
+  private lostSightTime: number = 0;
   private wanderDirection: { x: number; y: number };
   private wanderTimer: number;
   private wanderInterval: number;
+  // 寻路路径（格子中心点）和路径对应的目标格子
+  private path: Position[] = [];
+  private pathGoal: Position | null = null;
+  // 距离护盾开始恢复的时间（秒）
+  private shieldRegenDelay: number = 0;
+  // 冲锋的剩余蓄力时间、剩余冲刺时间、方向和本次冲锋是否已命中（秒）
+  private chargeWindup: number = 0;
+  private chargeRemaining: number = 0;
+  private chargeDirection: Position = { x: 0, y: 0 };
+  private chargeHit: boolean = false;
+  // 自爆引信的剩余时间（秒，未点燃时为null）
+  private fuseRemaining: number | null = null;
+  private random: GameRandom;
+  private events: GameEventBus;
   
-  constructor(x: number, y: number, level: number, isElite: boolean = false, isBoss: boolean = false) {
+  constructor(
+    x: number,
+    y: number,
+    level: number,
+    definitionId: string = DEFAULT_MONSTER_ID,
+    random: GameRandom = defaultRandom,
+    events: GameEventBus = new EventBus(),
+    bossId?: string
+  ) {
     this.id = generateId();
     this.x = x;
     this.y = y;
     this.isSolid = true;
     this.level = level;
-    this.isElite = isElite;
-    this.isBoss = isBoss;
-    
-    // 根据类型选择怪物模板
-    let templateIndex = 0;
-    if (isBoss) templateIndex = 2;
-    else if (isElite) templateIndex = 1;
-    
-    const selectedType = MONSTER_TYPES[templateIndex] || MONSTER_TYPES[0];
-      // 确保类型安全，MONSTER_TYPES至少有一个元素
-      if (!selectedType) {
-        // 这种情况理论上不应该发生，但为了类型安全还是加上
-        throw new Error('Monster type not found');
-      }
-      this.monsterType = selectedType;
-    
-    // 根据等级和类型计算属性
-    const levelMultiplier = 1 + (level - 1) * 0.2;
-    const eliteMultiplier = isElite ? 2 : 1;
-    const bossMultiplier = isBoss ? 5 : 1;
-    const typeMultiplier = eliteMultiplier * bossMultiplier;
+    this.definition = getMonsterDefinition(definitionId);
+    this.isElite = this.definition.rank === 'elite';
+    this.isBoss = this.definition.rank === 'boss';
+    this.boss = this.isBoss ? new BossController(bossId) : null;
+    this.random = random;
+    this.events = events;
+    this.resistances = this.definition.resistances;
+    const rng = random.stream(RANDOM_STREAMS.MONSTER);
     
     // 设置尺寸
-    const sizeVariation = random(this.monsterType.size.min, this.monsterType.size.max);
+    const sizeVariation = rng.range(this.definition.size.min, this.definition.size.max);
     this.width = sizeVariation;
     this.height = sizeVariation * 1.2;
     
-    // 设置属性
-    this.maxHealth = Math.floor(this.monsterType.baseHealth * levelMultiplier * typeMultiplier);
+    // 根据等级和成长曲线计算属性
+    const { stats, scaling } = this.definition;
+    this.maxHealth = Math.floor(scaleStat(stats.health, scaling.health, level));
     this.health = this.maxHealth;
-    this.attack = Math.floor(this.monsterType.baseAttack * levelMultiplier * typeMultiplier);
-    this.defense = Math.floor(this.monsterType.baseDefense * levelMultiplier * typeMultiplier);
-    this.experienceReward = Math.floor(this.monsterType.baseExperience * levelMultiplier * typeMultiplier);
+    this.attack = Math.floor(scaleStat(stats.attack, scaling.attack, level));
+    this.defense = Math.floor(scaleStat(stats.defense, scaling.defense, level));
+    this.experienceReward = Math.floor(scaleStat(stats.experience, scaling.experience, level));
+    if (this.definition.shield) {
+      this.maxShield = Math.floor(this.maxHealth * this.definition.shield.ratio);
+      this.shield = this.maxShield;
+    }
     
     // 设置行为参数
-    this.moveSpeed = this.monsterType.baseSpeed;
-    this.attackRange = 60;
-    this.attackSpeed = isBoss ? 2000 : (isElite ? 1500 : 1000);
-    this.lastAttackTime = 0;
-    this.aggroRange = isBoss ? 400 : (isElite ? 300 : 200);
-    this.wanderDirection = { x: random(-1, 1), y: random(-1, 1) };
+    this.moveSpeed = stats.speed;
+    this.attackRange = this.definition.attack.range;
+    this.attackSpeed = this.definition.attack.kind === 'explode' ? 0 : this.definition.attack.cooldown * 1000;
+    this.attackCooldown = 0;
+    this.home = { x, y };
+    this.wanderDirection = { x: rng.range(-1, 1), y: rng.range(-1, 1) };
     this.wanderTimer = 0;
-    this.wanderInterval = random(2000, 5000); // 2-5秒改变一次游荡方向
+    this.wanderInterval = rng.range(2000, 5000); // 2-5秒改变一次游荡方向
   }
   
-  // 更新怪物状态
+  // 推进攻击冷却和护盾恢复（deltaTime单位：秒）
   update(deltaTime: number): void {
-    // 更新游荡计时器
-    this.wanderTimer += deltaTime * 1000;
-    if (this.wanderTimer >= this.wanderInterval) {
-      this.wanderDirection = { x: random(-1, 1), y: random(-1, 1) };
-      this.wanderTimer = 0;
-      this.wanderInterval = random(2000, 5000);
+    if (this.attackCooldown > 0) {
+      this.attackCooldown = Math.max(0, this.attackCooldown - deltaTime * 1000);
     }
     
-    // 如果有目标，则追击
-    if (this.target) {
-      const targetDistance = distance(this, this.target);
-      
-      // 如果目标超出仇恨范围，则丢失目标
-      if (targetDistance > this.aggroRange) {
-        this.target = undefined;
-      } else if (targetDistance > this.attackRange) {
-        // 如果在攻击范围外，则移动接近目标
-        this.moveTowardsTarget(deltaTime);
-      } else {
-        // 如果在攻击范围内，则攻击目标
-        this.attackTarget(this.target);
+    const shield = this.definition.shield;
+    if (shield && this.shield < this.maxShield) {
+      this.shieldRegenDelay = Math.max(0, this.shieldRegenDelay - deltaTime);
+      if (this.shieldRegenDelay <= 0) {
+        this.shield = Math.min(this.maxShield, this.shield + this.maxShield * shield.regenRate * deltaTime);
       }
     }
   }
   
+  // 更新AI状态：
+  //   idle/wander：在出生点附近休息和游荡，仇恨范围内看到玩家时开始追击
+  //   seek：刚生成的怪物从仇恨范围外赶往玩家，进入仇恨范围且看到玩家时开始追击，超时后原地游荡
+  //   chase/attack：追击玩家，进入攻击范围后攻击；超出拴绳距离、目标跑远或长时间失去视线时返回
+  //   flee：生命过低时远离玩家，到达安全距离后在原地休息
+  //   return：回到出生点，途中不会被仇恨
+  // 返回本帧是否因自己发现玩家而开始追击（用于通知同伴）
+  think(deltaTime: number, player: Player, canSee: (from: Position, to: Position) => boolean): boolean {
+    const behavior = this.definition.behavior;
+    const playerDistance = distance(this, player);
+    const isLowHealth = this.health <= this.maxHealth * behavior.fleeHealthRatio;
+    
+    switch (this.aiState) {
+      case 'idle':
+      case 'wander':
+        if (playerDistance <= behavior.aggroRange && canSee(this, player)) {
+          this.alert(player);
+          return true;
+        }
+        this.updateWander(deltaTime);
+        return false;
+      
+      case 'seek':
+        if (playerDistance <= behavior.aggroRange && canSee(this, player)) {
+          this.alert(player);
+          return true;
+        }
+        this.lostSightTime += deltaTime;
+        if (this.lostSightTime > SEEK_TIMEOUT) {
+          this.stopSeek();
+        }
+        return false;
+      
+      case 'chase':
+      case 'attack':
+        if (isLowHealth) {
+          this.aiState = 'flee';
+          return false;
+        }
+        
+        this.lostSightTime = canSee(this, player) ? 0 : this.lostSightTime + deltaTime;
+        if (
+          distance(this, this.home) > behavior.leashRange ||
+          playerDistance > behavior.aggroRange * LOSE_TARGET_RANGE_MULTIPLIER ||
+          this.lostSightTime > LOSE_SIGHT_TIME
+        ) {
+          this.startReturn();
+          return false;
+        }
+        
+        // 冲锋怪物在冲锋范围内仍然追击，贴近后才停下
+        this.aiState = playerDistance <= this.getEngageRange() ? 'attack' : 'chase';
+        return false;
+      
+      case 'flee':
+        if (playerDistance >= behavior.aggroRange * FLEE_SAFE_RANGE_MULTIPLIER) {
+          // 在安全的位置休息，之后以这里为中心游荡
+          this.target = undefined;
+          this.home = { x: this.x, y: this.y };
+          this.aiState = 'idle';
+        }
+        return false;
+      
+      case 'return':
+        if (distance(this, this.home) <= WAYPOINT_REACHED_DISTANCE) {
+          this.aiState = 'idle';
+          this.wanderTimer = 0;
+        }
+        return false;
+    }
+  }
+  
+  // 被警觉（自己发现玩家或同伴通知）：休息、游荡和赶路中的怪物开始追击，生命过低时直接逃跑
+  // （赶路中的怪物以开始追击的位置作为出生点，拴绳距离从这里算起）
+  alert(player: Player): void {
+    if (this.aiState !== 'idle' && this.aiState !== 'wander' && this.aiState !== 'seek') return;
+    
+    const behavior = this.definition.behavior;
+    if (this.aiState === 'seek') {
+      this.home = { x: this.x, y: this.y };
+    }
+    this.target = player;
+    this.lostSightTime = 0;
+    this.aiState = this.health <= this.maxHealth * behavior.fleeHealthRatio ? 'flee' : 'chase';
+  }
+  
+  // 赶往玩家：刷怪点在仇恨范围外，生成后直接朝玩家移动
+  seek(player: Player): void {
+    this.target = player;
+    this.lostSightTime = 0;
+    this.aiState = 'seek';
+  }
+  
+  // 获取名称（Boss使用Boss定义中的名称）
+  getName(): string {
+    return this.boss?.getName() ?? this.definition.name;
+  }
+  
+  // 获取怪物定义
+  getDefinition(): Readonly<MonsterDefinition> {
+    return this.definition;
+  }
+  
+  // 获取AI状态
+  getAIState(): MonsterAIState {
+    return this.aiState;
+  }
+  
+  // 获取行为参数
+  getBehavior(): Readonly<MonsterBehavior> {
+    return this.definition.behavior;
+  }
+  
+  // 放弃追击，返回出生点
+  private startReturn(): void {
+    this.target = undefined;
+    this.lostSightTime = 0;
+    this.aiState = 'return';
+    this.setPath([], null);
+  }
+  
+  // 放弃赶路，以当前位置为出生点休息和游荡
+  private stopSeek(): void {
+    this.target = undefined;
+    this.lostSightTime = 0;
+    this.home = { x: this.x, y: this.y };
+    this.aiState = 'idle';
+    this.wanderTimer = 0;
+    this.setPath([], null);
+  }
+  
+  // 在休息和游荡之间切换；离出生点太远时朝出生点游荡
+  private updateWander(deltaTime: number): void {
+    this.wanderTimer += deltaTime * 1000;
+    if (this.wanderTimer < this.wanderInterval) return;
+    
+    const rng = this.random.stream(RANDOM_STREAMS.MONSTER);
+    this.wanderTimer = 0;
+    this.wanderInterval = rng.range(2000, 5000);
+    if (this.aiState === 'wander') {
+      this.aiState = 'idle';
+      return;
+    }
+    
+    this.aiState = 'wander';
+    if (distance(this, this.home) > this.definition.behavior.wanderRadius) {
+      this.wanderDirection = getDirectionTowards(this, this.home);
+    } else {
+      this.wanderDirection = { x: rng.range(-1, 1), y: rng.range(-1, 1) };
+    }
+  }
+  
   // 绘制怪物
   draw(ctx: CanvasRenderingContext2D, camera: Position): void {
     const screenX = this.x - camera.x;
@@ -164,16 +411,8 @@ export class Monster implements IMonster {
     
     ctx.save();
     
-    // 根据怪物类型选择精灵
-    let spriteKey = 'monster_normal';
-    if (this.isElite) {
-      spriteKey = 'monster_elite';
-    } else if (this.isBoss) {
-      spriteKey = 'monster_boss';
-    }
-    
-    // 获取并绘制精灵
-    const sprite = spriteLoader.getSprite(spriteKey);
+    // 获取并绘制怪物定义中的精灵
+    const sprite = spriteLoader.getSprite(this.definition.spriteKey);
     if (sprite) {
       // 计算缩放比例以适应怪物大小
       const scaleX = this.width / sprite.width;
@@ -189,7 +428,7 @@ export class Monster implements IMonster {
       );
     } else {
       // 后备绘制：如果精灵未加载，使用基本形状
-      ctx.fillStyle = this.monsterType.color;
+      ctx.fillStyle = this.definition.color;
       ctx.fillRect(screenX, screenY, this.width, this.height);
     }
     
@@ -220,32 +459,48 @@ export class Monster implements IMonster {
     ctx.fillRect(x, y, barWidth * healthPercent, barHeight);
   }
   
-  // 移动向目标
-  private moveTowardsTarget(deltaTime: number): void {
-    if (!this.target) return;
-    
-    const direction = getDirectionTowards(this, this.target);
-    const moveX = direction.x * this.moveSpeed * deltaTime;
-    const moveY = direction.y * this.moveSpeed * deltaTime;
-    
-    this.x += moveX;
-    this.y += moveY;
-  }
-  
   // 移动（带碰撞检测）
   move(deltaTime: number, obstacles: Collider[]): void {
     let moveX = 0;
     let moveY = 0;
-    
-    if (this.target) {
-      // 有目标时追击
-      const direction = getDirectionTowards(this, this.target);
-      moveX = direction.x * this.moveSpeed * deltaTime;
-      moveY = direction.y * this.moveSpeed * deltaTime;
-    } else {
-      // 无目标时随机游荡
-      moveX = this.wanderDirection.x * (this.moveSpeed * 0.5) * deltaTime;
-      moveY = this.wanderDirection.y * (this.moveSpeed * 0.5) * deltaTime;
+    const speed = this.getMoveSpeed() * deltaTime;
+    const forced = this.getForcedVelocity();
+    const pattern = this.definition.attack;
+    
+    if (forced) {
+      // 技能接管移动：蓄力和引信燃烧时原地不动，冲锋时沿冲锋方向移动，撞到障碍物时停止冲锋
+      moveX = forced.x * deltaTime;
+      moveY = forced.y * deltaTime;
+      if ((moveX !== 0 || moveY !== 0) && willCollide(this, moveX, moveY, obstacles)) {
+        this.boss?.stopCharge();
+        this.chargeRemaining = 0;
+        return;
+      }
+    } else if (this.aiState === 'attack' && this.target && pattern.kind === 'ranged' && distance(this, this.target) < pattern.minRange) {
+      // 远程怪物被玩家贴近时后退，保持射击距离
+      const direction = getDirectionTowards(this.target, this);
+      moveX = direction.x * speed;
+      moveY = direction.y * speed;
+    } else if ((this.aiState === 'chase' || this.aiState === 'seek') && this.target) {
+      // 追击和赶路：沿寻路路径点绕开障碍物，走完路径后直接朝目标移动
+      const direction = getDirectionTowards(this, this.getNextWaypoint() ?? this.target);
+      moveX = direction.x * speed;
+      moveY = direction.y * speed;
+    } else if (this.aiState === 'flee' && this.target) {
+      // 逃跑：朝远离目标的方向移动
+      const direction = getDirectionTowards(this.target, this);
+      moveX = direction.x * speed;
+      moveY = direction.y * speed;
+    } else if (this.aiState === 'return') {
+      // 返回出生点（不会越过出生点）
+      const direction = getDirectionTowards(this, this.home);
+      const step = Math.min(speed, distance(this, this.home));
+      moveX = direction.x * step;
+      moveY = direction.y * step;
+    } else if (this.aiState === 'wander') {
+      // 随机游荡
+      moveX = this.wanderDirection.x * speed * WANDER_SPEED_MULTIPLIER;
+      moveY = this.wanderDirection.y * speed * WANDER_SPEED_MULTIPLIER;
     }
     
     // 检查碰撞并移动
@@ -262,151 +517,263 @@ export class Monster implements IMonster {
     }
   }
   
-  // 攻击目标
-  attackTarget(target: Player): void {
-    const currentTime = Date.now();
-    
-    if (currentTime - this.lastAttackTime >= this.attackSpeed) {
-      this.lastAttackTime = currentTime;
-      
-      // 检查是否在攻击范围内
-      const targetDistance = distance(this, target);
-      if (targetDistance <= this.attackRange) {
-        // 计算实际伤害
-        let damage = this.attack;
-        
-        // Boss有几率造成暴击
-        if (this.isBoss && Math.random() < 0.1) {
-          damage *= 2;
-          console.log('怪物暴击！', damage);
-        }
-        
-        // 应用防御减免
-        const damageDealt = Math.max(1, damage - target.defense * 0.5);
-        
-        console.log(`怪物攻击: ${damageDealt}点伤害`);
-        target.takeDamage(damageDealt);
-      }
-    }
+  // 设置寻路路径和路径对应的目标格子
+  setPath(path: Position[], goal: Position | null): void {
+    this.path = path;
+    this.pathGoal = goal ? { ...goal } : null;
   }
   
-  // 受到伤害
-  takeDamage(amount: number): boolean {
-    // 计算防御减免
-    const damageReduction = Math.min(this.defense, amount * 0.5);
-    const actualDamage = Math.max(1, amount - damageReduction);
-    
-    this.health -= actualDamage;
-    
-    return this.health <= 0;
+  // 获取剩余路径点
+  getPath(): readonly Position[] {
+    return this.path;
   }
   
-  // 设置目标
-  setTarget(player: Player): void {
-    const dist = distance(this, player);
-    if (dist <= this.aggroRange) {
-      // 检查是否有视线
-      const obstacles: Collider[] = []; // 需要传入实际的障碍物列表
-      if (hasLineOfSight(this, player, obstacles)) {
-        this.target = player;
-      }
+  // 获取当前路径对应的目标格子（没有规划路径时为null）
+  getPathGoal(): Position | null {
+    return this.pathGoal;
+  }
+  
+  // 跳过已到达的路径点，返回下一个路径点
+  private getNextWaypoint(): Position | undefined {
+    while (this.path.length > 0 && distance(this, this.path[0]!) <= WAYPOINT_REACHED_DISTANCE) {
+      this.path.shift();
     }
+    return this.path[0];
   }
   
-  // 生成装备属性
-  private generateLootStats(equipmentType: string, rarity: string): any {
-    const baseStat = this.level * 5;
-    const rarityMultiplier = {
-      COMMON: 1,
-      UNCOMMON: 1.5,
-      RARE: 2,
-      EPIC: 3,
-      LEGENDARY: 5
-    }[rarity] || 1;
-    
-    const stats: any = {};
-    
-    switch (equipmentType) {
-      case 'WEAPON':
-        stats.attack = Math.floor(baseStat * rarityMultiplier);
-        break;
-      case 'ARMOR':
-        stats.defense = Math.floor(baseStat * rarityMultiplier);
-        stats.maxHealth = Math.floor(baseStat * 2 * rarityMultiplier);
-        break;
-      case 'ACCESSORY':
-        stats.criticalRate = Math.floor(baseStat * 0.1 * rarityMultiplier);
-        stats.lifesteal = Math.floor(baseStat * 0.05 * rarityMultiplier);
-        break;
+  // 技能接管移动时的速度（像素/秒），不接管时为null
+  private getForcedVelocity(): Position | null {
+    const bossVelocity = this.boss?.getForcedVelocity();
+    if (bossVelocity) return bossVelocity;
+    
+    if (this.chargeRemaining > 0 && this.definition.attack.kind === 'charge') {
+      const speed = this.definition.attack.speed;
+      return { x: this.chargeDirection.x * speed, y: this.chargeDirection.y * speed };
     }
-    
-    return stats;
+    if (this.chargeWindup > 0 || this.fuseRemaining !== null) return { x: 0, y: 0 };
+    return null;
   }
   
-  // 掉落装备
-  dropLoot(): Equipment[] {
-    const loot: Equipment[] = [];
-    
-    // 计算掉落概率
-    const dropChance = this.isBoss ? 0.8 : this.isElite ? 0.5 : 0.2;
-    
-    if (Math.random() < dropChance) {
-      // 生成装备类型（确保大写）
-      const equipmentTypes = ['WEAPON', 'ARMOR', 'ACCESSORY'];
-      const equipmentType = equipmentTypes[Math.floor(Math.random() * equipmentTypes.length)];
-      
-      // 生成稀有度
-      const rarityChance = Math.random();
-      let rarity: string;
-      if (this.isBoss) {
-        rarity = rarityChance < 0.4 ? 'EPIC' : 'LEGENDARY';
-      } else if (this.isElite) {
-        rarity = rarityChance < 0.6 ? 'RARE' : 'EPIC';
-      } else {
-        rarity = rarityChance < 0.5 ? 'COMMON' : rarityChance < 0.8 ? 'UNCOMMON' : 'RARE';
-      }
-      
-      // 生成装备名称
-      const baseNames = {
-        WEAPON: ['剑', '斧', '杖', '匕首', '弓'],
-        ARMOR: ['头盔', '胸甲', '护腿', '战靴', '盾牌'],
-        ACCESSORY: ['戒指', '项链', '护身符', '腰带', '手镯']
-      };
+  // 进入攻击状态（停止追击）的距离：冲锋怪物贴近到近战距离，其他怪物为攻击范围
+  private getEngageRange(): number {
+    return this.definition.attack.kind === 'charge' ? MONSTER_ATTACK_RANGE : this.attackRange;
+  }
+  
+  // 是否正在蓄力、冲锋或燃烧引信（此时不开始新的攻击）
+  private isBusy(): boolean {
+    return (this.boss?.isBusy() ?? false) || this.chargeWindup > 0 || this.chargeRemaining > 0 || this.fuseRemaining !== null;
+  }
+  
+  // 获取移动速度（已应用减速和眩晕）
+  private getMoveSpeed(): number {
+    const bossMultiplier = this.boss?.getSpeedMultiplier() ?? 1;
+    return this.moveSpeed * bossMultiplier * this.statusEffects.getMoveMultiplier();
+  }
+  
+  // 攻击目标：冷却结束且在攻击范围内时按攻击方式发起攻击，返回是否发起了攻击
+  //   melee：直接结算伤害；ranged：发射箭矢；charge：开始蓄力；explode：点燃引信
+  attackTarget(target: Player, host: MonsterHost): boolean {
+    if (this.aiState !== 'chase' && this.aiState !== 'attack') return false;
+    if (this.attackCooldown > 0 || this.statusEffects.isStunned() || this.isBusy()) return false;
+    if (distance(this, target) > this.attackRange) return false;
+    
+    const pattern = this.definition.attack;
+    // 远程攻击需要视线
+    if (pattern.kind === 'ranged' && this.lostSightTime > 0) return false;
+    this.attackCooldown = this.attackSpeed;
+    
+    switch (pattern.kind) {
+      case 'melee':
+        host.dealDamage({
+          source: this,
+          target,
+          amount: 0,
+          // Boss阶段和狂暴的伤害倍率
+          multiplier: this.boss?.getDamageMultiplier() ?? 1,
+          damageType: 'physical',
+          tags: ['melee', 'attack']
+        });
+        return true;
       
-      const prefixes = {
-        COMMON: '',
-        UNCOMMON: ['坚固的', '锋利的', '精致的'],
-        RARE: ['稀有的', '闪耀的', '优质的'],
-        EPIC: ['史诗级', '传说的', '远古的'],
-        LEGENDARY: ['神话', '无敌', '永恒']
-      };
+      case 'ranged':
+        host.spawnProjectile({
+          kind: 'arrow',
+          owner: null,
+          shooter: this,
+          x: this.x,
+          y: this.y,
+          target: null,
+          angle: Math.atan2(target.y - this.y, target.x - this.x),
+          speed: pattern.projectileSpeed,
+          radius: pattern.projectileRadius,
+          lifetime: (pattern.range * 1.5) / pattern.projectileSpeed,
+          damage: this.attack,
+          damageType: 'physical'
+        });
+        return true;
       
-      const baseName = baseNames[equipmentType as keyof typeof baseNames][Math.floor(Math.random() * 5)];
-      const prefix = rarity !== 'COMMON' 
-        ? prefixes[rarity as keyof typeof prefixes][Math.floor(Math.random() * 3)]
-        : '';
-      const name = (prefix ? `${prefix}${baseName}` : baseName) || '未知装备';
+      case 'charge':
+        this.chargeWindup = pattern.windup;
+        this.chargeDirection = getDirectionTowards(this, target);
+        return true;
       
-      // 生成装备属性
-      const stats = this.generateLootStats(equipmentType!, rarity);
+      case 'explode':
+        this.fuseRemaining = pattern.fuse;
+        return true;
+    }
+  }
+  
+  // 推进进行中的攻击：冲锋蓄力和冲刺（撞到玩家时造成一次伤害）、自爆引信
+  updateAttack(deltaTime: number, player: Player, host: MonsterHost): void {
+    const pattern = this.definition.attack;
+    
+    if (pattern.kind === 'charge') {
+      if (this.chargeWindup > 0) {
+        this.chargeWindup = Math.max(0, this.chargeWindup - deltaTime);
+        if (this.chargeWindup <= 0) {
+          this.chargeRemaining = pattern.duration;
+          this.chargeHit = false;
+        }
+      } else if (this.chargeRemaining > 0) {
+        this.chargeRemaining = Math.max(0, this.chargeRemaining - deltaTime);
+        if (!this.chargeHit && distance(this, player) <= (this.width + player.width) / 2) {
+          this.chargeHit = true;
+          const result = host.dealDamage({
+            source: this,
+            target: player,
+            amount: 0,
+            multiplier: pattern.damageMultiplier,
+            damageType: 'physical',
+            tags: ['charge', 'attack']
+          });
+          host.spawnEffect(player.x, player.y, result.amount, '#FF0000');
+        }
+      }
+    } else if (pattern.kind === 'explode' && this.fuseRemaining !== null) {
+      this.fuseRemaining -= deltaTime;
+      if (this.fuseRemaining > 0) return;
       
-      loot.push({
-        id: generateId(),
-        name,
-        description: `一件${prefix}${baseName}，提供强大的属性加成。`,
-        type: equipmentType as 'WEAPON' | 'ARMOR' | 'ACCESSORY',
-        rarity: rarity.toLowerCase() as 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary',
-        stats,
-        isEquipped: false
-      });
+      this.fuseRemaining = null;
+      host.spawnEffect(this.x, this.y, 0, this.definition.color);
+      if (player.health > 0 && distance(this, player) <= pattern.radius) {
+        const result = host.dealDamage({
+          source: this,
+          target: player,
+          amount: 0,
+          multiplier: pattern.damageMultiplier,
+          damageType: 'fire',
+          tags: ['explode', 'aoe', 'attack']
+        });
+        host.spawnEffect(player.x, player.y, result.amount, '#FF7043');
+      }
+      host.removeMonster(this);
     }
+  }
+  
+  // 受到伤害（amount为已结算的伤害），护盾先承受伤害
+  takeDamage(amount: number): boolean {
+    if (this.maxShield > 0) {
+      const absorbed = Math.min(this.shield, amount);
+      this.shield -= absorbed;
+      amount -= absorbed;
+      this.shieldRegenDelay = this.definition.shield?.regenDelay ?? 0;
+    }
+    this.health -= amount;
     
+    return this.health <= 0;
+  }
+  
+  // 按怪物的掉落表判定掉落（掉落表系统由World持有，记录保底计数）
+  dropLoot(tables: LootTableSystem): Equipment[] {
+    const loot = tables.roll(
+      { table: this.definition.loot, rank: this.definition.rank, level: this.level },
+      this.random.stream(RANDOM_STREAMS.LOOT)
+    );
+    
+    if (loot.length > 0) {
+      this.events.emit('lootDropped', { monster: this, items: loot });
+    }
     return loot;
   }
   
   // 获取怪物信息
   getInfo(): string {
-    return `${this.monsterType.name} Lv.${this.level} (${this.health}/${this.maxHealth} HP)`;
+    return `${this.getName()} Lv.${this.level} (${this.health}/${this.maxHealth} HP)`;
+  }
+  
+  // 导出存档数据
+  toSaveData(): MonsterSaveData {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height,
+      level: this.level,
+      definitionId: this.definition.id,
+      isElite: this.isElite,
+      isBoss: this.isBoss,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      attack: this.attack,
+      defense: this.defense,
+      experienceReward: this.experienceReward,
+      wanderDirection: { ...this.wanderDirection },
+      wanderTimer: this.wanderTimer,
+      wanderInterval: this.wanderInterval,
+      attackCooldown: this.attackCooldown,
+      aiState: this.aiState,
+      home: { ...this.home },
+      lostSightTime: this.lostSightTime,
+      hasTarget: this.target !== undefined,
+      statusEffects: this.statusEffects.toSaveData(),
+      shield: this.shield,
+      maxShield: this.maxShield,
+      shieldRegenDelay: this.shieldRegenDelay,
+      chargeWindup: this.chargeWindup,
+      chargeRemaining: this.chargeRemaining,
+      chargeDirection: { ...this.chargeDirection },
+      chargeHit: this.chargeHit,
+      fuseRemaining: this.fuseRemaining,
+      boss: this.boss ? this.boss.toSaveData() : null,
+      path: this.path.map(point => ({ ...point })),
+      pathGoal: this.pathGoal ? { ...this.pathGoal } : null
+    };
+  }
+  
+  // 从存档数据还原怪物
+  static fromSaveData(
+    data: MonsterSaveData,
+    random: GameRandom = defaultRandom,
+    events: GameEventBus = new EventBus()
+  ): Monster {
+    const monster = new Monster(data.x, data.y, data.level, data.definitionId, random, events);
+    monster.width = data.width;
+    monster.height = data.height;
+    monster.health = data.health;
+    monster.maxHealth = data.maxHealth;
+    monster.attack = data.attack;
+    monster.defense = data.defense;
+    monster.experienceReward = data.experienceReward;
+    monster.wanderDirection = { ...data.wanderDirection };
+    monster.wanderTimer = data.wanderTimer;
+    monster.wanderInterval = data.wanderInterval;
+    monster.attackCooldown = data.attackCooldown;
+    monster.aiState = data.aiState;
+    monster.home = { ...data.home };
+    monster.lostSightTime = data.lostSightTime;
+    monster.shield = data.shield;
+    monster.maxShield = data.maxShield;
+    monster.shieldRegenDelay = data.shieldRegenDelay;
+    monster.chargeWindup = data.chargeWindup;
+    monster.chargeRemaining = data.chargeRemaining;
+    monster.chargeDirection = { ...data.chargeDirection };
+    monster.chargeHit = data.chargeHit;
+    monster.fuseRemaining = data.fuseRemaining;
+    if (data.boss) {
+      monster.boss = BossController.fromSaveData(data.boss);
+    }
+    monster.setPath(data.path.map(point => ({ ...point })), data.pathGoal);
+    return monster;
   }
 }
 
@@ -416,9 +783,13 @@ export class MonsterSpawner {
   private maxLevel: number;
   private eliteChance: number;
   private bossChance: number;
+  private random: GameRandom;
+  private events: GameEventBus;
   
-  constructor(minLevel: number = 1) {
+  constructor(minLevel: number = 1, random: GameRandom = defaultRandom, events: GameEventBus = new EventBus()) {
     this.minLevel = minLevel;
+    this.random = random;
+    this.events = events;
     this.maxLevel = minLevel + 2;
     this.eliteChance = 0.1; // 10%几率生成精英怪
     this.bossChance = 0.02; // 2%几率生成BOSS
@@ -434,31 +805,55 @@ export class MonsterSpawner {
     this.bossChance = Math.min(0.05, 0.02 + playerLevel * 0.001);
   }
   
-  // 生成单个怪物
+  // 生成单个怪物：先按几率决定级别，再从该级别的生成表中按权重选择怪物
   spawnMonster(x: number, y: number): Monster {
-    const isBoss = Math.random() < this.bossChance;
-    const isElite = !isBoss && Math.random() < this.eliteChance;
+    const rng = this.random.stream(RANDOM_STREAMS.SPAWN);
+    const isBoss = rng.chance(this.bossChance);
+    const isElite = !isBoss && rng.chance(this.eliteChance);
+    const rank: MonsterRank = isBoss ? 'boss' : isElite ? 'elite' : 'normal';
     
-    // 生成等级
-    let level;
-    if (isBoss) {
-      // BOSS等级比玩家高1-2级
-      level = this.maxLevel + randomInt(0, 2);
-    } else {
-      level = randomInt(this.minLevel, this.maxLevel);
+    const level = this.rollLevel(rank);
+    return this.spawnDefinition(this.pickFromTable(rank, level), x, y, level);
+  }
+  
+  // 按当前难度随机生成等级（BOSS等级比玩家高1-2级）
+  rollLevel(rank: MonsterRank): number {
+    const rng = this.random.stream(RANDOM_STREAMS.SPAWN);
+    if (rank === 'boss') {
+      return this.maxLevel + rng.int(0, 2);
     }
+    return rng.int(this.minLevel, this.maxLevel);
+  }
+  
+  // 按权重从生成表中选择怪物（只考虑达到最低等级的条目）
+  pickFromTable(rank: MonsterRank, level: number): string {
+    const entries = SPAWN_TABLES[rank].filter(entry => (entry.minLevel ?? 1) <= level);
+    if (entries.length === 0) return DEFAULT_MONSTER_ID;
     
-    return new Monster(x, y, level, isElite, isBoss);
+    return this.random.stream(RANDOM_STREAMS.SPAWN).weighted(entries, entry => entry.weight).monster;
+  }
+  
+  // 生成指定定义的怪物（BOSS从Boss定义中随机选择）
+  spawnDefinition(definitionId: string, x: number, y: number, level: number): Monster {
+    const isBoss = getMonsterDefinition(definitionId).rank === 'boss';
+    const bossId = isBoss ? this.random.stream(RANDOM_STREAMS.SPAWN).pick(BOSS_IDS) : undefined;
+    return new Monster(x, y, level, definitionId, this.random, this.events, bossId);
+  }
+  
+  // 生成Boss召唤的小怪（普通怪物，等级比Boss低2级）
+  spawnMinion(x: number, y: number, bossLevel: number): Monster {
+    return this.spawnDefinition(DEFAULT_MONSTER_ID, x, y, Math.max(1, bossLevel - 2));
   }
   
   // 批量生成怪物
   spawnMonsters(position: Position, count: number, avoidRadius: number = 200): Monster[] {
     const monsters: Monster[] = [];
+    const rng = this.random.stream(RANDOM_STREAMS.SPAWN);
     
     for (let i = 0; i < count; i++) {
       // 生成远离指定位置的随机点
-      const angle = random(0, Math.PI * 2);
-      const distance = avoidRadius + random(100, 500);
+      const angle = rng.range(0, Math.PI * 2);
+      const distance = avoidRadius + rng.range(100, 500);
       const x = position.x + Math.cos(angle) * distance;
       const y = position.y + Math.sin(angle) * distance;
       
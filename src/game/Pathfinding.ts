@@ -0,0 +1,331 @@
+import type { Position, Collider, Monster } from '../types';
+import type { SpatialHash } from './SpatialHash';
+import { distance } from '../utils/gameUtils';
+
+// 寻路网格的格子大小（像素）
+export const PATH_CELL_SIZE = 32;
+
+// 判断格子是否可通行时使用的实体尺寸（像素，普通怪物的大小）
+export const PATH_AGENT_SIZE = 40;
+
+// 距离目标超过该范围的怪物不寻路，直接朝目标移动
+export const PATHFINDING_RANGE = 800;
+
+// 每帧最多执行的寻路搜索次数（命中缓存的请求不计入）
+export const PATH_SEARCHES_PER_FRAME = 12;
+
+// 单次搜索最多展开的格子数，超过时返回离终点最近的已展开格子的路径
+export const MAX_SEARCH_NODES = 1500;
+
+// 路径缓存的最大条目数
+const PATH_CACHE_SIZE = 256;
+
+// 斜向移动的代价
+const DIAGONAL_COST = Math.SQRT2;
+
+// 格子坐标的偏移量，用于把二维格子坐标编码为一个数字键
+const CELL_KEY_OFFSET = 1 << 20;
+const CELL_KEY_STRIDE = CELL_KEY_OFFSET * 2;
+
+// 8个相邻方向
+const NEIGHBOR_OFFSETS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+// 搜索中的格子
+interface PathNode {
+  x: number;
+  y: number;
+  g: number;
+  f: number;
+  parent: PathNode | null;
+}
+
+// 按f值排序的二叉堆（开放列表）
+class NodeHeap {
+  private nodes: PathNode[] = [];
+  
+  get size(): number {
+    return this.nodes.length;
+  }
+  
+  push(node: PathNode): void {
+    const nodes = this.nodes;
+    nodes.push(node);
+    let index = nodes.length - 1;
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      if (nodes[parentIndex]!.f <= node.f) break;
+      nodes[index] = nodes[parentIndex]!;
+      index = parentIndex;
+    }
+    nodes[index] = node;
+  }
+  
+  pop(): PathNode | undefined {
+    const nodes = this.nodes;
+    const top = nodes[0];
+    const last = nodes.pop();
+    if (!top || !last || nodes.length === 0) return top;
+    
+    let index = 0;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      let smallestF = last.f;
+      if (left < nodes.length && nodes[left]!.f < smallestF) {
+        smallest = left;
+        smallestF = nodes[left]!.f;
+      }
+      if (right < nodes.length && nodes[right]!.f < smallestF) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+      nodes[index] = nodes[smallest]!;
+      index = smallest;
+    }
+    nodes[index] = last;
+    return top;
+  }
+}
+
+// 网格寻路：按活跃区块的障碍物布局在均匀网格上做A*搜索，
+// 缓存相同起点格子和终点格子的路径，并把怪物的寻路请求分摊到多帧执行
+export class Pathfinder {
+  private obstacles: SpatialHash<Collider>;
+  // 格子是否被阻挡的缓存（障碍物变化时清空）
+  private blocked: Map<number, boolean> = new Map();
+  private cache: Map<string, Position[]> = new Map();
+  // 等待寻路的怪物（先进先出）
+  private queue: Monster[] = [];
+  private queued: Set<Monster> = new Set();
+  
+  constructor(obstacles: SpatialHash<Collider>) {
+    this.obstacles = obstacles;
+  }
+  
+  // 障碍物变化后清空阻挡和路径缓存
+  invalidate(): void {
+    this.blocked.clear();
+    this.cache.clear();
+  }
+  
+  // 获取位置所在的格子坐标
+  getCell(position: Position): Position {
+    return {
+      x: Math.floor(position.x / PATH_CELL_SIZE),
+      y: Math.floor(position.y / PATH_CELL_SIZE)
+    };
+  }
+  
+  // 检查怪物的路径是否需要重新规划：目标移动到其他格子时加入寻路队列，
+  // 不在追击或赶路、离目标太远或没有目标时清除路径（直接朝目标移动）
+  updateMonster(monster: Monster): void {
+    const target = monster.target;
+    const state = monster.getAIState();
+    const isChasing = state === 'seek' || state === 'chase' || state === 'attack';
+    if (!target || !isChasing || distance(monster, target) > PATHFINDING_RANGE) {
+      if (monster.getPathGoal()) monster.setPath([], null);
+      return;
+    }
+    
+    const goal = this.getCell(target);
+    const current = monster.getPathGoal();
+    if (current && current.x === goal.x && current.y === goal.y) return;
+    
+    this.request(monster);
+  }
+  
+  // 加入寻路队列（已在队列中时忽略）
+  request(monster: Monster): void {
+    if (this.queued.has(monster)) return;
+    this.queued.add(monster);
+    this.queue.push(monster);
+  }
+  
+  // 处理寻路队列，本帧的搜索次数用完后剩余请求留到下一帧
+  processRequests(isAlive: (monster: Monster) => boolean, maxSearches: number = PATH_SEARCHES_PER_FRAME): void {
+    let searches = 0;
+    while (this.queue.length > 0 && searches < maxSearches) {
+      const monster = this.queue.shift()!;
+      this.queued.delete(monster);
+      if (!isAlive(monster) || !monster.target) continue;
+      
+      const goal = this.getCell(monster.target);
+      const key = this.getCacheKey(this.getCell(monster), goal);
+      if (!this.cache.has(key)) searches++;
+      monster.setPath(this.findPath(monster, monster.target), goal);
+    }
+  }
+  
+  // 获取等待寻路的怪物（按队列顺序）
+  getQueue(): readonly Monster[] {
+    return this.queue;
+  }
+  
+  // 清空寻路队列
+  clearQueue(): void {
+    this.queue = [];
+    this.queued.clear();
+  }
+  
+  // 从起点到终点的路径（格子中心点，不包含起点，已平滑）；
+  // 终点不可达时返回通往离终点最近的可达格子的路径
+  findPath(start: Position, goal: Position): Position[] {
+    const startCell = this.getCell(start);
+    const goalCell = this.getCell(goal);
+    const key = this.getCacheKey(startCell, goalCell);
+    
+    const cached = this.cache.get(key);
+    if (cached) return cached.map(point => ({ ...point }));
+    
+    const path = this.smoothPath(startCell, this.search(startCell, goalCell));
+    if (this.cache.size >= PATH_CACHE_SIZE) {
+      // 删除最早加入的条目
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(key, path);
+    return path.map(point => ({ ...point }));
+  }
+  
+  // 格子是否被障碍物阻挡（按PATH_AGENT_SIZE大小的实体站在格子内任意位置判断）
+  isBlocked(cellX: number, cellY: number): boolean {
+    const key = this.getCellKey(cellX, cellY);
+    const cached = this.blocked.get(key);
+    if (cached !== undefined) return cached;
+    
+    const area = {
+      x: cellX * PATH_CELL_SIZE,
+      y: cellY * PATH_CELL_SIZE,
+      width: PATH_CELL_SIZE + PATH_AGENT_SIZE,
+      height: PATH_CELL_SIZE + PATH_AGENT_SIZE
+    };
+    const blocked = this.obstacles.queryAABB(area).some(obstacle =>
+      obstacle.isSolid &&
+      obstacle.x < area.x + area.width &&
+      obstacle.x + obstacle.width > area.x &&
+      obstacle.y < area.y + area.height &&
+      obstacle.y + obstacle.height > area.y
+    );
+    this.blocked.set(key, blocked);
+    return blocked;
+  }
+  
+  // A*搜索（8方向，不允许穿过被阻挡格子的拐角），返回格子序列（不包含起点）
+  private search(start: Position, goal: Position): Position[] {
+    if (start.x === goal.x && start.y === goal.y) return [];
+    
+    const open = new NodeHeap();
+    const nodes: Map<number, PathNode> = new Map();
+    const closed: Set<number> = new Set();
+    const startNode: PathNode = { x: start.x, y: start.y, g: 0, f: this.heuristic(start, goal), parent: null };
+    open.push(startNode);
+    nodes.set(this.getCellKey(start.x, start.y), startNode);
+    
+    let closest = startNode;
+    let closestH = startNode.f;
+    
+    while (open.size > 0 && closed.size < MAX_SEARCH_NODES) {
+      const node = open.pop()!;
+      const nodeKey = this.getCellKey(node.x, node.y);
+      if (closed.has(nodeKey)) continue;
+      closed.add(nodeKey);
+      
+      if (node.x === goal.x && node.y === goal.y) {
+        closest = node;
+        break;
+      }
+      
+      const h = node.f - node.g;
+      if (h < closestH) {
+        closest = node;
+        closestH = h;
+      }
+      
+      for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+        const x = node.x + dx;
+        const y = node.y + dy;
+        const key = this.getCellKey(x, y);
+        if (closed.has(key)) continue;
+        
+        // 终点格子即使被阻挡也允许进入（目标可能紧贴障碍物）
+        const isGoal = x === goal.x && y === goal.y;
+        if (!isGoal && this.isBlocked(x, y)) continue;
+        if (dx !== 0 && dy !== 0 && (this.isBlocked(node.x + dx, node.y) || this.isBlocked(node.x, node.y + dy))) continue;
+        
+        const g = node.g + (dx !== 0 && dy !== 0 ? DIAGONAL_COST : 1);
+        const existing = nodes.get(key);
+        if (existing && existing.g <= g) continue;
+        
+        const next: PathNode = { x, y, g, f: g + this.heuristic({ x, y }, goal), parent: node };
+        nodes.set(key, next);
+        open.push(next);
+      }
+    }
+    
+    const cells: Position[] = [];
+    for (let node: PathNode | null = closest; node && node.parent; node = node.parent) {
+      cells.push({ x: node.x, y: node.y });
+    }
+    return cells.reverse();
+  }
+  
+  // 路径平滑：从当前点直接跳到视线可达的最远格子，并转换为格子中心的世界坐标
+  private smoothPath(start: Position, cells: Position[]): Position[] {
+    const path: Position[] = [];
+    let from = start;
+    let index = 0;
+    while (index < cells.length) {
+      let farthest = index;
+      for (let i = cells.length - 1; i > index; i--) {
+        if (this.isLineWalkable(from, cells[i]!)) {
+          farthest = i;
+          break;
+        }
+      }
+      from = cells[farthest]!;
+      path.push(this.getCellCenter(from));
+      index = farthest + 1;
+    }
+    return path;
+  }
+  
+  // 两个格子之间的直线经过的格子是否都可通行（按半个格子的步长采样）
+  private isLineWalkable(from: Position, to: Position): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const steps = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)) * 2);
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      const x = Math.round(from.x + dx * t);
+      const y = Math.round(from.y + dy * t);
+      if (this.isBlocked(x, y)) return false;
+    }
+    return true;
+  }
+  
+  // 八方向距离估计
+  private heuristic(from: Position, to: Position): number {
+    const dx = Math.abs(to.x - from.x);
+    const dy = Math.abs(to.y - from.y);
+    return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy);
+  }
+  
+  private getCellCenter(cell: Position): Position {
+    return {
+      x: cell.x * PATH_CELL_SIZE + PATH_CELL_SIZE / 2,
+      y: cell.y * PATH_CELL_SIZE + PATH_CELL_SIZE / 2
+    };
+  }
+  
+  private getCacheKey(start: Position, goal: Position): string {
+    return `${start.x},${start.y}:${goal.x},${goal.y}`;
+  }
+  
+  private getCellKey(x: number, y: number): number {
+    return (x + CELL_KEY_OFFSET) * CELL_KEY_STRIDE + (y + CELL_KEY_OFFSET);
+  }
+}
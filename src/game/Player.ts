@@ -1,6 +1,25 @@
-import type { Player as IPlayer, Position, Collider, Skill, Equipment } from '../types';
-import { generateId, randomInt, willCollide, formatNumber } from '../utils/gameUtils';
+import type { Player as IPlayer, Position, Collider, Skill, Equipment, PlayerSaveData, PlayerStat } from '../types';
+import { generateId, willCollide, formatNumber } from '../utils/gameUtils';
+import { GameRandom, RANDOM_STREAMS, defaultRandom } from '../utils/random';
 import { SpriteLoader } from './SpriteLoader';
+import { EventBus, type GameEventBus } from './EventBus';
+import { StatusEffects } from './StatusEffects';
+import { skillPool, MagnetSkill } from './SkillSystem';
+import { toEquipmentSaveData, restoreEquipment, getEquipmentModifiers, equipmentManager } from './EquipmentSystem';
+import { StatBlock } from './Stats';
+
+// 玩家基础属性（攻击速度为每秒攻击次数）
+export const PLAYER_BASE_STATS: Record<PlayerStat, number> = {
+  attack: 20,
+  defense: 5,
+  maxHealth: 100,
+  critChance: 0.05,
+  critDamage: 1.5,
+  lifesteal: 0,
+  moveSpeed: 300,
+  attackSpeed: 1,
+  xpGain: 1
+};
 
 // 玩家角色类
 export class Player implements IPlayer {
@@ -12,27 +31,40 @@ export class Player implements IPlayer {
   height: number;
   isSolid: boolean;
   health: number;
-  maxHealth: number;
   level: number;
-  attack: number;
-  defense: number;
   experience: number;
   experienceToNextLevel: number;
+  facing: number;
+  statusEffects: StatusEffects;
   skills: Skill[];
+  // 已装备的物品（每种类型最多一件）
   equipment: Equipment[];
-  // 添加缺失的inventory属性
+  // 背包中未装备的物品
   inventory: Equipment[];
   
-  // 移动速度
-  private moveSpeed: number;
-  // 攻击速度（攻击间隔，单位：毫秒）
-  private attackSpeed: number;
-  // 最后攻击时间
-  private lastAttackTime: number;
+  // 属性表（基础属性加上升级、装备、技能和状态效果的修正）
+  private stats: StatBlock;
+  // 升级累计获得的属性
+  private levelGains: { attack: number; defense: number; maxHealth: number };
+  // 上次同步属性来源时的来源签名（未变化时跳过同步）
+  private statSignature: string;
+  // 基础拾取范围（像素，从玩家中心计算）
+  private pickupRadius: number;
+  // 距离上次攻击经过的时间（单位：毫秒，按模拟时间累计）
+  private timeSinceLastAttack: number;
   // 技能点
   private skillPoints: number;
+  // 随机数生成器
+  private random: GameRandom;
+  // 游戏事件总线
+  private events: GameEventBus;
   
-  constructor(x: number = 0, y: number = 0) {
+  constructor(
+    x: number = 0,
+    y: number = 0,
+    random: GameRandom = defaultRandom,
+    events: GameEventBus = new EventBus()
+  ) {
     this.id = generateId();
     this.x = x;
     this.y = y;
@@ -42,30 +74,105 @@ export class Player implements IPlayer {
     
     // 初始属性
     this.level = 1;
-    this.health = 100;
-    this.maxHealth = 100;
-    this.attack = 20; // 增加初始攻击力
-    this.defense = 5;
     this.experience = 0;
     this.experienceToNextLevel = 100;
+    this.facing = 0;
+    this.statusEffects = new StatusEffects();
     this.skills = [];
     this.equipment = [];
     this.inventory = [];
+    this.stats = new StatBlock(PLAYER_BASE_STATS);
+    this.levelGains = { attack: 0, defense: 0, maxHealth: 0 };
+    this.statSignature = '';
+    this.refreshStats();
+    this.health = this.maxHealth;
     
     // 其他属性
-    this.moveSpeed = 300;
-    this.attackSpeed = 1000; // 1秒攻击间隔
-    this.lastAttackTime = 0; // 确保初始可以攻击
+    this.pickupRadius = 80;
+    this.timeSinceLastAttack = this.getAttackInterval(); // 确保初始可以攻击
     this.skillPoints = 0;
+    this.random = random;
+    this.events = events;
+  }
+  
+  // 最终属性
+  get maxHealth(): number { return this.stats.get('maxHealth'); }
+  get attack(): number { return this.stats.get('attack'); }
+  get defense(): number { return this.stats.get('defense'); }
+  get critChance(): number { return this.stats.get('critChance'); }
+  get critDamage(): number { return this.stats.get('critDamage'); }
+  get lifesteal(): number { return this.stats.get('lifesteal'); }
+  get moveSpeed(): number { return this.stats.get('moveSpeed'); }
+  get attackSpeed(): number { return this.stats.get('attackSpeed'); }
+  get xpGain(): number { return this.stats.get('xpGain'); }
+  
+  // 获取属性表（用于显示各来源的加成）
+  getStatBlock(): StatBlock {
+    return this.stats;
+  }
+  
+  // 按当前的升级、装备、技能和状态效果重新同步属性来源
+  // 最大生命变化时当前生命随之增减，来源未变化时不做任何事
+  refreshStats(): void {
+    const equipped = this.equipment.filter(item => item.isEquipped);
+    const slow = this.statusEffects.getMoveMultiplier();
+    const signature = [
+      `${this.levelGains.attack},${this.levelGains.defense},${this.levelGains.maxHealth}`,
+      equipped.map(item => item.id).join(','),
+      this.skills.map(skill => `${skill.key}:${skill.level}`).join(','),
+      // 眩晕在getMoveSpeed中处理，不计入减速
+      this.statusEffects.isStunned() ? '' : slow
+    ].join('|');
+    if (signature === this.statSignature) return;
+    this.statSignature = signature;
+    
+    const previousMaxHealth = this.stats.get('maxHealth');
+    this.stats.clearSources();
+    this.stats.setSource({
+      id: 'level',
+      kind: 'level',
+      label: '升级',
+      modifiers: [
+        { stat: 'attack', type: 'flat', value: this.levelGains.attack },
+        { stat: 'defense', type: 'flat', value: this.levelGains.defense },
+        { stat: 'maxHealth', type: 'flat', value: this.levelGains.maxHealth }
+      ]
+    });
+    for (const item of equipped) {
+      this.stats.setSource({ id: `item:${item.id}`, kind: 'item', label: item.name, modifiers: getEquipmentModifiers(item) });
+    }
+    for (const skill of this.skills) {
+      const modifiers = skill.getStatModifiers();
+      if (modifiers.length > 0) {
+        this.stats.setSource({ id: `skill:${skill.key}`, kind: 'skill', label: skill.name, modifiers });
+      }
+    }
+    if (!this.statusEffects.isStunned() && slow < 1) {
+      this.stats.setSource({
+        id: 'effect:slow',
+        kind: 'effect',
+        label: '减速',
+        modifiers: [{ stat: 'moveSpeed', type: 'percent', value: slow - 1 }]
+      });
+    }
+    
+    const healthChange = this.stats.get('maxHealth') - previousMaxHealth;
+    if (healthChange > 0) {
+      this.health += healthChange;
+    }
+    this.health = Math.min(this.health, this.maxHealth);
   }
   
   // 更新玩家状态
   update(deltaTime: number): void {
-    // 更新所有技能
-    this.skills.forEach(skill => skill.update(deltaTime, this));
+    // 累计攻击冷却时间
+    this.timeSinceLastAttack += deltaTime * 1000;
+    
+    // 同步状态效果等变化带来的属性修正
+    this.refreshStats();
     
     // 自动恢复生命值（每10秒恢复1%）
-    if (this.health < this.maxHealth && Math.random() < deltaTime * 0.0001) {
+    if (this.health < this.maxHealth && this.random.stream(RANDOM_STREAMS.PLAYER).chance(deltaTime * 0.0001)) {
       this.health = Math.min(this.health + this.maxHealth * 0.01, this.maxHealth);
     }
   }
@@ -151,76 +258,41 @@ export class Player implements IPlayer {
     }
   }
   
-  // 处理键盘移动
-  handleKeyboardMovement(keys: { [key: string]: boolean }, deltaTime: number, obstacles: Collider[]): void {
-    let moveX = 0;
-    let moveY = 0;
-    
-    if (keys['KeyW'] || keys['ArrowUp']) {
-      moveY -= this.moveSpeed * deltaTime;
-    }
-    if (keys['KeyS'] || keys['ArrowDown']) {
-      moveY += this.moveSpeed * deltaTime;
-    }
-    if (keys['KeyA'] || keys['ArrowLeft']) {
-      moveX -= this.moveSpeed * deltaTime;
-    }
-    if (keys['KeyD'] || keys['ArrowRight']) {
-      moveX += this.moveSpeed * deltaTime;
-    }
-    
-    // 归一化移动向量，确保斜向移动速度相同
-    const magnitude = Math.sqrt(moveX * moveX + moveY * moveY);
-    if (magnitude > 0) {
-      const normalizedMoveX = (moveX / magnitude) * this.moveSpeed * deltaTime;
-      const normalizedMoveY = (moveY / magnitude) * this.moveSpeed * deltaTime;
-      this.move(normalizedMoveX, normalizedMoveY, obstacles);
-    }
+  // 获取移动速度（像素/秒，已应用属性修正，眩晕时为0）
+  getMoveSpeed(): number {
+    return this.statusEffects.isStunned() ? 0 : this.moveSpeed;
+  }
+  
+  // 获取攻击间隔（毫秒，由攻击速度换算）
+  getAttackInterval(): number {
+    return 1000 / this.attackSpeed;
+  }
+  
+  // 获取拾取范围（包括拾取磁铁的加成）
+  getPickupRadius(): number {
+    return this.skills.reduce(
+      (radius, skill) => skill instanceof MagnetSkill ? radius + skill.getRadiusBonus() : radius,
+      this.pickupRadius
+    );
   }
   
   // 攻击
   canAttack(): boolean {
-    return Date.now() - this.lastAttackTime >= this.attackSpeed;
+    return this.timeSinceLastAttack >= this.getAttackInterval() && !this.statusEffects.isStunned();
   }
   
-  // 执行攻击
-  performAttack(): number {
-    if (!this.canAttack()) return 0;
+  // 执行攻击（重置攻击冷却），返回是否不在冷却中
+  // 伤害、暴击和装备加成由DamageResolver结算
+  performAttack(): boolean {
+    if (!this.canAttack()) return false;
     
-    this.lastAttackTime = Date.now();
-    
-    // 应用装备加成
-    let finalAttack = this.attack;
-    this.equipment.forEach(item => {
-      if (item.isEquipped && item.stats.attack) {
-        finalAttack += item.stats.attack;
-      }
-    });
-    
-    // 暴击系统（5%几率暴击，造成1.5倍伤害）
-    if (Math.random() < 0.05) {
-      finalAttack *= 1.5;
-      console.log('暴击！', finalAttack);
-    }
-    
-    return finalAttack;
+    this.timeSinceLastAttack = 0;
+    return true;
   }
   
-  // 受到伤害
+  // 受到伤害（amount为已结算的伤害）
   takeDamage(amount: number): boolean {
-    // 计算防御减免
-    const damageReduction = Math.min(this.defense, amount * 0.8); // 最多减免80%伤害
-    let actualDamage = Math.max(1, amount - damageReduction);
-    
-    // 应用装备防御加成
-    this.equipment.forEach(item => {
-      if (item.isEquipped && item.stats.defense) {
-        const itemReduction = Math.min(item.stats.defense, actualDamage * 0.5);
-        actualDamage -= itemReduction;
-      }
-    });
-    
-    this.health -= Math.max(1, actualDamage);
+    this.health -= amount;
     
     // 触发受伤技能效果
     this.skills.forEach(skill => {
@@ -232,9 +304,9 @@ export class Player implements IPlayer {
     return this.health <= 0;
   }
   
-  // 获得经验值
+  // 获得经验值（按经验获取倍率加成）
   gainExperience(amount: number): void {
-    this.experience += amount;
+    this.experience += Math.round(amount * this.xpGain);
     
     // 检查是否升级
     while (this.experience >= this.experienceToNextLevel) {
@@ -251,19 +323,27 @@ export class Player implements IPlayer {
     this.experienceToNextLevel = Math.floor(this.experienceToNextLevel * 1.5);
     
     // 属性提升
-    const healthGain = randomInt(20, 40);
-    const attackGain = randomInt(5, 10);
-    const defenseGain = randomInt(3, 6);
-    
-    this.maxHealth += healthGain;
+    const rng = this.random.stream(RANDOM_STREAMS.PLAYER);
+    const healthGain = rng.int(20, 40);
+    const attackGain = rng.int(5, 10);
+    const defenseGain = rng.int(3, 6);
+    
+    this.levelGains.maxHealth += healthGain;
+    this.levelGains.attack += attackGain;
+    this.levelGains.defense += defenseGain;
+    this.refreshStats();
     this.health = this.maxHealth; // 升级时回满生命
-    this.attack += attackGain;
-    this.defense += defenseGain;
     
     // 获得技能点
     this.skillPoints++;
     
-    console.log(`升级！当前等级: ${this.level}, 生命+${healthGain}, 攻击+${attackGain}, 防御+${defenseGain}`);
+    this.events.emit('playerLeveledUp', {
+      player: this,
+      level: this.level,
+      healthGain,
+      attackGain,
+      defenseGain
+    });
   }
   
   // 学习或升级技能
@@ -272,77 +352,99 @@ export class Player implements IPlayer {
     if (this.skillPoints <= 0) return;
     
     // 检查是否已经学习过该技能
-    const existingSkill = this.skills.find(s => s.id === skill.id);
+    const existingSkill = this.skills.find(s => s.key === skill.key);
     
     if (existingSkill) {
       // 升级现有技能
       if (existingSkill.maxLevel !== undefined && existingSkill.level < existingSkill.maxLevel) {
         existingSkill.level++;
         this.skillPoints--;
-        console.log(`技能升级: ${existingSkill.name} Lv.${existingSkill.level}`);
+        this.refreshStats();
+        this.events.emit('skillLearned', { player: this, skill: existingSkill, level: existingSkill.level });
       }
     } else {
-      // 学习新技能
-      this.skills.push({ ...skill, level: 1 });
+      // 学习新技能（保留技能实例，以便调用其update等方法）
+      skill.level = 1;
+      this.skills.push(skill);
       this.skillPoints--;
-      console.log(`学习新技能: ${skill.name}`);
+      this.refreshStats();
+      this.events.emit('skillLearned', { player: this, skill, level: skill.level });
     }
   }
   
-  // 添加装备
+  // 添加装备到背包
   addEquipment(equipment: Equipment): void {
-    this.equipment.push({ ...equipment, isEquipped: false });
-    console.log(`获得装备: ${equipment.name}`);
+    // 保留装备实例，以便调用其update等方法
+    equipment.isEquipped = false;
+    this.inventory.push(equipment);
   }
   
-  // 装备物品
+  // 装备背包中的物品（同类型的已装备物品放回背包），已装备时卸下
   equipItem(equipmentId: string): void {
-    const equipment = this.equipment.find(item => item.id === equipmentId);
-    if (!equipment) return;
-    
-    // 如果已经装备，则卸载
-    if (equipment.isEquipped) {
-      equipment.isEquipped = false;
-      console.log(`卸载装备: ${equipment.name}`);
+    if (this.equipment.some(item => item.id === equipmentId)) {
+      this.unequipItem(equipmentId);
       return;
     }
     
-    // 同一类型的装备只能装备一个
-    this.equipment.forEach(item => {
-      if (item.type === equipment.type) {
-        item.isEquipped = false;
-      }
-    });
+    const equipment = this.inventory.find(item => item.id === equipmentId);
+    if (!equipment) return;
+    
+    const replaced = this.equipment.find(item => item.type === equipment.type);
+    equipmentManager.equipToPlayer(this, equipment);
+    if (replaced) {
+      this.events.emit('itemEquipped', { player: this, item: replaced, equipped: false });
+    }
+    this.events.emit('itemEquipped', { player: this, item: equipment, equipped: true });
+  }
+  
+  // 卸下已装备的物品放回背包
+  unequipItem(equipmentId: string): void {
+    const equipment = this.equipment.find(item => item.id === equipmentId);
+    if (equipment && equipmentManager.unequipFromPlayer(this, equipment)) {
+      this.events.emit('itemEquipped', { player: this, item: equipment, equipped: false });
+    }
+  }
+  
+  // 从已装备物品或背包中移除物品（用于丢弃），返回被移除的物品
+  removeItem(equipmentId: string): Equipment | null {
+    const equipped = this.equipment.find(item => item.id === equipmentId);
+    if (equipped) {
+      this.equipment = this.equipment.filter(item => item !== equipped);
+      equipped.isEquipped = false;
+      this.refreshStats();
+      return equipped;
+    }
     
-    // 装备新物品
-    equipment.isEquipped = true;
-    console.log(`装备物品: ${equipment.name}`);
+    const stored = this.inventory.find(item => item.id === equipmentId);
+    if (stored) {
+      this.inventory = this.inventory.filter(item => item !== stored);
+      return stored;
+    }
+    return null;
   }
   
-  // 获取角色属性摘要
+  // 获取角色概况（角色面板顶部显示，各项属性见getStatBlock）
   getStatsSummary(): { [key: string]: string } {
     return {
       '等级': this.level.toString(),
-      '生命': `${formatNumber(this.health)}/${formatNumber(this.maxHealth)}`,
-      '攻击': formatNumber(this.attack),
-      '防御': formatNumber(this.defense),
-      '经验': `${formatNumber(this.experience)}/${formatNumber(this.experienceToNextLevel)}`,
-      '技能点': this.skillPoints.toString(),
-      '技能数量': this.skills.length.toString(),
-      '装备数量': this.equipment.filter(e => e.isEquipped).length.toString()
+      '生命': `${formatNumber(Math.floor(this.health))}/${formatNumber(Math.floor(this.maxHealth))}`,
+      '经验': `${formatNumber(Math.floor(this.experience))}/${formatNumber(this.experienceToNextLevel)}`,
+      '剩余技能点': this.skillPoints.toString()
     };
   }
   
   // 重置玩家状态（用于重新开始游戏）
   reset(): void {
-    this.health = this.maxHealth = 100;
-    this.attack = 10;
-    this.defense = 5;
+    this.levelGains = { attack: 0, defense: 0, maxHealth: 0 };
     this.experience = 0;
     this.experienceToNextLevel = 100;
     this.level = 1;
     this.skills = [];
     this.equipment = [];
+    this.inventory = [];
+    this.statusEffects.clear();
+    this.refreshStats();
+    this.health = this.maxHealth;
     this.skillPoints = 1;
   }
   
@@ -350,4 +452,60 @@ export class Player implements IPlayer {
   canLearnSkills(): boolean {
     return this.skillPoints > 0;
   }
+  
+  // 导出存档数据
+  toSaveData(): PlayerSaveData {
+    return {
+      x: this.x,
+      y: this.y,
+      health: this.health,
+      level: this.level,
+      levelGains: { ...this.levelGains },
+      experience: this.experience,
+      experienceToNextLevel: this.experienceToNextLevel,
+      facing: this.facing,
+      statusEffects: this.statusEffects.toSaveData(),
+      skillPoints: this.skillPoints,
+      timeSinceLastAttack: this.timeSinceLastAttack,
+      skills: this.skills.map(skill => ({
+        key: skill.key,
+        level: skill.level,
+        currentCooldown: skill.currentCooldown
+      })),
+      equipment: this.equipment.map(toEquipmentSaveData),
+      inventory: this.inventory.map(toEquipmentSaveData)
+    };
+  }
+  
+  // 从存档数据恢复（技能和装备还原为真正的类实例）
+  loadSaveData(data: PlayerSaveData): void {
+    this.x = data.x;
+    this.y = data.y;
+    this.level = data.level;
+    this.levelGains = { ...data.levelGains };
+    this.experience = data.experience;
+    this.experienceToNextLevel = data.experienceToNextLevel;
+    this.facing = data.facing;
+    this.statusEffects.loadSaveData(data.statusEffects, this);
+    this.skillPoints = data.skillPoints;
+    this.timeSinceLastAttack = data.timeSinceLastAttack;
+    
+    this.skills = [];
+    for (const skillData of data.skills) {
+      const skill = skillPool.createSkill(skillData.key);
+      if (!skill) {
+        console.warn(`未知技能类型: ${skillData.key}`);
+        continue;
+      }
+      skill.level = skillData.level;
+      skill.currentCooldown = skillData.currentCooldown;
+      this.skills.push(skill);
+    }
+    
+    this.equipment = data.equipment.map(restoreEquipment);
+    this.inventory = data.inventory.map(restoreEquipment);
+    
+    this.refreshStats();
+    this.health = data.health;
+  }
 }
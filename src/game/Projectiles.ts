@@ -0,0 +1,380 @@
+import type { Projectile, ProjectileKind, ProjectileSaveData, ProjectileStatusEffect, DamageType, Position, Collider, Player, Monster } from '../types';
+import { distance, checkCollision } from '../utils/gameUtils';
+import { SpatialHash } from './SpatialHash';
+import { MAX_MONSTER_WIDTH } from './Monster';
+
+// 弹射投射物（闪电链）结束后弧线保留的时间（秒）
+export const PROJECTILE_TRAIL_FADE_TIME = 0.25;
+
+// 各种投射物命中特效的颜色
+export const PROJECTILE_COLORS: Record<ProjectileKind, string> = {
+  fireball: '#FF8C00',
+  lightning: '#87CEFA',
+  arrow: '#B0BEC5'
+};
+
+// 生成投射物的参数（未指定的字段使用默认值）
+export interface ProjectileSpawnOptions {
+  kind: ProjectileKind;
+  owner: Player | null;
+  x: number;
+  y: number;
+  target: Monster | null;
+  // 发射投射物的怪物（敌方投射物只命中玩家）
+  shooter?: Monster | null;
+  // 没有目标时的飞行方向（弧度）
+  angle?: number;
+  speed: number;
+  radius: number;
+  lifetime: number;
+  damage: number;
+  damageType: DamageType;
+  pierce?: number;
+  bounces?: number;
+  bounceRange?: number;
+  homing?: number;
+  explosionRadius?: number;
+  statusEffect?: ProjectileStatusEffect | null;
+}
+
+// 投射物命中：位置和受到伤害的怪物（爆炸时为范围内的所有怪物），敌方投射物命中时为玩家
+export interface ProjectileImpact {
+  kind: ProjectileKind;
+  owner: Player | null;
+  shooter: Monster | null;
+  x: number;
+  y: number;
+  monsters: Monster[];
+  player: Player | null;
+  damage: number;
+  damageType: DamageType;
+  statusEffect: ProjectileStatusEffect | null;
+  isExplosion: boolean;
+}
+
+// 创建空的投射物（放入对象池）
+function createProjectile(): Projectile {
+  return {
+    kind: 'fireball',
+    active: false,
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    speed: 0,
+    radius: 0,
+    lifetime: 0,
+    fading: 0,
+    damage: 0,
+    damageType: 'physical',
+    pierce: 0,
+    bounces: 0,
+    bounceRange: 0,
+    homing: 0,
+    explosionRadius: 0,
+    statusEffect: null,
+    target: null,
+    owner: null,
+    hostile: false,
+    shooter: null,
+    hitMonsters: [],
+    trail: []
+  };
+}
+
+// 投射物系统：负责投射物的生成、飞行、追踪、碰撞和回收（对象池复用）
+export class ProjectileSystem {
+  private active: Projectile[] = [];
+  private pool: Projectile[] = [];
+  // 飞行中投射物的空间索引
+  private index: SpatialHash<Projectile> = new SpatialHash();
+  
+  // 生成投射物
+  spawn(options: ProjectileSpawnOptions): Projectile {
+    const projectile = this.pool.pop() ?? createProjectile();
+    const angle = options.target
+      ? Math.atan2(options.target.y - options.y, options.target.x - options.x)
+      : options.angle ?? 0;
+    
+    projectile.kind = options.kind;
+    projectile.active = true;
+    projectile.x = options.x;
+    projectile.y = options.y;
+    projectile.vx = Math.cos(angle) * options.speed;
+    projectile.vy = Math.sin(angle) * options.speed;
+    projectile.speed = options.speed;
+    projectile.radius = options.radius;
+    projectile.lifetime = options.lifetime;
+    projectile.fading = 0;
+    projectile.damage = options.damage;
+    projectile.damageType = options.damageType;
+    projectile.pierce = options.pierce ?? 0;
+    projectile.bounces = options.bounces ?? 0;
+    projectile.bounceRange = options.bounceRange ?? 0;
+    projectile.homing = options.homing ?? 0;
+    projectile.explosionRadius = options.explosionRadius ?? 0;
+    projectile.statusEffect = options.statusEffect ?? null;
+    projectile.target = options.target;
+    projectile.owner = options.owner;
+    projectile.hostile = options.shooter != null;
+    projectile.shooter = options.shooter ?? null;
+    projectile.hitMonsters = [];
+    projectile.trail = [{ x: options.x, y: options.y }];
+    
+    this.active.push(projectile);
+    this.index.insert(projectile);
+    return projectile;
+  }
+  
+  // 推进所有投射物，返回本帧的命中（伤害由调用方通过DamageResolver结算）
+  update(deltaTime: number, monsters: SpatialHash<Monster>, obstacles: SpatialHash<Collider>, player: Player): ProjectileImpact[] {
+    const impacts: ProjectileImpact[] = [];
+    
+    for (const projectile of this.active) {
+      if (!projectile.active) {
+        projectile.fading -= deltaTime;
+        continue;
+      }
+      
+      this.steer(projectile, monsters, deltaTime);
+      projectile.x += projectile.vx * deltaTime;
+      projectile.y += projectile.vy * deltaTime;
+      projectile.lifetime -= deltaTime;
+      this.index.update(projectile);
+      
+      // 撞到障碍物或到达寿命时结束（火球会爆炸）
+      if (projectile.lifetime <= 0 || this.hitsObstacle(projectile, obstacles)) {
+        if (projectile.explosionRadius > 0) {
+          impacts.push(this.explode(projectile, monsters));
+        }
+        this.finish(projectile);
+        continue;
+      }
+      
+      // 敌方投射物只命中玩家
+      if (projectile.hostile) {
+        if (player.health > 0 && distance(projectile, player) <= projectile.radius + player.width / 2) {
+          impacts.push({ ...this.createImpact(projectile, player, [], false), player });
+          this.finish(projectile);
+        }
+        continue;
+      }
+      
+      const monster = monsters.queryRange(projectile, projectile.radius + MAX_MONSTER_WIDTH / 2).find(m =>
+        m.health > 0 &&
+        !projectile.hitMonsters.includes(m) &&
+        distance(projectile, m) <= projectile.radius + m.width / 2
+      );
+      if (monster) {
+        this.handleHit(projectile, monster, monsters, impacts);
+      }
+    }
+    
+    // 回收已结束且弧线已消失的投射物
+    for (let i = this.active.length - 1; i >= 0; i--) {
+      const projectile = this.active[i];
+      if (projectile && !projectile.active && projectile.fading <= 0) {
+        this.active.splice(i, 1);
+        projectile.target = null;
+        projectile.owner = null;
+        projectile.shooter = null;
+        projectile.hitMonsters = [];
+        this.pool.push(projectile);
+      }
+    }
+    
+    return impacts;
+  }
+  
+  // 获取所有投射物（包括正在淡出的）
+  getProjectiles(): readonly Projectile[] {
+    return this.active;
+  }
+  
+  // 查询范围内飞行中的投射物
+  findProjectilesInRange(center: Position, radius: number): Projectile[] {
+    return this.index.queryRange(center, radius);
+  }
+  
+  // 对象池中闲置的投射物数量
+  getPoolSize(): number {
+    return this.pool.length;
+  }
+  
+  // 清除所有投射物
+  clear(): void {
+    this.index.clear();
+    this.active.forEach(projectile => {
+      projectile.active = false;
+      projectile.target = null;
+      projectile.owner = null;
+      projectile.shooter = null;
+      projectile.hitMonsters = [];
+      this.pool.push(projectile);
+    });
+    this.active = [];
+  }
+  
+  // 导出存档数据（目标、发射者和已命中的怪物记录为怪物列表中的下标）
+  toSaveData(monsters: Monster[]): ProjectileSaveData[] {
+    return this.active
+      .filter(projectile => projectile.active)
+      .map(projectile => ({
+        kind: projectile.kind,
+        x: projectile.x,
+        y: projectile.y,
+        vx: projectile.vx,
+        vy: projectile.vy,
+        speed: projectile.speed,
+        radius: projectile.radius,
+        lifetime: projectile.lifetime,
+        damage: projectile.damage,
+        damageType: projectile.damageType,
+        pierce: projectile.pierce,
+        bounces: projectile.bounces,
+        bounceRange: projectile.bounceRange,
+        homing: projectile.homing,
+        explosionRadius: projectile.explosionRadius,
+        statusEffect: projectile.statusEffect ? { ...projectile.statusEffect } : null,
+        target: projectile.target ? monsters.indexOf(projectile.target) : -1,
+        hitMonsters: projectile.hitMonsters.map(monster => monsters.indexOf(monster)),
+        trail: projectile.trail.map(point => ({ ...point })),
+        fromPlayer: projectile.owner !== null,
+        hostile: projectile.hostile,
+        shooter: projectile.shooter ? monsters.indexOf(projectile.shooter) : -1
+      }));
+  }
+  
+  // 从存档数据还原
+  loadSaveData(data: ProjectileSaveData[], monsters: Monster[], player: Player): void {
+    this.clear();
+    for (const saved of data) {
+      const projectile = this.spawn({
+        ...saved,
+        owner: saved.fromPlayer ? player : null,
+        target: monsters[saved.target] ?? null,
+        shooter: monsters[saved.shooter] ?? null
+      });
+      projectile.hostile = saved.hostile;
+      projectile.vx = saved.vx;
+      projectile.vy = saved.vy;
+      projectile.hitMonsters = saved.hitMonsters
+        .map(index => monsters[index])
+        .filter((monster): monster is Monster => monster !== undefined);
+      projectile.trail = saved.trail.map(point => ({ ...point }));
+    }
+  }
+  
+  // 追踪目标：按转向速度把速度方向转向目标
+  private steer(projectile: Projectile, monsters: SpatialHash<Monster>, deltaTime: number): void {
+    const target = projectile.target;
+    if (!target) return;
+    if (target.health <= 0 || !monsters.has(target)) {
+      projectile.target = null;
+      return;
+    }
+    if (projectile.homing <= 0) return;
+    
+    const current = Math.atan2(projectile.vy, projectile.vx);
+    const desired = Math.atan2(target.y - projectile.y, target.x - projectile.x);
+    let diff = desired - current;
+    while (diff > Math.PI) diff -= Math.PI * 2;
+    while (diff < -Math.PI) diff += Math.PI * 2;
+    
+    const maxTurn = projectile.homing * deltaTime;
+    const angle = current + Math.max(-maxTurn, Math.min(maxTurn, diff));
+    projectile.vx = Math.cos(angle) * projectile.speed;
+    projectile.vy = Math.sin(angle) * projectile.speed;
+  }
+  
+  // 处理命中怪物：爆炸、弹射或穿透
+  private handleHit(projectile: Projectile, monster: Monster, monsters: SpatialHash<Monster>, impacts: ProjectileImpact[]): void {
+    if (projectile.explosionRadius > 0) {
+      impacts.push(this.explode(projectile, monsters));
+      this.finish(projectile);
+      return;
+    }
+    
+    projectile.hitMonsters.push(monster);
+    projectile.trail.push({ x: monster.x, y: monster.y });
+    impacts.push(this.createImpact(projectile, monster, [monster], false));
+    
+    if (projectile.bounces > 0) {
+      const next = this.findBounceTarget(projectile, monster, monsters);
+      if (next) {
+        projectile.bounces--;
+        projectile.x = monster.x;
+        projectile.y = monster.y;
+        projectile.target = next;
+        const angle = Math.atan2(next.y - monster.y, next.x - monster.x);
+        projectile.vx = Math.cos(angle) * projectile.speed;
+        projectile.vy = Math.sin(angle) * projectile.speed;
+        return;
+      }
+    } else if (projectile.pierce > 0) {
+      projectile.pierce--;
+      return;
+    }
+    
+    this.finish(projectile);
+  }
+  
+  // 寻找弹射目标：距离命中点最近、尚未被命中的怪物
+  private findBounceTarget(projectile: Projectile, from: Position, monsters: SpatialHash<Monster>): Monster | null {
+    let nearest: Monster | null = null;
+    let nearestDistance = projectile.bounceRange;
+    for (const monster of monsters.queryRange(from, projectile.bounceRange)) {
+      if (monster.health <= 0 || projectile.hitMonsters.includes(monster)) continue;
+      const dist = distance(from, monster);
+      if (dist <= nearestDistance) {
+        nearest = monster;
+        nearestDistance = dist;
+      }
+    }
+    return nearest;
+  }
+  
+  // 在当前位置爆炸，命中范围内的所有怪物
+  private explode(projectile: Projectile, monsters: SpatialHash<Monster>): ProjectileImpact {
+    const radius = projectile.explosionRadius + MAX_MONSTER_WIDTH / 2;
+    const targets = monsters.queryRange(projectile, radius).filter(monster =>
+      monster.health > 0 && distance(projectile, monster) <= projectile.explosionRadius + monster.width / 2
+    );
+    return this.createImpact(projectile, { x: projectile.x, y: projectile.y }, targets, true);
+  }
+  
+  private createImpact(projectile: Projectile, at: Position, monsters: Monster[], isExplosion: boolean): ProjectileImpact {
+    return {
+      kind: projectile.kind,
+      owner: projectile.owner,
+      shooter: projectile.shooter,
+      x: at.x,
+      y: at.y,
+      monsters,
+      player: null,
+      damage: projectile.damage,
+      damageType: projectile.damageType,
+      statusEffect: projectile.statusEffect ? { ...projectile.statusEffect } : null,
+      isExplosion
+    };
+  }
+  
+  // 结束投射物；命中过怪物的弹射投射物保留一段时间用于显示弧线
+  private finish(projectile: Projectile): void {
+    projectile.active = false;
+    this.index.remove(projectile);
+    projectile.trail.push({ x: projectile.x, y: projectile.y });
+    projectile.fading = projectile.bounceRange > 0 && projectile.hitMonsters.length > 0 ? PROJECTILE_TRAIL_FADE_TIME : 0;
+  }
+  
+  private hitsObstacle(projectile: Projectile, obstacles: SpatialHash<Collider>): boolean {
+    const box: Collider = {
+      x: projectile.x - projectile.radius,
+      y: projectile.y - projectile.radius,
+      width: projectile.radius * 2,
+      height: projectile.radius * 2,
+      isSolid: true
+    };
+    return obstacles.queryAABB(box).some(obstacle => obstacle.isSolid && checkCollision(box, obstacle));
+  }
+}
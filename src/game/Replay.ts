@@ -0,0 +1,261 @@
+import type { InputState, WorldSaveData, EquipmentRarity, InventoryCommand } from '../types';
+import { World, FIXED_TIMESTEP, createEmptyInput } from './World';
+
+// 回放文件格式版本
+export const REPLAY_VERSION = 1;
+
+// 可选的回放速度
+export type ReplaySpeed = 1 | 2 | 4;
+
+// 回放数据
+export interface ReplayData {
+  version: number;
+  seed: number;
+  timestep: number;
+  frameCount: number;
+  // 输入按游程编码：[连续帧数, moveX, moveY, attack(0/1), aimX, aimY, pickup(0/1)]
+  inputs: ReplayInputSegment[];
+  // 非输入操作按录制顺序排列，在各自的帧模拟之前依次生效
+  events: ReplayEvent[];
+  // 从存档继续的对局记录起始状态
+  startState?: WorldSaveData;
+}
+
+// 回放事件：录制时发生在指定帧模拟之前的操作
+export type ReplayEvent =
+  | { frame: number; type: 'skillChoice'; index: number }
+  | { frame: number; type: 'autoPickup'; rarity: EquipmentRarity; enabled: boolean }
+  | { frame: number; type: 'inventory'; command: InventoryCommand };
+
+// 一段连续相同的输入
+export type ReplayInputSegment = [number, number, number, number, number, number, number];
+
+// 量化输入，保证录制内容与实际模拟使用的输入完全一致
+export function quantizeInput(input: InputState): InputState {
+  return {
+    moveX: Math.round(input.moveX * 1000) / 1000,
+    moveY: Math.round(input.moveY * 1000) / 1000,
+    attack: input.attack,
+    aimX: Math.round(input.aimX * 1000) / 1000,
+    aimY: Math.round(input.aimY * 1000) / 1000,
+    pickup: input.pickup
+  };
+}
+
+// 序列化回放数据
+export function encodeReplay(data: ReplayData): string {
+  return JSON.stringify(data);
+}
+
+// 解析回放数据
+export function decodeReplay(text: string): ReplayData {
+  const data = JSON.parse(text) as ReplayData;
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (typeof data.seed !== 'number' || !Array.isArray(data.inputs) || !Array.isArray(data.events)) {
+    throw new Error('Invalid replay data');
+  }
+  // 播放器按顺序消费事件，帧号必须单调不减
+  if (data.events.some((event, i) => i > 0 && event.frame < (data.events[i - 1]?.frame ?? 0))) {
+    throw new Error('Replay events are out of order');
+  }
+  return data;
+}
+
+// 回放录制器：记录每个固定步长的输入，以及技能选择、拾取设置和物品栏操作
+export class ReplayRecorder {
+  private seed: number;
+  private frameCount: number;
+  private inputs: ReplayInputSegment[];
+  private events: ReplayEvent[];
+  private startState?: WorldSaveData;
+  
+  constructor(seed: number, startState?: WorldSaveData) {
+    this.seed = seed;
+    this.startState = startState;
+    this.frameCount = 0;
+    this.inputs = [];
+    this.events = [];
+  }
+  
+  // 记录一帧输入
+  recordFrame(input: InputState): void {
+    const attack = input.attack ? 1 : 0;
+    const pickup = input.pickup ? 1 : 0;
+    const last = this.inputs[this.inputs.length - 1];
+    
+    // 与上一段输入相同则合并
+    if (last && last[1] === input.moveX && last[2] === input.moveY && last[3] === attack &&
+        last[4] === input.aimX && last[5] === input.aimY && last[6] === pickup) {
+      last[0]++;
+    } else {
+      this.inputs.push([1, input.moveX, input.moveY, attack, input.aimX, input.aimY, pickup]);
+    }
+    this.frameCount++;
+  }
+  
+  // 记录技能选择（在下一帧模拟之前生效）
+  recordSkillChoice(index: number): void {
+    this.events.push({ frame: this.frameCount, type: 'skillChoice', index });
+  }
+  
+  // 记录自动拾取设置的修改（在下一帧模拟之前生效）
+  recordAutoPickup(rarity: EquipmentRarity, enabled: boolean): void {
+    this.events.push({ frame: this.frameCount, type: 'autoPickup', rarity, enabled });
+  }
+  
+  // 记录物品栏操作（在下一帧模拟之前生效）
+  recordInventoryCommand(command: InventoryCommand): void {
+    this.events.push({ frame: this.frameCount, type: 'inventory', command: { ...command } });
+  }
+  
+  // 导出回放数据
+  getData(): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      timestep: FIXED_TIMESTEP,
+      frameCount: this.frameCount,
+      inputs: this.inputs.map(segment => [...segment] as ReplayInputSegment),
+      events: this.events.map(event => event.type === 'inventory' ? { ...event, command: { ...event.command } } : { ...event }),
+      startState: this.startState
+    };
+  }
+}
+
+// 回放播放器：按固定步长把录制的输入重新喂给World
+export class ReplayPlayer {
+  private data: ReplayData;
+  private frameInputs: InputState[];
+  private world: World;
+  private frame: number;
+  // 下一个待应用事件的下标
+  private eventIndex: number;
+  private accumulator: number;
+  private paused: boolean;
+  private speed: ReplaySpeed;
+  
+  constructor(data: ReplayData) {
+    this.data = data;
+    this.frameInputs = this.expandInputs(data);
+    this.world = this.createWorld();
+    this.frame = 0;
+    this.eventIndex = 0;
+    this.accumulator = 0;
+    this.paused = false;
+    this.speed = 1;
+  }
+  
+  // 创建回放起始时的世界
+  private createWorld(): World {
+    return this.data.startState ? World.fromSaveData(this.data.startState) : new World(this.data.seed);
+  }
+  
+  // 展开游程编码的输入
+  private expandInputs(data: ReplayData): InputState[] {
+    const frames: InputState[] = [];
+    for (const [count, moveX, moveY, attack, aimX, aimY, pickup] of data.inputs) {
+      for (let i = 0; i < count; i++) {
+        frames.push({ moveX, moveY, attack: attack === 1, aimX, aimY, pickup: pickup === 1 });
+      }
+    }
+    return frames;
+  }
+  
+  // 获取当前回放的世界
+  getWorld(): World {
+    return this.world;
+  }
+  
+  getFrame(): number {
+    return this.frame;
+  }
+  
+  getFrameCount(): number {
+    return this.data.frameCount;
+  }
+  
+  getSpeed(): ReplaySpeed {
+    return this.speed;
+  }
+  
+  isPaused(): boolean {
+    return this.paused;
+  }
+  
+  isFinished(): boolean {
+    return this.frame >= this.data.frameCount;
+  }
+  
+  play(): void {
+    this.paused = false;
+  }
+  
+  pause(): void {
+    this.paused = true;
+  }
+  
+  togglePause(): void {
+    this.paused = !this.paused;
+  }
+  
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+  }
+  
+  // 根据真实经过的时间推进回放（单位：秒）
+  update(realDeltaTime: number): void {
+    if (this.paused || this.isFinished()) return;
+    
+    this.accumulator += realDeltaTime * this.speed;
+    while (this.accumulator >= this.data.timestep && !this.isFinished()) {
+      this.stepFrame();
+      this.accumulator -= this.data.timestep;
+    }
+  }
+  
+  // 跳转到指定帧（向后跳转时从头重新模拟）
+  seek(targetFrame: number): void {
+    const target = Math.max(0, Math.min(Math.floor(targetFrame), this.data.frameCount));
+    
+    if (target < this.frame) {
+      this.world = this.createWorld();
+      this.frame = 0;
+      this.eventIndex = 0;
+    }
+    while (this.frame < target) {
+      this.stepFrame();
+    }
+    this.accumulator = 0;
+  }
+  
+  // 模拟一帧
+  private stepFrame(): void {
+    // 按录制顺序应用本帧之前发生的事件
+    let event = this.data.events[this.eventIndex];
+    while (event && event.frame <= this.frame) {
+      this.applyEvent(event);
+      event = this.data.events[++this.eventIndex];
+    }
+    
+    const input = this.frameInputs[this.frame] ?? createEmptyInput();
+    this.world.step(this.data.timestep, input);
+    this.frame++;
+  }
+  
+  // 应用一个录制的事件
+  private applyEvent(event: ReplayEvent): void {
+    switch (event.type) {
+      case 'skillChoice':
+        this.world.chooseSkill(event.index);
+        break;
+      case 'autoPickup':
+        this.world.setAutoPickup(event.rarity, event.enabled);
+        break;
+      case 'inventory':
+        this.world.applyInventoryCommand(event.command);
+        break;
+    }
+  }
+}
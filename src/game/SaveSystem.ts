@@ -0,0 +1,178 @@
+import type { WorldSaveData } from '../types';
+import { World } from './World';
+import { downloadTextFile, pickTextFile } from '../utils/fileUtils';
+
+// 当前存档格式版本
+export const SAVE_VERSION = 1;
+
+// localStorage中的存档键
+const SAVE_STORAGE_KEY = 'kill-monsters:save';
+
+// 存档文档
+export interface SaveDocument {
+  version: number;
+  savedAt: number;
+  world: WorldSaveData;
+}
+
+// 存档中的对象（迁移只读写自己关心的字段，其余字段原样保留）
+type SaveRecord = Record<string, unknown>;
+
+// 迁移中的存档文档（world的字段随版本变化）
+interface VersionedSaveDocument {
+  version: number;
+  savedAt: number;
+  world: SaveRecord;
+}
+
+// 存档迁移：把指定版本的存档升级到下一个版本
+type SaveMigration = (document: VersionedSaveDocument) => VersionedSaveDocument;
+
+// 按源版本号登记的迁移函数，已发布的存档格式发生变化时在此添加
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {};
+
+// 当前版本world的顶层字段类型（新增字段时在此登记）
+const WORLD_FIELD_KINDS: Record<keyof WorldSaveData, 'number' | 'object' | 'array'> = {
+  seed: 'number',
+  score: 'number',
+  player: 'object',
+  monsters: 'array',
+  skillOptions: 'array',
+  chunks: 'array',
+  random: 'object',
+  projectiles: 'array',
+  pathRequests: 'array',
+  telegraphs: 'array',
+  director: 'object',
+  loot: 'object',
+  lootTables: 'object'
+};
+
+function isRecord(value: unknown): value is SaveRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 检查world的顶层字段是否符合当前版本（内部字段由各系统的loadSaveData读取）
+function isWorldSaveData(world: SaveRecord): world is SaveRecord & WorldSaveData {
+  return Object.entries(WORLD_FIELD_KINDS).every(([key, kind]) => {
+    const value = world[key];
+    if (kind === 'array') return Array.isArray(value);
+    if (kind === 'object') return isRecord(value);
+    return typeof value === 'number';
+  });
+}
+
+// 将任意版本的存档迁移到当前版本
+export function migrateSaveDocument(raw: unknown): SaveDocument {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || !isRecord(raw.world)) {
+    throw new Error('Invalid save document');
+  }
+  if (raw.version > SAVE_VERSION) {
+    throw new Error(`Save version ${raw.version} is newer than supported version ${SAVE_VERSION}`);
+  }
+  
+  let document: VersionedSaveDocument = {
+    version: raw.version,
+    savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : 0,
+    world: raw.world
+  };
+  while (document.version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[document.version];
+    if (!migrate) {
+      throw new Error(`No migration from save version ${document.version}`);
+    }
+    document = migrate(document);
+  }
+  
+  const world = document.world;
+  if (!isWorldSaveData(world)) {
+    throw new Error('Invalid save document: world does not match the current save format');
+  }
+  return { version: document.version, savedAt: document.savedAt, world };
+}
+
+// 存档存储接口（浏览器中为localStorage）
+export interface SaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// 存档管理器
+export class SaveManager {
+  private storage: SaveStorage | null;
+  
+  constructor(storage?: SaveStorage | null) {
+    if (storage !== undefined) {
+      this.storage = storage;
+    } else {
+      this.storage = typeof localStorage !== 'undefined' ? localStorage : null;
+    }
+  }
+  
+  // 序列化世界为存档文本
+  serialize(world: World): string {
+    const document: SaveDocument = {
+      version: SAVE_VERSION,
+      savedAt: Date.now(),
+      world: world.toSaveData()
+    };
+    return JSON.stringify(document);
+  }
+  
+  // 解析存档文本并还原世界
+  deserialize(text: string): World {
+    const document = migrateSaveDocument(JSON.parse(text));
+    return World.fromSaveData(document.world);
+  }
+  
+  // 保存到本地存储，返回是否成功
+  save(world: World): boolean {
+    if (!this.storage) return false;
+    
+    try {
+      this.storage.setItem(SAVE_STORAGE_KEY, this.serialize(world));
+      return true;
+    } catch (error) {
+      console.error('Failed to save game:', error);
+      return false;
+    }
+  }
+  
+  // 从本地存储读取，没有存档或存档损坏时返回null
+  load(): World | null {
+    const text = this.storage?.getItem(SAVE_STORAGE_KEY);
+    if (!text) return null;
+    
+    try {
+      return this.deserialize(text);
+    } catch (error) {
+      console.error('Failed to load save:', error);
+      return null;
+    }
+  }
+  
+  // 是否存在存档
+  hasSave(): boolean {
+    return !!this.storage?.getItem(SAVE_STORAGE_KEY);
+  }
+  
+  // 删除存档
+  clear(): void {
+    this.storage?.removeItem(SAVE_STORAGE_KEY);
+  }
+  
+  // 导出存档文件
+  exportToFile(world: World): void {
+    downloadTextFile(`kill-monsters-save-${Date.now()}.json`, this.serialize(world));
+  }
+  
+  // 从文件导入存档
+  async importFromFile(): Promise<World> {
+    const text = await pickTextFile();
+    return this.deserialize(text);
+  }
+}
+
+// 全局存档管理器实例
+export const saveManager = new SaveManager();
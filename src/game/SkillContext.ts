@@ -0,0 +1,95 @@
+import type { SkillContext, Position, Collider, Monster, DamageEvent, DamageResult } from '../types';
+import type { ProjectileSpawnOptions } from './Projectiles';
+import type { SpatialHash } from './SpatialHash';
+import { MAX_MONSTER_WIDTH } from './Monster';
+import { distance, isInArc, distanceToSegment, hasLineOfSight } from '../utils/gameUtils';
+
+// 技能上下文依赖的世界接口（由World提供）
+export interface SkillContextHost {
+  getMonsters(): readonly Monster[];
+  // 怪物和障碍物的空间索引（范围查询只检查附近的格子）
+  getMonsterIndex(): SpatialHash<Monster>;
+  getObstacleIndex(): SpatialHash<Collider>;
+  spawnProjectile(options: ProjectileSpawnOptions): void;
+  spawnEffect(x: number, y: number, damage: number, color: string): void;
+  dealDamage(event: DamageEvent): DamageResult;
+}
+
+// 世界查询：技能和装备通过它查找敌人、检查视线、发射投射物和造成伤害
+export class WorldSkillContext implements SkillContext {
+  private host: SkillContextHost;
+  
+  constructor(host: SkillContextHost) {
+    this.host = host;
+  }
+  
+  // 获取所有存活的敌人
+  getEnemies(): readonly Monster[] {
+    return this.host.getMonsters().filter(monster => monster.health > 0);
+  }
+  
+  // 寻找范围内最近的敌人（可附加筛选条件，如需要视线）
+  findNearestEnemy(from: Position, range: number, filter?: (monster: Monster) => boolean): Monster | null {
+    let nearest: Monster | null = null;
+    let nearestDistance = range;
+    for (const monster of this.findEnemiesInRadius(from, range)) {
+      const dist = distance(from, monster);
+      if (dist <= nearestDistance && (!filter || filter(monster))) {
+        nearest = monster;
+        nearestDistance = dist;
+      }
+    }
+    return nearest;
+  }
+  
+  // 圆形范围内的敌人
+  findEnemiesInRadius(center: Position, radius: number): Monster[] {
+    return this.host.getMonsterIndex().queryRange(center, radius).filter(monster => monster.health > 0);
+  }
+  
+  // 扇形范围内的敌人（facing为扇形中心方向，arc为扇形总角度，单位：弧度）
+  findEnemiesInCone(origin: Position, facing: number, arc: number, range: number): Monster[] {
+    return this.findEnemiesInRadius(origin, range).filter(monster => isInArc(origin, facing, arc, range, monster));
+  }
+  
+  // 线段上（宽度为width的矩形范围内）的敌人，按离起点的距离排序
+  findEnemiesInLine(from: Position, to: Position, width: number): Monster[] {
+    const margin = width / 2 + MAX_MONSTER_WIDTH / 2;
+    const candidates = this.host.getMonsterIndex().queryAABB({
+      x: Math.min(from.x, to.x) - margin,
+      y: Math.min(from.y, to.y) - margin,
+      width: Math.abs(to.x - from.x) + margin * 2,
+      height: Math.abs(to.y - from.y) + margin * 2
+    });
+    return candidates
+      .filter(monster => monster.health > 0)
+      .filter(monster => distanceToSegment(monster, from, to) <= width / 2 + monster.width / 2)
+      .sort((a, b) => distance(from, a) - distance(from, b));
+  }
+  
+  // 两点之间是否没有障碍物遮挡
+  hasLineOfSight(from: Position, to: Position): boolean {
+    const obstacles = this.host.getObstacleIndex().queryAABB({
+      x: Math.min(from.x, to.x),
+      y: Math.min(from.y, to.y),
+      width: Math.abs(to.x - from.x) + 1,
+      height: Math.abs(to.y - from.y) + 1
+    });
+    return hasLineOfSight(from, to, obstacles);
+  }
+  
+  // 发射投射物
+  spawnProjectile(options: ProjectileSpawnOptions): void {
+    this.host.spawnProjectile(options);
+  }
+  
+  // 在指定位置显示攻击特效（damage大于0时显示伤害数字）
+  spawnEffect(x: number, y: number, color: string, damage: number = 0): void {
+    this.host.spawnEffect(x, y, damage, color);
+  }
+  
+  // 通过伤害结算器造成伤害
+  dealDamage(event: DamageEvent): DamageResult {
+    return this.host.dealDamage(event);
+  }
+}
@@ -1,9 +1,15 @@
-import type { Skill, Player, Monster } from '../types';
+import type { Skill, Entity, Player, Monster, SkillContext, StatModifier } from '../types';
+import type { ProjectileSpawnOptions } from './Projectiles';
 import { generateId, distance } from '../utils/gameUtils';
+import { RandomStream, RANDOM_STREAMS, defaultRandom } from '../utils/random';
+
+// 光环施加的状态效果在离开范围后保留的时间（秒）
+const AURA_EFFECT_DURATION = 0.5;
 
 // 技能基础类
-class BaseSkill implements Skill {
+export class BaseSkill implements Skill {
   id: string;
+  key: string;
   name: string;
   description: string;
   type: 'aura' | 'projectile' | 'buff' | 'debuff';
@@ -13,6 +19,7 @@ class BaseSkill implements Skill {
   currentCooldown: number;
   
   constructor(
+    key: string,
     name: string,
     description: string,
     type: 'aura' | 'projectile' | 'buff' | 'debuff',
@@ -20,6 +27,7 @@ class BaseSkill implements Skill {
     cooldown: number = 0
   ) {
     this.id = generateId();
+    this.key = key;
     this.name = name;
     this.description = description;
     this.type = type;
@@ -30,12 +38,12 @@ class BaseSkill implements Skill {
   }
   
   // 基础效果（子类需要重写）
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 基础实现，子类重写
   }
   
-  // 更新技能状态
-  update(deltaTime: number, _owner: Player): void {
+  // 更新技能状态（context用于查询敌人、发射投射物和造成伤害）
+  update(deltaTime: number, _owner: Player, _context: SkillContext): void {
     // 更新冷却时间
     if (this.currentCooldown > 0) {
       this.currentCooldown -= deltaTime;
@@ -53,6 +61,11 @@ class BaseSkill implements Skill {
     this.currentCooldown = this.cooldown;
   }
   
+  // 被动属性修正（提供属性加成的技能重写）
+  getStatModifiers(): StatModifier[] {
+    return [];
+  }
+  
   // 获取技能等级描述
   getLevelDescription(): string {
     return `${this.name} Lv.${this.level}/${this.maxLevel}`;
@@ -65,6 +78,7 @@ export class ExperienceAuraSkill extends BaseSkill {
   
   constructor() {
     super(
+      'experienceAura',
       '经验光环',
       '增加杀怪获得的经验值',
       'aura',
@@ -73,12 +87,12 @@ export class ExperienceAuraSkill extends BaseSkill {
     this.experienceBonus = 0.1; // 初始10%加成
   }
   
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 光环技能通过其他方式生效，这里不直接触发
   }
   
-  update(deltaTime: number, _owner: Player): void {
-    super.update(deltaTime, _owner);
+  update(deltaTime: number, _owner: Player, context: SkillContext): void {
+    super.update(deltaTime, _owner, context);
     // 光环技能持续生效
   }
   
@@ -87,6 +101,10 @@ export class ExperienceAuraSkill extends BaseSkill {
     return this.experienceBonus * this.level;
   }
   
+  getStatModifiers(): StatModifier[] {
+    return [{ stat: 'xpGain', type: 'percent', value: this.getExperienceBonus() }];
+  }
+  
   getLevelDescription(): string {
     const bonus = Math.round(this.getExperienceBonus() * 100);
     return `${this.name} Lv.${this.level}/${this.maxLevel} (+${bonus}% 经验)`;
@@ -99,6 +117,7 @@ export class LifestealAuraSkill extends BaseSkill {
   
   constructor() {
     super(
+      'lifestealAura',
       '生命窃取光环',
       '攻击时吸取生命值',
       'aura',
@@ -107,14 +126,13 @@ export class LifestealAuraSkill extends BaseSkill {
     this.lifestealPercent = 0.05; // 初始5%吸血
   }
   
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 光环技能通过其他方式生效
   }
   
-  // 处理吸血效果
-  applyLifesteal(owner: Player, damage: number): void {
-    const healAmount = damage * this.lifestealPercent * this.level;
-    owner.health = Math.min(owner.health + healAmount, owner.maxHealth);
+  // 吸血比例计入角色的生命偷取属性，命中时由World回复生命
+  getStatModifiers(): StatModifier[] {
+    return [{ stat: 'lifesteal', type: 'flat', value: this.lifestealPercent * this.level }];
   }
   
   getLevelDescription(): string {
@@ -130,6 +148,7 @@ export class SlowAuraSkill extends BaseSkill {
   
   constructor() {
     super(
+      'slowAura',
       '减速光环',
       '降低周围怪物的移动速度',
       'aura',
@@ -139,15 +158,21 @@ export class SlowAuraSkill extends BaseSkill {
     this.slowPercent = 0.1; // 初始10%减速
   }
   
-  effect(_target: any | null): void {
-    // 光环效果通过其他方式应用
+  effect(_target: Entity | null): void {
+    // 光环效果通过applySlow施加减速状态
+  }
+  
+  update(deltaTime: number, owner: Player, context: SkillContext): void {
+    super.update(deltaTime, owner, context);
+    context.findEnemiesInRadius(owner, this.slowRadius).forEach(monster => this.applySlow(owner, monster));
   }
   
-  // 检查怪物是否在光环范围内并应用减速
+  // 怪物在光环范围内时施加（刷新）减速状态，离开范围后短暂保留，返回是否施加
   applySlow(owner: Player, monster: Monster): boolean {
     const dist = distance(owner, monster);
     if (dist <= this.slowRadius) {
-      return true; // 返回是否应该减速
+      monster.statusEffects.apply('slow', AURA_EFFECT_DURATION, this.getSlowPercent(), owner);
+      return true;
     }
     return false;
   }
@@ -166,11 +191,11 @@ export class SlowAuraSkill extends BaseSkill {
 // 自动追踪技能 - 火球术
 export class FireballSkill extends BaseSkill {
   private damage: number;
-  private castInterval: number;
-  private lastCastTime: number;
+  private range: number;
   
   constructor() {
     super(
+      'fireball',
       '自动火球术',
       '自动发射火球攻击附近敌人',
       'projectile',
@@ -178,38 +203,52 @@ export class FireballSkill extends BaseSkill {
       2 // 2秒冷却
     );
     this.damage = 20;
-    this.castInterval = 1.5; // 1.5秒一次
-    this.lastCastTime = 0;
+    this.range = 400;
   }
   
-  effect(target: any | null): void {
-    if (target && typeof target.takeDamage === 'function') {
-      const finalDamage = this.damage * this.level;
-      console.log(`火球术命中 ${finalDamage} 伤害`);
-      target.takeDamage(finalDamage);
-    }
+  effect(_target: Entity | null): void {
+    // 通过cast发射火球投射物，命中后由伤害结算器结算
   }
   
-  update(deltaTime: number, owner: Player): void {
-    super.update(deltaTime, owner);
+  // 冷却结束时向视线内最近的敌人发射火球
+  update(deltaTime: number, owner: Player, context: SkillContext): void {
+    super.update(deltaTime, owner, context);
+    if (!this.isReady()) return;
     
-    this.lastCastTime += deltaTime;
-    if (this.lastCastTime >= this.castInterval && this.canUse()) {
-      // 寻找范围内的目标
-      const nearestMonster = this.findNearestMonster(owner);
-      if (nearestMonster) {
-        this.effect(nearestMonster);
-        this.triggerCooldown();
-        this.lastCastTime = 0;
-      }
+    const target = context.findNearestEnemy(owner, this.range, monster => context.hasLineOfSight(owner, monster));
+    if (target) {
+      context.spawnProjectile(this.cast(owner, target));
     }
   }
   
-  // 寻找最近的怪物（这里简化处理，实际需要从游戏状态获取）
-  private findNearestMonster(_owner: Player): Monster | null {
-    // 实际实现需要访问游戏状态中的怪物列表
-    // 这里返回null作为占位
-    return null;
+  // 获取施法范围
+  getRange(): number {
+    return this.range;
+  }
+  
+  // 是否可以施放（施法间隔由技能冷却决定，冷却时间会随存档保存）
+  isReady(): boolean {
+    return this.canUse();
+  }
+  
+  // 向目标施放火球：追踪飞向目标，命中后小范围爆炸并点燃（3秒内共造成60%的火球伤害）
+  cast(owner: Player, target: Monster): ProjectileSpawnOptions {
+    this.triggerCooldown();
+    return {
+      kind: 'fireball',
+      owner,
+      x: owner.x,
+      y: owner.y,
+      target,
+      speed: 500,
+      radius: 10,
+      lifetime: this.range / 500 * 1.5,
+      damage: this.damage * this.level,
+      damageType: 'fire',
+      homing: 4,
+      explosionRadius: 80,
+      statusEffect: { type: 'burn', duration: 3, magnitude: this.damage * this.level * 0.1 }
+    };
   }
   
   getLevelDescription(): string {
@@ -223,6 +262,7 @@ export class StrengthBuffSkill extends BaseSkill {
   
   constructor() {
     super(
+      'strengthBuff',
       '力量提升',
       '永久增加攻击力',
       'buff',
@@ -231,7 +271,7 @@ export class StrengthBuffSkill extends BaseSkill {
     this.attackBonus = 5;
   }
   
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 被动技能，直接通过属性加成生效
   }
   
@@ -240,6 +280,10 @@ export class StrengthBuffSkill extends BaseSkill {
     return this.attackBonus * this.level;
   }
   
+  getStatModifiers(): StatModifier[] {
+    return [{ stat: 'attack', type: 'flat', value: this.getAttackBonus() }];
+  }
+  
   getLevelDescription(): string {
     return `${this.name} Lv.${this.level}/${this.maxLevel} (+${this.getAttackBonus()} 攻击)`;
   }
@@ -251,6 +295,7 @@ export class DefenseBuffSkill extends BaseSkill {
   
   constructor() {
     super(
+      'defenseBuff',
       '护甲提升',
       '永久增加防御力',
       'buff',
@@ -259,7 +304,7 @@ export class DefenseBuffSkill extends BaseSkill {
     this.defenseBonus = 3;
   }
   
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 被动技能
   }
   
@@ -268,6 +313,10 @@ export class DefenseBuffSkill extends BaseSkill {
     return this.defenseBonus * this.level;
   }
   
+  getStatModifiers(): StatModifier[] {
+    return [{ stat: 'defense', type: 'flat', value: this.getDefenseBonus() }];
+  }
+  
   getLevelDescription(): string {
     return `${this.name} Lv.${this.level}/${this.maxLevel} (+${this.getDefenseBonus()} 防御)`;
   }
@@ -279,6 +328,7 @@ export class HealthBuffSkill extends BaseSkill {
   
   constructor() {
     super(
+      'healthBuff',
       '生命提升',
       '永久增加生命值上限',
       'buff',
@@ -287,7 +337,7 @@ export class HealthBuffSkill extends BaseSkill {
     this.healthBonus = 20;
   }
   
-  effect(_target: any | null): void {
+  effect(_target: Entity | null): void {
     // 被动技能
   }
   
@@ -296,20 +346,53 @@ export class HealthBuffSkill extends BaseSkill {
     return this.healthBonus * this.level;
   }
   
+  getStatModifiers(): StatModifier[] {
+    return [{ stat: 'maxHealth', type: 'flat', value: this.getHealthBonus() }];
+  }
+  
   getLevelDescription(): string {
     return `${this.name} Lv.${this.level}/${this.maxLevel} (+${this.getHealthBonus()} 生命)`;
   }
 }
 
+// 强化自身技能 - 拾取磁铁
+export class MagnetSkill extends BaseSkill {
+  private radiusBonus: number;
+  
+  constructor() {
+    super(
+      'magnet',
+      '拾取磁铁',
+      '扩大拾取范围，范围内的掉落物会被吸向自己',
+      'buff',
+      5
+    );
+    this.radiusBonus = 40;
+  }
+  
+  effect(_target: Entity | null): void {
+    // 被动技能，通过拾取范围生效
+  }
+  
+  // 获取拾取范围加成（像素）
+  getRadiusBonus(): number {
+    return this.radiusBonus * this.level;
+  }
+  
+  getLevelDescription(): string {
+    return `${this.name} Lv.${this.level}/${this.maxLevel} (+${this.getRadiusBonus()} 拾取范围)`;
+  }
+}
+
 // 自动追踪技能 - 闪电链
 export class LightningChainSkill extends BaseSkill {
   private damage: number;
+  private range: number;
   private bounceCount: number;
-  private castInterval: number;
-  private lastCastTime: number;
   
   constructor() {
     super(
+      'lightningChain',
       '闪电链',
       '攻击一个敌人并弹射到附近的其他敌人',
       'projectile',
@@ -317,41 +400,63 @@ export class LightningChainSkill extends BaseSkill {
       3 // 3秒冷却
     );
     this.damage = 15;
+    this.range = 300;
     this.bounceCount = 2;
-    this.castInterval = 3;
-    this.lastCastTime = 0;
   }
   
-  effect(target: any | null): void {
-    if (target && typeof target.takeDamage === 'function') {
-      const finalDamage = this.damage * this.level;
-      console.log(`闪电链命中 ${finalDamage} 伤害`);
-      target.takeDamage(finalDamage);
-      
-      // 实际实现中这里应该处理弹跳逻辑
-    }
+  effect(_target: Entity | null): void {
+    // 通过cast发射闪电投射物，命中后由伤害结算器结算
   }
   
-  update(deltaTime: number, owner: Player): void {
-    super.update(deltaTime, owner);
+  // 冷却结束时向视线内最近的敌人施放闪电链
+  update(deltaTime: number, owner: Player, context: SkillContext): void {
+    super.update(deltaTime, owner, context);
+    if (!this.isReady()) return;
     
-    this.lastCastTime += deltaTime;
-    if (this.lastCastTime >= this.castInterval && this.canUse()) {
-      const nearestMonster = this.findNearestMonster(owner);
-      if (nearestMonster) {
-        this.effect(nearestMonster);
-        this.triggerCooldown();
-        this.lastCastTime = 0;
-      }
+    const target = context.findNearestEnemy(owner, this.range, monster => context.hasLineOfSight(owner, monster));
+    if (target) {
+      context.spawnProjectile(this.cast(owner, target));
     }
   }
   
-  private findNearestMonster(_owner: Player): Monster | null {
-    return null; // 占位实现
+  // 获取施法范围
+  getRange(): number {
+    return this.range;
+  }
+  
+  // 是否可以施放（施法间隔由技能冷却决定，冷却时间会随存档保存）
+  isReady(): boolean {
+    return this.canUse();
+  }
+  
+  // 获取弹跳次数
+  getBounceCount(): number {
+    return this.bounceCount + Math.floor(this.level / 3);
+  }
+  
+  // 对目标施放闪电链：命中后弹射到最近的未命中怪物，并短暂眩晕目标
+  cast(owner: Player, target: Monster): ProjectileSpawnOptions {
+    this.triggerCooldown();
+    return {
+      kind: 'lightning',
+      owner,
+      x: owner.x,
+      y: owner.y,
+      target,
+      speed: 1500,
+      radius: 8,
+      lifetime: 1,
+      damage: this.damage * this.level,
+      damageType: 'lightning',
+      bounces: this.getBounceCount(),
+      bounceRange: 250,
+      homing: 20,
+      statusEffect: { type: 'stun', duration: 0.3, magnitude: 0 }
+    };
   }
   
   getLevelDescription(): string {
-    const bounce = this.bounceCount + Math.floor(this.level / 3);
+    const bounce = this.getBounceCount();
     return `${this.name} Lv.${this.level}/${this.maxLevel} (伤害 ${this.damage * this.level}, 弹跳${bounce}次)`;
   }
 }
@@ -361,10 +466,10 @@ export class PoisonAuraSkill extends BaseSkill {
   private damagePerSecond: number;
   private radius: number;
   private damageInterval: number;
-  private monsterDamageTimers: Map<string, number>;
   
   constructor() {
     super(
+      'poisonAura',
       '毒素光环',
       '对周围敌人持续造成毒素伤害',
       'aura',
@@ -372,36 +477,29 @@ export class PoisonAuraSkill extends BaseSkill {
     );
     this.damagePerSecond = 5;
     this.radius = 150;
-    this.damageInterval = 1; // 每秒造成一次伤害
-    this.monsterDamageTimers = new Map();
+    this.damageInterval = 1; // 每秒造成一次伤害（与中毒状态的生效间隔一致）
   }
   
-  effect(target: any | null): void {
-    if (target && typeof target.takeDamage === 'function') {
-      const damage = this.damagePerSecond * this.level;
-      console.log(`毒素伤害 ${damage} 伤害`);
-      target.takeDamage(damage);
-    }
+  effect(_target: Entity | null): void {
+    // 光环效果通过applyPoison施加中毒状态，伤害由状态效果周期结算
   }
   
-  update(deltaTime: number, _owner: Player): void {
-    super.update(deltaTime, _owner);
-    
-    // 实际实现中需要遍历范围内的怪物并应用毒素伤害
+  update(deltaTime: number, owner: Player, context: SkillContext): void {
+    super.update(deltaTime, owner, context);
+    context.findEnemiesInRadius(owner, this.radius).forEach(monster => this.applyPoison(owner, monster));
   }
   
-  // 应用毒素伤害到怪物
-  applyPoisonDamage(monster: Monster, deltaTime: number): void {
-    const monsterId = monster.id;
-    const currentTime = this.monsterDamageTimers.get(monsterId) || 0;
-    const newTime = currentTime + deltaTime;
+  // 获取光环范围
+  getRadius(): number {
+    return this.radius;
+  }
+  
+  // 怪物在光环范围内时施加（刷新）中毒状态，返回是否施加
+  applyPoison(owner: Player, monster: Monster): boolean {
+    if (distance(owner, monster) > this.radius) return false;
     
-    if (newTime >= this.damageInterval) {
-      this.effect(monster);
-      this.monsterDamageTimers.set(monsterId, 0);
-    } else {
-      this.monsterDamageTimers.set(monsterId, newTime);
-    }
+    monster.statusEffects.apply('poison', this.damageInterval + AURA_EFFECT_DURATION, this.damagePerSecond * this.level * this.damageInterval, owner);
+    return true;
   }
   
   getLevelDescription(): string {
@@ -422,20 +520,32 @@ export class SkillPool {
       () => new StrengthBuffSkill(),
       () => new DefenseBuffSkill(),
       () => new HealthBuffSkill(),
+      () => new MagnetSkill(),
       () => new LightningChainSkill(),
       () => new PoisonAuraSkill()
     ];
   }
   
   // 获取随机技能选项（用于升级时选择）
-  getRandomSkillOptions(count: number = 3): Skill[] {
+  getRandomSkillOptions(count: number = 3, rng: RandomStream = defaultRandom.stream(RANDOM_STREAMS.SKILLS)): Skill[] {
     // 洗牌技能池
-    const shuffled = [...this.availableSkills].sort(() => Math.random() - 0.5);
+    const shuffled = rng.shuffle(this.availableSkills);
     
     // 选择前count个并实例化
     return shuffled.slice(0, count).map(skillFactory => skillFactory());
   }
   
+  // 根据技能类型标识创建技能实例（用于读档还原）
+  createSkill(key: string): Skill | null {
+    for (const skillFactory of this.availableSkills) {
+      const skill = skillFactory();
+      if (skill.key === key) {
+        return skill;
+      }
+    }
+    return null;
+  }
+  
   // 根据ID获取技能实例
   getSkillById(skillId: string): Skill | null {
     // 遍历所有技能类型尝试匹配
@@ -0,0 +1,216 @@
+import type { Position } from '../types';
+
+// 可放入空间哈希的物体（按x、y、width、height构成的包围盒分桶，没有尺寸时视为一个点）
+export interface SpatialHashItem extends Position {
+  width?: number;
+  height?: number;
+}
+
+// 轴对齐矩形（x、y为左上角）
+export interface SpatialRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 默认格子大小（像素），略大于最大的怪物和障碍物
+export const DEFAULT_SPATIAL_CELL_SIZE = 128;
+
+// 格子坐标的偏移量，用于把二维格子坐标编码为一个数字键
+const CELL_KEY_OFFSET = 1 << 20;
+const CELL_KEY_STRIDE = CELL_KEY_OFFSET * 2;
+
+// 物体占据的格子范围
+interface CellRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// 格子中的条目（同一物体在它覆盖的每个格子中共享一个条目）
+interface SpatialHashEntry<T> {
+  item: T;
+  range: CellRange;
+}
+
+// 均匀网格空间哈希：按包围盒把物体放入覆盖的格子，范围查询只检查附近的格子
+export class SpatialHash<T extends SpatialHashItem> {
+  private cellSize: number;
+  private cells: Map<number, SpatialHashEntry<T>[]> = new Map();
+  private entries: Map<T, SpatialHashEntry<T>> = new Map();
+  
+  constructor(cellSize: number = DEFAULT_SPATIAL_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+  
+  // 物体数量
+  get size(): number {
+    return this.entries.size;
+  }
+  
+  // 是否包含指定物体
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+  
+  // 加入物体（已存在时等同于update）
+  insert(item: T): void {
+    if (this.entries.has(item)) {
+      this.update(item);
+      return;
+    }
+    
+    const entry = { item, range: this.getCellRange(item) };
+    this.entries.set(item, entry);
+    this.addToCells(entry);
+  }
+  
+  // 移除物体
+  remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    
+    this.removeFromCells(entry);
+    this.entries.delete(item);
+  }
+  
+  // 物体移动后更新所在格子（格子范围未变化时不做任何操作）
+  update(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      this.insert(item);
+      return;
+    }
+    
+    const range = entry.range;
+    const next = this.getCellRange(item);
+    if (next.minX === range.minX && next.minY === range.minY && next.maxX === range.maxX && next.maxY === range.maxY) {
+      return;
+    }
+    
+    this.removeFromCells(entry);
+    entry.range = next;
+    this.addToCells(entry);
+  }
+  
+  // 清空后重新加入所有物体
+  rebuild(items: Iterable<T>): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+  
+  // 清空
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+  
+  // 查询与矩形相交的物体（按包围盒判断）
+  queryAABB(rect: SpatialRect): T[] {
+    const results: T[] = [];
+    this.forEachCandidate(rect.x, rect.y, rect.x + rect.width, rect.y + rect.height, item => {
+      if (
+        item.x <= rect.x + rect.width &&
+        item.x + (item.width ?? 0) >= rect.x &&
+        item.y <= rect.y + rect.height &&
+        item.y + (item.height ?? 0) >= rect.y
+      ) {
+        results.push(item);
+      }
+    });
+    return results;
+  }
+  
+  // 查询位置（x、y）在圆形范围内的物体，与distance()的判断一致
+  queryRange(center: Position, radius: number): T[] {
+    const results: T[] = [];
+    const radiusSquared = radius * radius;
+    this.forEachCandidate(center.x - radius, center.y - radius, center.x + radius, center.y + radius, item => {
+      const dx = item.x - center.x;
+      const dy = item.y - center.y;
+      if (dx * dx + dy * dy <= radiusSquared) {
+        results.push(item);
+      }
+    });
+    return results;
+  }
+  
+  // 遍历覆盖区域内格子中的物体；跨多个格子的物体只在它与查询区域重叠的第一个格子中访问，
+  // 不需要额外的去重集合
+  private forEachCandidate(minX: number, minY: number, maxX: number, maxY: number, visit: (item: T) => void): void {
+    const startX = this.toCell(minX);
+    const startY = this.toCell(minY);
+    const endX = this.toCell(maxX);
+    const endY = this.toCell(maxY);
+    
+    for (let cx = startX; cx <= endX; cx++) {
+      for (let cy = startY; cy <= endY; cy++) {
+        const bucket = this.cells.get(this.getCellKey(cx, cy));
+        if (!bucket) continue;
+        
+        for (const { item, range } of bucket) {
+          if (cx !== Math.max(range.minX, startX) || cy !== Math.max(range.minY, startY)) continue;
+          visit(item);
+        }
+      }
+    }
+  }
+  
+  private addToCells(entry: SpatialHashEntry<T>): void {
+    const { range } = entry;
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.getCellKey(cx, cy);
+        const bucket = this.cells.get(key);
+        if (bucket) {
+          bucket.push(entry);
+        } else {
+          this.cells.set(key, [entry]);
+        }
+      }
+    }
+  }
+  
+  private removeFromCells(entry: SpatialHashEntry<T>): void {
+    const { range } = entry;
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.getCellKey(cx, cy);
+        const bucket = this.cells.get(key);
+        if (!bucket) continue;
+        
+        const index = bucket.indexOf(entry);
+        if (index >= 0) {
+          // 与末尾交换后删除，避免移动整个数组
+          bucket[index] = bucket[bucket.length - 1]!;
+          bucket.pop();
+        }
+        if (bucket.length === 0) {
+          this.cells.delete(key);
+        }
+      }
+    }
+  }
+  
+  // 物体占据的格子范围（包围盒覆盖的所有格子）
+  private getCellRange(item: T): CellRange {
+    return {
+      minX: this.toCell(item.x),
+      minY: this.toCell(item.y),
+      maxX: this.toCell(item.x + Math.max(0, item.width ?? 0)),
+      maxY: this.toCell(item.y + Math.max(0, item.height ?? 0))
+    };
+  }
+  
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+  
+  private getCellKey(cx: number, cy: number): number {
+    return (cx + CELL_KEY_OFFSET) * CELL_KEY_STRIDE + (cy + CELL_KEY_OFFSET);
+  }
+}
@@ -0,0 +1,159 @@
+import type { PlayerStat, StatModifier, StatSource, StatSourceKind } from '../types';
+
+// 所有角色属性
+export const PLAYER_STATS: readonly PlayerStat[] = [
+  'attack', 'defense', 'maxHealth', 'critChance', 'critDamage', 'lifesteal', 'moveSpeed', 'attackSpeed', 'xpGain'
+];
+
+// 属性显示名称
+export const PLAYER_STAT_NAMES: Record<PlayerStat, string> = {
+  attack: '攻击力',
+  defense: '防御力',
+  maxHealth: '最大生命值',
+  critChance: '暴击率',
+  critDamage: '暴击伤害',
+  lifesteal: '生命偷取',
+  moveSpeed: '移动速度',
+  attackSpeed: '攻击速度',
+  xpGain: '经验获取'
+};
+
+// 以百分比显示的属性（数值为小数或倍率）
+const PERCENT_PLAYER_STATS: ReadonlySet<PlayerStat> = new Set(['critChance', 'critDamage', 'lifesteal', 'xpGain']);
+
+// 属性的取值范围（最终值会被限制在范围内）
+const STAT_LIMITS: Partial<Record<PlayerStat, { min: number; max?: number }>> = {
+  attack: { min: 0 },
+  defense: { min: 0 },
+  maxHealth: { min: 1 },
+  critChance: { min: 0, max: 1 },
+  critDamage: { min: 1 },
+  lifesteal: { min: 0 },
+  moveSpeed: { min: 0 },
+  attackSpeed: { min: 0.1 },
+  xpGain: { min: 0 }
+};
+
+// 单个来源对某项属性的贡献
+export interface StatContribution {
+  id: string;
+  kind: StatSourceKind;
+  label: string;
+  flat: number;
+  percent: number;
+}
+
+// 格式化属性值（攻击速度显示为每秒次数，百分比属性显示为百分比）
+export function formatPlayerStat(stat: PlayerStat, value: number): string {
+  if (PERCENT_PLAYER_STATS.has(stat)) return `${Math.round(value * 1000) / 10}%`;
+  if (stat === 'attackSpeed') return `${value.toFixed(2)}次/秒`;
+  return `${Math.round(value)}`;
+}
+
+// 格式化带正负号的数值（比例加成和百分比属性显示为百分比）
+function formatSigned(value: number, percent: boolean): string {
+  const sign = value < 0 ? '-' : '+';
+  const amount = Math.abs(value);
+  if (percent) return `${sign}${Math.round(amount * 1000) / 10}%`;
+  return `${sign}${Math.round(amount * 100) / 100}`;
+}
+
+// 属性的来源明细：基础值、各来源的加成（固定值和比例加成分开显示）
+export function describeStatBreakdown(block: StatBlock, stat: PlayerStat): Array<{ label: string; value: string }> {
+  const rows = [{ label: '基础', value: formatPlayerStat(stat, block.getBase(stat)) }];
+  for (const contribution of block.getBreakdown(stat)) {
+    const parts: string[] = [];
+    if (contribution.flat !== 0) parts.push(formatSigned(contribution.flat, PERCENT_PLAYER_STATS.has(stat)));
+    if (contribution.percent !== 0) parts.push(`${formatSigned(contribution.percent, true)}（比例）`);
+    rows.push({ label: contribution.label, value: parts.join(' ') });
+  }
+  return rows;
+}
+
+// 按属性合计一组修正
+export function sumModifiers(modifiers: readonly StatModifier[], stat: PlayerStat): { flat: number; percent: number } {
+  let flat = 0;
+  let percent = 0;
+  for (const modifier of modifiers) {
+    if (modifier.stat !== stat) continue;
+    if (modifier.type === 'flat') flat += modifier.value;
+    else percent += modifier.value;
+  }
+  return { flat, percent };
+}
+
+// 属性表：基础属性加上各来源的修正，来源变化时清空缓存，读取时按需重新计算
+export class StatBlock {
+  private base: Record<PlayerStat, number>;
+  private sources: Map<string, StatSource> = new Map();
+  // 最终属性的缓存（为null时需要重新计算）
+  private cache: Record<PlayerStat, number> | null = null;
+  
+  constructor(base: Record<PlayerStat, number>) {
+    this.base = { ...base };
+  }
+  
+  // 获取最终属性
+  get(stat: PlayerStat): number {
+    if (!this.cache) {
+      this.cache = this.recompute();
+    }
+    return this.cache[stat];
+  }
+  
+  // 获取基础属性
+  getBase(stat: PlayerStat): number {
+    return this.base[stat];
+  }
+  
+  // 获取所有来源（按添加顺序）
+  getSources(): StatSource[] {
+    return [...this.sources.values()];
+  }
+  
+  // 添加或替换来源
+  setSource(source: StatSource): void {
+    this.sources.set(source.id, source);
+    this.cache = null;
+  }
+  
+  // 移除来源
+  removeSource(id: string): void {
+    if (this.sources.delete(id)) {
+      this.cache = null;
+    }
+  }
+  
+  // 移除所有来源
+  clearSources(): void {
+    this.sources.clear();
+    this.cache = null;
+  }
+  
+  // 各来源对某项属性的贡献（只包括有贡献的来源）
+  getBreakdown(stat: PlayerStat): StatContribution[] {
+    const contributions: StatContribution[] = [];
+    for (const source of this.sources.values()) {
+      const { flat, percent } = sumModifiers(source.modifiers, stat);
+      if (flat !== 0 || percent !== 0) {
+        contributions.push({ id: source.id, kind: source.kind, label: source.label, flat, percent });
+      }
+    }
+    return contributions;
+  }
+  
+  private recompute(): Record<PlayerStat, number> {
+    const modifiers = [...this.sources.values()].flatMap(source => source.modifiers);
+    const result = {} as Record<PlayerStat, number>;
+    for (const stat of PLAYER_STATS) {
+      const { flat, percent } = sumModifiers(modifiers, stat);
+      const limits = STAT_LIMITS[stat];
+      let value = (this.base[stat] + flat) * (1 + percent);
+      if (limits) {
+        value = Math.max(limits.min, Math.min(limits.max ?? Infinity, value));
+      }
+      result[stat] = value;
+    }
+    return result;
+  }
+}
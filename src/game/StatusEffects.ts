@@ -0,0 +1,165 @@
+import type { StatusEffect, StatusEffectType, StatusEffectSaveData, DamageType, Player, Monster } from '../types';
+
+// 状态效果定义
+export interface StatusEffectDefinition {
+  name: string;
+  // 显示在实体头顶的图标文字
+  icon: string;
+  color: string;
+  // refresh：只保留一个实例，重复施加时刷新；stack：每个来源一层
+  stacking: 'refresh' | 'stack';
+  maxStacks: number;
+  // 周期生效间隔（秒），0表示不周期生效
+  tickInterval: number;
+  // 周期伤害的伤害类型（未设置且heals为true时为周期治疗）
+  damageType?: DamageType;
+  heals?: boolean;
+}
+
+// 各状态效果的定义，magnitude的含义：
+//   slow：移动速度降低的比例；poison/burn：每次生效的伤害；stun：不使用；
+//   vulnerability：受到伤害提高的比例；regeneration：每次生效的治疗量
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  slow: { name: '减速', icon: '缓', color: '#4FC3F7', stacking: 'refresh', maxStacks: 1, tickInterval: 0 },
+  poison: { name: '中毒', icon: '毒', color: '#76FF03', stacking: 'stack', maxStacks: 5, tickInterval: 1, damageType: 'poison' },
+  burn: { name: '燃烧', icon: '燃', color: '#FF7043', stacking: 'refresh', maxStacks: 1, tickInterval: 0.5, damageType: 'fire' },
+  stun: { name: '眩晕', icon: '晕', color: '#FFEB3B', stacking: 'refresh', maxStacks: 1, tickInterval: 0 },
+  vulnerability: { name: '易伤', icon: '脆', color: '#E040FB', stacking: 'refresh', maxStacks: 1, tickInterval: 0 },
+  regeneration: { name: '再生', icon: '愈', color: '#69F0AE', stacking: 'refresh', maxStacks: 1, tickInterval: 1, heals: true }
+};
+
+// 减速后的最低移动速度比例
+const MIN_MOVE_MULTIPLIER = 0.1;
+
+// 周期计时的浮点误差容限
+const TICK_EPSILON = 1e-9;
+
+// 状态效果的一次周期生效（伤害交给DamageResolver，治疗直接回复）
+export interface StatusEffectTick {
+  type: StatusEffectType;
+  amount: number;
+  source: Player | Monster | null;
+  damageType?: DamageType;
+}
+
+// 实体身上的状态效果集合
+export class StatusEffects {
+  private effects: StatusEffect[] = [];
+  
+  // 施加状态效果：刷新型效果取更长的剩余时间和更高的强度；
+  // 叠加型效果同一来源刷新自己那一层，层数达到上限时替换剩余时间最短的一层
+  apply(type: StatusEffectType, duration: number, magnitude: number, source: Player | Monster | null = null): void {
+    const definition = STATUS_EFFECTS[type];
+    const existing = this.effects.find(effect =>
+      effect.type === type && (definition.stacking === 'refresh' || effect.source === source)
+    );
+    
+    if (existing) {
+      existing.remaining = Math.max(existing.remaining, duration);
+      existing.duration = Math.max(existing.remaining, existing.duration);
+      existing.magnitude = definition.stacking === 'refresh' ? Math.max(existing.magnitude, magnitude) : magnitude;
+      return;
+    }
+    
+    const stacks = this.effects.filter(effect => effect.type === type);
+    if (stacks.length >= definition.maxStacks) {
+      const shortest = stacks.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+      this.effects.splice(this.effects.indexOf(shortest), 1);
+    }
+    
+    this.effects.push({ type, remaining: duration, duration, magnitude, tickTimer: 0, source });
+  }
+  
+  // 推进状态效果（deltaTime单位：秒），返回本帧的周期生效
+  update(deltaTime: number): StatusEffectTick[] {
+    const ticks: StatusEffectTick[] = [];
+    
+    for (const effect of this.effects) {
+      const definition = STATUS_EFFECTS[effect.type];
+      if (definition.tickInterval > 0) {
+        effect.tickTimer += deltaTime;
+        while (effect.tickTimer + TICK_EPSILON >= definition.tickInterval) {
+          effect.tickTimer -= definition.tickInterval;
+          ticks.push({
+            type: effect.type,
+            amount: effect.magnitude,
+            source: effect.source,
+            damageType: definition.damageType
+          });
+        }
+      }
+      effect.remaining -= deltaTime;
+    }
+    
+    this.effects = this.effects.filter(effect => effect.remaining > TICK_EPSILON);
+    return ticks;
+  }
+  
+  // 是否带有指定效果
+  has(type: StatusEffectType): boolean {
+    return this.effects.some(effect => effect.type === type);
+  }
+  
+  // 是否被眩晕（无法移动和攻击）
+  isStunned(): boolean {
+    return this.has('stun');
+  }
+  
+  // 移动速度倍率（眩晕为0，多个减速取最强的一个）
+  getMoveMultiplier(): number {
+    if (this.isStunned()) return 0;
+    
+    const slow = this.getStrongest('slow');
+    return Math.max(MIN_MOVE_MULTIPLIER, 1 - slow);
+  }
+  
+  // 受到伤害的倍率（易伤）
+  getDamageTakenMultiplier(): number {
+    return 1 + this.getStrongest('vulnerability');
+  }
+  
+  // 获取所有状态效果
+  getEffects(): readonly StatusEffect[] {
+    return this.effects;
+  }
+  
+  // 移除指定类型的效果
+  remove(type: StatusEffectType): void {
+    this.effects = this.effects.filter(effect => effect.type !== type);
+  }
+  
+  // 清除所有效果
+  clear(): void {
+    this.effects = [];
+  }
+  
+  // 导出存档数据（来源只记录是否为玩家）
+  toSaveData(): StatusEffectSaveData[] {
+    return this.effects.map(effect => ({
+      type: effect.type,
+      remaining: effect.remaining,
+      duration: effect.duration,
+      magnitude: effect.magnitude,
+      tickTimer: effect.tickTimer,
+      fromPlayer: effect.source?.type === 'player'
+    }));
+  }
+  
+  // 从存档数据还原（怪物来源无法还原，记为无来源）
+  loadSaveData(data: StatusEffectSaveData[], player: Player): void {
+    this.effects = data.map(effect => ({
+      type: effect.type,
+      remaining: effect.remaining,
+      duration: effect.duration,
+      magnitude: effect.magnitude,
+      tickTimer: effect.tickTimer,
+      source: effect.fromPlayer ? player : null
+    }));
+  }
+  
+  private getStrongest(type: StatusEffectType): number {
+    return this.effects
+      .filter(effect => effect.type === type)
+      .reduce((strongest, effect) => Math.max(strongest, effect.magnitude), 0);
+  }
+}
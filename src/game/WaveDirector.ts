@@ -0,0 +1,356 @@
+import type { Monster, Player, Position, WaveDirectorSaveData } from '../types';
+import type { GameEventBus } from './EventBus';
+import type { SpatialRect } from './SpatialHash';
+import { MonsterSpawner, getMonsterDefinition, type MonsterRank } from './Monster';
+import { MONSTER_DEFINITIONS } from './data/bestiary';
+import { RANDOM_STREAMS, type GameRandom } from '../utils/random';
+import rawWaveConfig from './data/waves.json';
+
+// 难度曲线上的一个点（时间之间按线性插值，超过最后一个点后保持不变）
+export interface DifficultyPoint {
+  // 游戏开始后的时间（秒）
+  time: number;
+  // 普通刷怪的怪物数量上限
+  monsterCap: number;
+  // 普通刷怪的间隔（秒）
+  spawnInterval: number;
+  // 普通刷怪生成精英怪的几率
+  eliteChance: number;
+  // 怪物等级加成
+  levelBonus: number;
+}
+
+// 波次中的一组怪物：指定怪物ID，或指定级别后从生成表中选择
+export interface WaveGroup {
+  monster?: string;
+  rank?: MonsterRank;
+  count: number;
+}
+
+// 定时波次：从start开始每隔every秒出现一次，每组怪物在刷怪环上的同一位置附近生成
+export interface WaveDefinition {
+  id: string;
+  name: string;
+  start: number;
+  every: number;
+  // 同组怪物离集合点的最大距离（像素）
+  groupRadius: number;
+  levelBonus?: number;
+  groups: WaveGroup[];
+}
+
+// 刷怪配置（数据见data/waves.json，修改后无需改动代码）
+export interface WaveConfig {
+  // 刷怪点离玩家的距离范围（像素）
+  spawnRing: { min: number; max: number };
+  // 每只怪物寻找可用刷怪点的尝试次数
+  spawnAttempts: number;
+  // 怪物总数的硬上限（波次也受此限制）
+  hardMonsterCap: number;
+  curve: DifficultyPoint[];
+  // 玩家每升一级增加的怪物上限和刷怪速度比例
+  playerScaling: { monsterCapPerLevel: number; spawnRatePerLevel: number };
+  // 休整期：从start开始每隔every秒出现一次，持续duration秒，期间不刷怪，到期的波次推迟到休整结束
+  breathers: { start: number; every: number; duration: number };
+  waves: WaveDefinition[];
+}
+
+// 刷怪导演依赖的世界接口（由World提供）
+export interface WaveDirectorHost {
+  getPlayer(): Player;
+  getMonsterCount(): number;
+  // 区域是否可以放置怪物（已加载且没有障碍物）
+  isAreaClear(area: SpatialRect): boolean;
+  addMonster(monster: Monster): void;
+}
+
+// 波次中可以指定的怪物级别
+const MONSTER_RANKS: readonly MonsterRank[] = ['normal', 'elite', 'boss'];
+
+// 校验刷怪配置，配置有误时抛出错误（指出出错的字段）
+// 配置来自JSON，除取值范围外还要检查字段类型
+export function validateWaveConfig(config: WaveConfig): WaveConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid wave config: ${message}`);
+  };
+  const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const requireObject = (value: unknown, field: string) => {
+    if (!isObject(value)) fail(`${field} must be an object`);
+  };
+  const requireArray = (value: unknown, field: string) => {
+    if (!Array.isArray(value)) fail(`${field} must be an array`);
+  };
+  const requireNumber = (value: unknown, field: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${field} must be a number`);
+  };
+  const requireString = (value: unknown, field: string) => {
+    if (typeof value !== 'string' || value.length === 0) fail(`${field} must be a non-empty string`);
+  };
+  
+  requireObject(config, 'config');
+  requireObject(config.spawnRing, 'spawnRing');
+  requireNumber(config.spawnRing.min, 'spawnRing.min');
+  requireNumber(config.spawnRing.max, 'spawnRing.max');
+  requireNumber(config.spawnAttempts, 'spawnAttempts');
+  requireNumber(config.hardMonsterCap, 'hardMonsterCap');
+  requireArray(config.curve, 'curve');
+  config.curve.forEach((point, index) => {
+    requireObject(point, `curve[${index}]`);
+    for (const key of ['time', 'monsterCap', 'spawnInterval', 'eliteChance', 'levelBonus'] as const) {
+      requireNumber(point[key], `curve[${index}].${key}`);
+    }
+  });
+  requireObject(config.playerScaling, 'playerScaling');
+  requireNumber(config.playerScaling.monsterCapPerLevel, 'playerScaling.monsterCapPerLevel');
+  requireNumber(config.playerScaling.spawnRatePerLevel, 'playerScaling.spawnRatePerLevel');
+  requireObject(config.breathers, 'breathers');
+  for (const key of ['start', 'every', 'duration'] as const) {
+    requireNumber(config.breathers[key], `breathers.${key}`);
+  }
+  requireArray(config.waves, 'waves');
+  
+  if (config.spawnRing.min <= 0 || config.spawnRing.max < config.spawnRing.min) fail('spawnRing must satisfy 0 < min <= max');
+  if (config.spawnAttempts < 1) fail('spawnAttempts must be at least 1');
+  if (config.curve.length === 0) fail('curve must have at least one point');
+  config.curve.forEach((point, index) => {
+    if (index > 0 && point.time <= config.curve[index - 1]!.time) fail(`curve[${index}].time must be increasing`);
+    if (point.spawnInterval <= 0) fail(`curve[${index}].spawnInterval must be positive`);
+  });
+  if (config.breathers.every <= config.breathers.duration) fail('breathers.every must be longer than breathers.duration');
+  
+  const ids = new Set<string>();
+  config.waves.forEach((wave, index) => {
+    requireObject(wave, `waves[${index}]`);
+    requireString(wave.id, `waves[${index}].id`);
+    if (ids.has(wave.id)) fail(`duplicate wave id "${wave.id}"`);
+    ids.add(wave.id);
+    requireString(wave.name, `wave "${wave.id}" name`);
+    for (const key of ['start', 'every', 'groupRadius'] as const) {
+      requireNumber(wave[key], `wave "${wave.id}" ${key}`);
+    }
+    if (wave.levelBonus !== undefined) requireNumber(wave.levelBonus, `wave "${wave.id}" levelBonus`);
+    if (wave.every <= 0) fail(`wave "${wave.id}" every must be positive`);
+    requireArray(wave.groups, `wave "${wave.id}" groups`);
+    for (const group of wave.groups) {
+      requireObject(group, `wave "${wave.id}" group`);
+      if (!Number.isInteger(group.count) || group.count < 1) fail(`wave "${wave.id}" group count must be a positive integer`);
+      if ((group.monster === undefined) === (group.rank === undefined)) fail(`wave "${wave.id}" groups need exactly one of monster or rank`);
+      if (group.monster !== undefined && (typeof group.monster !== 'string' || !MONSTER_DEFINITIONS[group.monster])) {
+        fail(`wave "${wave.id}" has unknown monster "${group.monster}"`);
+      }
+      if (group.rank !== undefined && !MONSTER_RANKS.includes(group.rank)) {
+        fail(`wave "${wave.id}" has unknown rank "${group.rank}"`);
+      }
+    }
+  });
+  return config;
+}
+
+// 某一级别中最大的怪物尺寸（像素）
+function getMaxMonsterSize(rank: MonsterRank): number {
+  return Math.max(...Object.values(MONSTER_DEFINITIONS).filter(definition => definition.rank === rank).map(definition => definition.size.max));
+}
+
+// 默认刷怪配置
+export const WAVE_CONFIG: WaveConfig = validateWaveConfig(rawWaveConfig as WaveConfig);
+
+// 刷怪导演：按游戏时间和玩家等级调整普通刷怪的数量上限和速度，
+// 定时生成波次（虫群、精英小队、Boss），并在休整期暂停刷怪
+export class WaveDirector {
+  private config: WaveConfig;
+  private spawner: MonsterSpawner;
+  private random: GameRandom;
+  private events: GameEventBus;
+  // 游戏时间（秒）
+  private elapsed: number = 0;
+  // 距离下一次普通刷怪的时间（秒）
+  private spawnTimer: number = 0;
+  // 各波次已出现的次数
+  private waveCounts: Record<string, number> = {};
+  
+  constructor(spawner: MonsterSpawner, random: GameRandom, events: GameEventBus, config: WaveConfig = WAVE_CONFIG) {
+    this.spawner = spawner;
+    this.random = random;
+    this.events = events;
+    this.config = config;
+  }
+  
+  // 获取游戏时间（秒）
+  getElapsed(): number {
+    return this.elapsed;
+  }
+  
+  // 当前时间的难度（已按玩家等级调整怪物上限和刷怪间隔）
+  getDifficulty(playerLevel: number): DifficultyPoint {
+    const point = this.interpolateCurve(this.elapsed);
+    const levels = playerLevel - 1;
+    const { monsterCapPerLevel, spawnRatePerLevel } = this.config.playerScaling;
+    return {
+      ...point,
+      monsterCap: Math.min(this.config.hardMonsterCap, Math.floor(point.monsterCap + levels * monsterCapPerLevel)),
+      spawnInterval: point.spawnInterval / (1 + levels * spawnRatePerLevel)
+    };
+  }
+  
+  // 休整期的剩余时间（秒），不在休整期时为0
+  getBreatherRemaining(): number {
+    const { start, every, duration } = this.config.breathers;
+    if (this.elapsed < start) return 0;
+    
+    const intoCycle = (this.elapsed - start) % every;
+    return intoCycle < duration ? duration - intoCycle : 0;
+  }
+  
+  // 下一个将要出现的波次和出现时间（秒）
+  getNextWave(): { wave: WaveDefinition; time: number } | null {
+    let next: { wave: WaveDefinition; time: number } | null = null;
+    for (const wave of this.config.waves) {
+      const time = this.getWaveTime(wave);
+      if (!next || time < next.time) {
+        next = { wave, time };
+      }
+    }
+    return next;
+  }
+  
+  // 推进游戏时间，到期时生成波次或普通刷怪（deltaTime单位：秒）
+  update(deltaTime: number, host: WaveDirectorHost): void {
+    const wasResting = this.getBreatherRemaining() > 0;
+    this.elapsed += deltaTime;
+    
+    const player = host.getPlayer();
+    this.spawner.updateDifficulty(player.level);
+    
+    const breather = this.getBreatherRemaining();
+    if (breather > 0) {
+      if (!wasResting) {
+        this.events.emit('breatherStarted', { duration: breather });
+      }
+      return;
+    }
+    
+    for (const wave of this.config.waves) {
+      if (this.elapsed >= this.getWaveTime(wave)) {
+        this.waveCounts[wave.id] = (this.waveCounts[wave.id] ?? 0) + 1;
+        this.spawnWave(wave, host);
+      }
+    }
+    
+    const difficulty = this.getDifficulty(player.level);
+    this.spawnTimer -= deltaTime;
+    if (this.spawnTimer > 0 || host.getMonsterCount() >= difficulty.monsterCap) return;
+    
+    this.spawnTimer = difficulty.spawnInterval;
+    const rank: MonsterRank = this.random.stream(RANDOM_STREAMS.SPAWN).chance(difficulty.eliteChance) ? 'elite' : 'normal';
+    const level = this.spawner.rollLevel(rank) + difficulty.levelBonus;
+    const definitionId = this.spawner.pickFromTable(rank, level);
+    const point = this.findSpawnPoint(player, getMonsterDefinition(definitionId).size.max, host);
+    if (point) {
+      const monster = this.spawner.spawnDefinition(definitionId, point.x, point.y, level);
+      monster.seek(player);
+      host.addMonster(monster);
+    }
+  }
+  
+  // 导出存档数据
+  toSaveData(): WaveDirectorSaveData {
+    return {
+      elapsed: this.elapsed,
+      spawnTimer: this.spawnTimer,
+      waveCounts: { ...this.waveCounts }
+    };
+  }
+  
+  // 从存档数据还原
+  loadSaveData(data: WaveDirectorSaveData): void {
+    this.elapsed = data.elapsed;
+    this.spawnTimer = data.spawnTimer;
+    this.waveCounts = { ...data.waveCounts };
+  }
+  
+  // 生成波次：每组怪物在刷怪环上选一个集合点，组内怪物在集合点附近生成后赶往玩家
+  private spawnWave(wave: WaveDefinition, host: WaveDirectorHost): void {
+    const player = host.getPlayer();
+    const spawned: Monster[] = [];
+    const levelBonus = (wave.levelBonus ?? 0) + this.getDifficulty(player.level).levelBonus;
+    
+    for (const group of wave.groups) {
+      const rank = group.rank ?? getMonsterDefinition(group.monster!).rank;
+      // 集合点按该组可能生成的最大怪物检查（Boss组按Boss的尺寸）
+      const anchorSize = group.monster ? getMonsterDefinition(group.monster).size.max : getMaxMonsterSize(rank);
+      const anchor = this.findSpawnPoint(player, anchorSize, host);
+      if (!anchor) continue;
+      
+      for (let i = 0; i < group.count; i++) {
+        if (host.getMonsterCount() >= this.config.hardMonsterCap) break;
+        
+        const level = this.spawner.rollLevel(rank) + levelBonus;
+        const definitionId = group.monster ?? this.spawner.pickFromTable(rank, level);
+        const point = this.findPointNear(anchor, wave.groupRadius, getMonsterDefinition(definitionId).size.max, host);
+        if (!point) continue;
+        
+        const monster = this.spawner.spawnDefinition(definitionId, point.x, point.y, level);
+        monster.seek(player);
+        host.addMonster(monster);
+        spawned.push(monster);
+      }
+    }
+    
+    this.events.emit('waveStarted', { id: wave.id, name: wave.name, monsters: spawned });
+  }
+  
+  // 在刷怪环上寻找能放下指定尺寸怪物的刷怪点
+  private findSpawnPoint(center: Position, size: number, host: WaveDirectorHost): Position | null {
+    const { min, max } = this.config.spawnRing;
+    const rng = this.random.stream(RANDOM_STREAMS.SPAWN);
+    for (let attempt = 0; attempt < this.config.spawnAttempts; attempt++) {
+      const angle = rng.range(0, Math.PI * 2);
+      const distance = rng.range(min, max);
+      const point = { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance };
+      if (this.isSpawnPointClear(point, size, host)) return point;
+    }
+    return null;
+  }
+  
+  // 在集合点附近寻找可用的刷怪点
+  private findPointNear(anchor: Position, radius: number, size: number, host: WaveDirectorHost): Position | null {
+    const rng = this.random.stream(RANDOM_STREAMS.SPAWN);
+    for (let attempt = 0; attempt < this.config.spawnAttempts; attempt++) {
+      const angle = rng.range(0, Math.PI * 2);
+      const distance = attempt === 0 ? 0 : rng.range(0, radius);
+      const point = { x: anchor.x + Math.cos(angle) * distance, y: anchor.y + Math.sin(angle) * distance };
+      if (this.isSpawnPointClear(point, size, host)) return point;
+    }
+    return null;
+  }
+  
+  // 按怪物最大尺寸检查刷怪点是否会与障碍物重叠
+  private isSpawnPointClear(point: Position, size: number, host: WaveDirectorHost): boolean {
+    return host.isAreaClear({ x: point.x, y: point.y, width: size, height: size * 1.2 });
+  }
+  
+  // 波次下一次出现的时间（秒）
+  private getWaveTime(wave: WaveDefinition): number {
+    return wave.start + (this.waveCounts[wave.id] ?? 0) * wave.every;
+  }
+  
+  // 按时间在难度曲线上插值
+  private interpolateCurve(time: number): DifficultyPoint {
+    const curve = this.config.curve;
+    const nextIndex = curve.findIndex(point => point.time > time);
+    if (nextIndex === -1) return curve[curve.length - 1]!;
+    if (nextIndex === 0) return curve[0]!;
+    
+    const from = curve[nextIndex - 1]!;
+    const to = curve[nextIndex]!;
+    const t = (time - from.time) / (to.time - from.time);
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+    return {
+      time,
+      monsterCap: lerp(from.monsterCap, to.monsterCap),
+      spawnInterval: lerp(from.spawnInterval, to.spawnInterval),
+      eliteChance: lerp(from.eliteChance, to.eliteChance),
+      levelBonus: Math.floor(lerp(from.levelBonus, to.levelBonus))
+    };
+  }
+}
@@ -0,0 +1,777 @@
+import type { GameState, InputState, AttackEffect, Skill, Player, Monster, Collider, Position, WorldSaveData, DamageEvent, DamageResult, Projectile, BossTelegraph, LootDrop, EquipmentRarity, InventoryCommand } from '../types';
+import { MapGenerator } from './MapGenerator';
+import { Player as PlayerClass } from './Player';
+import { Monster as MonsterClass, MonsterSpawner, MAX_MONSTER_ATTACK_RANGE, MAX_MONSTER_WIDTH, MAX_MONSTER_SPEED, type MonsterHost, type MonsterSplitDefinition } from './Monster';
+import { skillPool } from './SkillSystem';
+import { EventBus, type GameEventBus } from './EventBus';
+import { DamageResolver } from './DamageSystem';
+import { STATUS_EFFECTS } from './StatusEffects';
+import { ProjectileSystem, PROJECTILE_COLORS, type ProjectileImpact } from './Projectiles';
+import { WorldSkillContext } from './SkillContext';
+import { SpatialHash, type SpatialRect } from './SpatialHash';
+import { Pathfinder } from './Pathfinding';
+import type { BossHost } from './Boss';
+import { WaveDirector, type WaveDirectorHost } from './WaveDirector';
+import { LootSystem } from './Loot';
+import { LootTableSystem } from './LootTables';
+import { getEquippedStat } from './EquipmentSystem';
+import { GameRandom, RANDOM_STREAMS } from '../utils/random';
+import { isInArc, distance, distanceToSegment } from '../utils/gameUtils';
+
+// 固定模拟步长（单位：秒）
+export const FIXED_TIMESTEP = 1 / 60;
+
+// 玩家近战攻击范围（像素）和扇形角度（弧度）
+export const PLAYER_ATTACK_RANGE = 150;
+export const PLAYER_ATTACK_ARC = Math.PI * 2 / 3;
+
+// 攻击冷却中按住攻击时的固定基础伤害
+export const COOLDOWN_ATTACK_DAMAGE = 25;
+
+// 玩家丢弃的装备落在面前的距离（像素）
+export const PLAYER_DROP_DISTANCE = 50;
+
+// 取得胜利所需的分数
+export const VICTORY_SCORE = 10000;
+
+// 创建空输入（无移动、无攻击）
+export function createEmptyInput(): InputState {
+  return { moveX: 0, moveY: 0, attack: false, aimX: 0, aimY: 0, pickup: false };
+}
+
+// 游戏世界（纯模拟层，不依赖DOM和canvas）
+export class World {
+  private random: GameRandom;
+  // 游戏事件总线（UI、音效、成就等在此订阅）
+  private events: GameEventBus = new EventBus();
+  // 伤害结算器（所有攻击都通过它结算）
+  private damageResolver: DamageResolver;
+  private gameState: GameState;
+  private mapGenerator: MapGenerator;
+  private monsterSpawner: MonsterSpawner;
+  // 刷怪导演（按游戏时间和玩家等级控制刷怪和波次）
+  private director: WaveDirector;
+  private isGameOver: boolean = false;
+  private skillOptions: Skill[] = [];
+  private attackEffects: AttackEffect[] = [];
+  private projectiles: ProjectileSystem = new ProjectileSystem();
+  // 障碍物的空间索引（已加载区块变化时重建）
+  private obstacleIndex: SpatialHash<Collider> = new SpatialHash();
+  private obstacleIndexRevision: number = -1;
+  // 怪物的空间索引（每帧AI更新前和怪物移动后重建，怪物死亡时移除）
+  private monsterIndex: SpatialHash<Monster> = new SpatialHash();
+  // 怪物寻路（按障碍物索引构建网格，请求分摊到多帧执行）
+  private pathfinder: Pathfinder = new Pathfinder(this.obstacleIndex);
+  // Boss技能的地面预警
+  private telegraphs: BossTelegraph[] = [];
+  // 地面上的装备和经验球
+  private loot: LootSystem = new LootSystem();
+  // 掉落表系统（怪物掉落判定和保底计数）
+  private lootTables: LootTableSystem = new LootTableSystem();
+  // Boss控制器使用的世界接口
+  private bossHost: BossHost = {
+    spawnTelegraph: (telegraph) => this.telegraphs.push(telegraph),
+    summonAdds: (boss, count, radius) => this.summonAdds(boss, count, radius),
+    dealDamage: (event) => this.applyDamage(event)
+  };
+  // 怪物攻击使用的世界接口
+  private monsterHost: MonsterHost = {
+    spawnProjectile: (options) => this.projectiles.spawn(options),
+    spawnEffect: (x, y, damage, color) => this.createAttackEffect(x, y, damage, color),
+    dealDamage: (event) => this.applyDamage(event),
+    removeMonster: (monster) => this.removeMonster(monster)
+  };
+  // 刷怪导演使用的世界接口
+  private directorHost: WaveDirectorHost = {
+    getPlayer: () => this.gameState.player,
+    getMonsterCount: () => this.gameState.monsters.length,
+    isAreaClear: (area) => this.mapGenerator.isAreaClear(area),
+    addMonster: (monster) => this.gameState.monsters.push(monster)
+  };
+  // 传给技能和装备效果的世界查询接口
+  private skillContext: WorldSkillContext = new WorldSkillContext({
+    getMonsters: () => this.gameState.monsters,
+    getMonsterIndex: () => this.monsterIndex,
+    getObstacleIndex: () => this.obstacleIndex,
+    spawnProjectile: (options) => this.projectiles.spawn(options),
+    spawnEffect: (x, y, damage, color) => this.createAttackEffect(x, y, damage, color),
+    dealDamage: (event) => this.applyDamage(event)
+  });
+  
+  constructor(seed: number = Date.now()) {
+    this.random = new GameRandom(seed);
+    this.damageResolver = new DamageResolver(this.random, this.events);
+    this.damageResolver.addOnHitHook(result => this.applyLifesteal(result));
+    this.mapGenerator = new MapGenerator(seed);
+    this.monsterSpawner = new MonsterSpawner(1, this.random, this.events);
+    this.director = new WaveDirector(this.monsterSpawner, this.random, this.events);
+    this.gameState = this.initializeGameState();
+    this.spawnInitialMonsters();
+    this.monsterIndex.rebuild(this.gameState.monsters);
+  }
+  
+  private initializeGameState(): GameState {
+    // 创建玩家
+    const player = new PlayerClass(0, 0, this.random, this.events);
+    
+    return {
+      player,
+      monsters: [],
+      obstacles: [],
+      equipment: [],
+      keys: {},
+      camera: { x: 0, y: 0 },
+      score: 0,
+      gameOver: false,
+      lastMonsterCount: 0
+    };
+  }
+  
+  private spawnInitialMonsters(): void {
+    // 生成一些初始怪物
+    for (let i = 0; i < 5; i++) {
+      const angle = (i / 5) * Math.PI * 2;
+      const radius = 500;
+      const x = this.gameState.player.x + Math.cos(angle) * radius;
+      const y = this.gameState.player.y + Math.sin(angle) * radius;
+      
+      const monster = this.monsterSpawner.spawnMonster(x, y);
+      monster.seek(this.gameState.player);
+      this.gameState.monsters.push(monster);
+    }
+  }
+  
+  // 获取世界种子
+  getSeed(): number {
+    return this.random.seed;
+  }
+  
+  // 获取游戏事件总线
+  getEvents(): GameEventBus {
+    return this.events;
+  }
+  
+  // 获取游戏状态
+  getState(): GameState {
+    return this.gameState;
+  }
+  
+  // 获取地图生成器
+  getMapGenerator(): MapGenerator {
+    return this.mapGenerator;
+  }
+  
+  // 获取刷怪导演
+  getDirector(): WaveDirector {
+    return this.director;
+  }
+  
+  // 获取掉落表系统
+  getLootTables(): LootTableSystem {
+    return this.lootTables;
+  }
+  
+  // 获取当前攻击特效
+  getAttackEffects(): AttackEffect[] {
+    return this.attackEffects;
+  }
+  
+  // 获取投射物（包括正在淡出的闪电弧线）
+  getProjectiles(): readonly Projectile[] {
+    return this.projectiles.getProjectiles();
+  }
+  
+  // 获取地面上的掉落物
+  getLootDrops(): readonly LootDrop[] {
+    return this.loot.getDrops();
+  }
+  
+  // 获取区域内的掉落物（用于渲染裁剪）
+  getLootInArea(area: SpatialRect): LootDrop[] {
+    return this.loot.getDropsInArea(area);
+  }
+  
+  // 稀有度是否自动拾取
+  isAutoPickup(rarity: EquipmentRarity): boolean {
+    return this.loot.isAutoPickup(rarity);
+  }
+  
+  // 设置稀有度是否自动拾取（会影响模拟，录像中需要记录）
+  setAutoPickup(rarity: EquipmentRarity, enabled: boolean): void {
+    this.loot.setAutoPickup(rarity, enabled);
+  }
+  
+  // 获取Boss技能的地面预警
+  getTelegraphs(): readonly BossTelegraph[] {
+    return this.telegraphs;
+  }
+  
+  // 获取正在与玩家战斗的Boss（有多个时取最近的一个）
+  getActiveBoss(): Monster | null {
+    const player = this.gameState.player;
+    let nearest: Monster | null = null;
+    let nearestDistance = Infinity;
+    for (const monster of this.gameState.monsters) {
+      if (!monster.boss?.isInCombat()) continue;
+      const dist = distance(player, monster);
+      if (dist < nearestDistance) {
+        nearest = monster;
+        nearestDistance = dist;
+      }
+    }
+    return nearest;
+  }
+  
+  // 获取区域内的怪物（区域按怪物最大尺寸扩展，用于渲染裁剪）
+  getMonstersInArea(area: SpatialRect): Monster[] {
+    return this.monsterIndex.queryAABB({
+      x: area.x - MAX_MONSTER_WIDTH,
+      y: area.y - MAX_MONSTER_WIDTH,
+      width: area.width + MAX_MONSTER_WIDTH * 2,
+      height: area.height + MAX_MONSTER_WIDTH * 2
+    });
+  }
+  
+  // 获取区域内的障碍物
+  getObstaclesInArea(area: SpatialRect): Collider[] {
+    this.refreshObstacleIndex();
+    return this.obstacleIndex.queryAABB(area);
+  }
+  
+  // 获取范围内飞行中的投射物
+  getProjectilesInRange(center: Position, radius: number): Projectile[] {
+    return this.projectiles.findProjectilesInRange(center, radius);
+  }
+  
+  // 获取待选择的技能选项
+  getSkillOptions(): Skill[] {
+    return this.skillOptions;
+  }
+  
+  // 是否正在等待玩家选择技能
+  isAwaitingSkillChoice(): boolean {
+    return this.skillOptions.length > 0;
+  }
+  
+  // 游戏是否结束
+  isOver(): boolean {
+    return this.isGameOver;
+  }
+  
+  // 是否已取得胜利
+  isVictory(): boolean {
+    return this.gameState.score >= VICTORY_SCORE;
+  }
+  
+  // 导出存档数据
+  toSaveData(): WorldSaveData {
+    return {
+      seed: this.random.seed,
+      score: this.gameState.score,
+      player: this.gameState.player.toSaveData(),
+      monsters: this.gameState.monsters.map(monster => monster.toSaveData()),
+      projectiles: this.projectiles.toSaveData(this.gameState.monsters),
+      telegraphs: this.telegraphs.map(({ source, ...telegraph }) => ({
+        ...telegraph,
+        source: this.gameState.monsters.indexOf(source)
+      })),
+      director: this.director.toSaveData(),
+      loot: this.loot.toSaveData(),
+      lootTables: this.lootTables.toSaveData(),
+      pathRequests: this.pathfinder.getQueue().map(monster => this.gameState.monsters.indexOf(monster)),
+      skillOptions: this.skillOptions.map(skill => skill.key),
+      chunks: this.mapGenerator.getLoadedChunkCoordinates(),
+      random: this.random.getState()
+    };
+  }
+  
+  // 从存档数据创建世界
+  static fromSaveData(data: WorldSaveData): World {
+    const world = new World(data.seed);
+    const state = world.gameState;
+    
+    state.score = data.score;
+    state.player.loadSaveData(data.player);
+    state.monsters = data.monsters.map(monsterData => {
+      const monster = MonsterClass.fromSaveData(monsterData, world.random, world.events);
+      if (monsterData.hasTarget) monster.target = state.player;
+      monster.statusEffects.loadSaveData(monsterData.statusEffects, state.player);
+      return monster;
+    });
+    world.monsterIndex.rebuild(state.monsters);
+    world.projectiles.loadSaveData(data.projectiles, state.monsters, state.player);
+    world.telegraphs = data.telegraphs.flatMap(({ source, ...telegraph }) => {
+      const monster = state.monsters[source];
+      return monster ? [{ ...telegraph, source: monster }] : [];
+    });
+    world.director.loadSaveData(data.director);
+    world.loot.loadSaveData(data.loot);
+    world.lootTables.loadSaveData(data.lootTables);
+    world.pathfinder.clearQueue();
+    data.pathRequests.forEach(index => {
+      const monster = state.monsters[index];
+      if (monster) world.pathfinder.request(monster);
+    });
+    world.skillOptions = data.skillOptions
+      .map(key => skillPool.createSkill(key))
+      .filter((skill): skill is Skill => skill !== null);
+    
+    // 最后恢复随机流状态，覆盖重建实体时消耗的随机数
+    world.random.restoreState(data.random);
+    world.mapGenerator.loadChunks(data.chunks);
+    world.checkGameOver();
+    return world;
+  }
+  
+  // 推进一帧模拟（deltaTime单位：秒）
+  step(deltaTime: number, input: InputState): void {
+    if (this.isGameOver || this.isVictory()) return;
+    
+    this.refreshObstacleIndex();
+    this.updatePlayer(deltaTime, input);
+    this.director.update(deltaTime, this.directorHost);
+    this.updateMonsters(deltaTime);
+    this.updateSkills(deltaTime);
+    this.updateProjectiles(deltaTime);
+    this.updateTelegraphs(deltaTime);
+    this.updateStatusEffects(deltaTime);
+    this.checkCollisions(input);
+    this.loot.update(deltaTime, this.gameState.player, input.pickup, this.events);
+    this.updateMap();
+    this.checkGameOver();
+    this.updateAttackEffects(deltaTime);
+    this.checkSkillPoints();
+  }
+  
+  // 选择技能选项，返回是否选择成功
+  chooseSkill(index: number): boolean {
+    const selectedSkill = this.skillOptions[index];
+    if (!selectedSkill) return false;
+    
+    // 学习选择的技能
+    this.gameState.player.learnSkill(selectedSkill);
+    
+    // 关闭技能选择
+    this.skillOptions = [];
+    return true;
+  }
+  
+  // 执行物品栏操作（装备、卸下或丢弃到玩家面前的地面上），返回是否执行成功
+  // 会影响模拟，录像中需要记录
+  applyInventoryCommand(command: InventoryCommand): boolean {
+    const player = this.gameState.player;
+    const item = (command.from === 'equipped' ? player.equipment : player.inventory)[command.index];
+    if (!item) return false;
+    
+    switch (command.action) {
+      case 'equip':
+        if (command.from !== 'bag') return false;
+        player.equipItem(item.id);
+        return true;
+      case 'unequip':
+        if (command.from !== 'equipped') return false;
+        player.unequipItem(item.id);
+        return true;
+      case 'drop': {
+        if (!player.removeItem(item.id)) return false;
+        this.loot.dropPlayerItem({
+          x: player.x + player.width / 2 + Math.cos(player.facing) * PLAYER_DROP_DISTANCE,
+          y: player.y + player.height / 2 + Math.sin(player.facing) * PLAYER_DROP_DISTANCE
+        }, item);
+        this.events.emit('itemDropped', { player, item });
+        return true;
+      }
+    }
+  }
+  
+  private updatePlayer(deltaTime: number, input: InputState): void {
+    const player = this.gameState.player;
+    
+    const speed = player.getMoveSpeed() * deltaTime;
+    
+    const dx = input.moveX * speed;
+    const dy = input.moveY * speed;
+    
+    // 只检查移动范围附近的障碍物
+    const obstacles = this.getNearbyObstacles(player, Math.max(Math.abs(dx), Math.abs(dy)));
+    
+    player.move(dx, dy, obstacles);
+    
+    // 更新朝向：优先瞄准方向，没有瞄准时跟随移动方向，静止时保持不变
+    if (input.aimX !== 0 || input.aimY !== 0) {
+      player.facing = Math.atan2(input.aimY, input.aimX);
+    } else if (input.moveX !== 0 || input.moveY !== 0) {
+      player.facing = Math.atan2(input.moveY, input.moveX);
+    }
+    
+    player.update(deltaTime);
+  }
+  
+  private updateMonsters(deltaTime: number): void {
+    const player = this.gameState.player;
+    
+    // 单帧内怪物移动距离的上限
+    const moveMargin = MAX_MONSTER_SPEED * deltaTime;
+    
+    // 包含本帧新生成的怪物
+    this.monsterIndex.rebuild(this.gameState.monsters);
+    
+    const canSee = (from: Position, to: Position) => this.skillContext.hasLineOfSight(from, to);
+    for (const monster of this.gameState.monsters) {
+      monster.update(deltaTime);
+      
+      // 自己发现玩家时通知附近的同伴
+      if (monster.think(deltaTime, player, canSee)) {
+        this.alertPack(monster, player);
+      }
+      
+      // Boss的阶段、狂暴和技能
+      monster.boss?.update(deltaTime, monster, player, this.bossHost, this.events);
+      
+      // 目标移动到其他格子时重新规划路径
+      this.pathfinder.updateMonster(monster);
+    }
+    
+    // 每帧只处理有限数量的寻路请求
+    this.pathfinder.processRequests(monster => this.monsterIndex.has(monster));
+    
+    for (const monster of this.gameState.monsters) {
+      monster.move(deltaTime, this.getNearbyObstacles(monster, moveMargin));
+    }
+    
+    // 推进冲锋和自爆引信（自爆的怪物会从列表中移除，因此遍历副本）
+    for (const monster of [...this.gameState.monsters]) {
+      monster.updateAttack(deltaTime, player, this.monsterHost);
+    }
+    
+    // 按怪物列表顺序重建索引，保证查询结果的顺序只取决于当前状态（读档后结果一致）
+    this.monsterIndex.rebuild(this.gameState.monsters);
+  }
+  
+  // 在Boss周围召唤小怪，召唤出的小怪直接追击玩家
+  private summonAdds(boss: Monster, count: number, radius: number): void {
+    const player = this.gameState.player;
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      const add = this.monsterSpawner.spawnMinion(
+        boss.x + Math.cos(angle) * radius,
+        boss.y + Math.sin(angle) * radius,
+        boss.level
+      );
+      add.alert(player);
+      this.gameState.monsters.push(add);
+      this.createAttackEffect(add.x, add.y, 0, '#9C27B0');
+    }
+  }
+  
+  // 推进Boss技能预警，预警结束时对范围内的玩家结算伤害
+  private updateTelegraphs(deltaTime: number): void {
+    const player = this.gameState.player;
+    
+    for (const telegraph of this.telegraphs) {
+      telegraph.remaining -= deltaTime;
+      if (telegraph.remaining > 0 || telegraph.damage <= 0) continue;
+      
+      const inArea = telegraph.kind === 'circle'
+        ? distance(player, telegraph) <= telegraph.radius
+        : distanceToSegment(player, telegraph, { x: telegraph.toX, y: telegraph.toY }) <= telegraph.radius;
+      if (inArea && player.health > 0) {
+        const result = this.applyDamage({
+          source: telegraph.source,
+          target: player,
+          amount: telegraph.damage,
+          damageType: 'physical',
+          tags: ['boss', 'aoe']
+        });
+        this.createAttackEffect(player.x, player.y, result.amount, '#FF1744');
+      }
+    }
+    
+    this.telegraphs = this.telegraphs.filter(telegraph => telegraph.remaining > 0);
+  }
+  
+  // 通知怪物附近的同伴（只通知一层，被通知的怪物不会继续通知）
+  private alertPack(monster: Monster, player: Player): void {
+    const radius = monster.getBehavior().alertRadius;
+    if (radius <= 0) return;
+    
+    for (const other of this.monsterIndex.queryRange(monster, radius)) {
+      if (other !== monster) {
+        other.alert(player);
+      }
+    }
+  }
+  
+  // 已加载区块变化时重建障碍物索引
+  private refreshObstacleIndex(): void {
+    const revision = this.mapGenerator.getRevision();
+    if (revision === this.obstacleIndexRevision) return;
+    
+    this.obstacleIndex.rebuild(this.mapGenerator.getAllActiveObstacles());
+    this.obstacleIndexRevision = revision;
+    this.pathfinder.invalidate();
+  }
+  
+  // 获取实体包围盒向外扩展margin后范围内的障碍物
+  private getNearbyObstacles(entity: Collider, margin: number): Collider[] {
+    return this.obstacleIndex.queryAABB({
+      x: entity.x - margin,
+      y: entity.y - margin,
+      width: entity.width + margin * 2,
+      height: entity.height + margin * 2
+    });
+  }
+  
+  private handleMonsterDeath(monster: Monster): void {
+    this.events.emit('monsterKilled', { monster, experience: monster.experienceReward });
+    
+    // 增加分数
+    this.gameState.score += monster.experienceReward;
+    
+    // 经验和装备掉落在死亡位置，由玩家拾取
+    const center = { x: monster.x + monster.width / 2, y: monster.y + monster.height / 2 };
+    this.loot.dropExperience(center, monster.experienceReward);
+    this.loot.dropItems(center, monster.dropLoot(this.lootTables), this.random.stream(RANDOM_STREAMS.LOOT));
+    
+    this.removeMonster(monster);
+    
+    // 分裂怪物死亡时在周围生成小怪
+    const split = monster.getDefinition().split;
+    if (split) {
+      this.splitMonster(monster, split);
+    }
+  }
+  
+  // 从世界中移除怪物（不给予经验和掉落）
+  private removeMonster(monster: Monster): void {
+    const index = this.gameState.monsters.indexOf(monster);
+    if (index >= 0) {
+      this.gameState.monsters.splice(index, 1);
+    }
+    this.monsterIndex.remove(monster);
+    
+    // Boss死亡时移除它的技能预警
+    if (monster.boss) {
+      this.telegraphs = this.telegraphs.filter(telegraph => telegraph.source !== monster);
+    }
+  }
+  
+  // 在死亡位置周围生成分裂出的怪物，分裂前在追击玩家时分裂出的怪物也追击玩家
+  private splitMonster(monster: Monster, split: MonsterSplitDefinition): void {
+    for (let i = 0; i < split.count; i++) {
+      const angle = (i / split.count) * Math.PI * 2;
+      const child = this.monsterSpawner.spawnDefinition(
+        split.into,
+        monster.x + Math.cos(angle) * split.radius,
+        monster.y + Math.sin(angle) * split.radius,
+        monster.level
+      );
+      if (monster.target) child.alert(monster.target);
+      this.gameState.monsters.push(child);
+    }
+  }
+  
+  // 更新技能和已装备物品的特殊效果
+  private updateSkills(deltaTime: number): void {
+    const player = this.gameState.player;
+    
+    player.skills.forEach(skill => skill.update(deltaTime, player, this.skillContext));
+    player.equipment.forEach(item => {
+      if (item.isEquipped) item.update?.(deltaTime, player, this.skillContext);
+    });
+  }
+  
+  // 推进玩家和怪物身上的状态效果，周期伤害通过伤害结算器结算
+  private updateStatusEffects(deltaTime: number): void {
+    const entities: Array<Player | Monster> = [this.gameState.player, ...this.gameState.monsters];
+    
+    for (const entity of entities) {
+      for (const tick of entity.statusEffects.update(deltaTime)) {
+        if (tick.damageType) {
+          if (entity.health <= 0) continue;
+          this.applyDamage({
+            source: tick.source,
+            target: entity,
+            amount: tick.amount,
+            damageType: tick.damageType,
+            isCritical: false,
+            tags: ['status', 'dot', tick.type]
+          });
+        } else if (STATUS_EFFECTS[tick.type].heals) {
+          entity.health = Math.min(entity.maxHealth, entity.health + tick.amount);
+        }
+      }
+    }
+  }
+  
+  // 推进投射物，对命中的怪物结算伤害并附加状态效果
+  private updateProjectiles(deltaTime: number): void {
+    const impacts = this.projectiles.update(deltaTime, this.monsterIndex, this.obstacleIndex, this.gameState.player);
+    impacts.forEach(impact => this.applyProjectileImpact(impact));
+  }
+  
+  private applyProjectileImpact(impact: ProjectileImpact): void {
+    const color = PROJECTILE_COLORS[impact.kind];
+    if (impact.isExplosion) {
+      this.createAttackEffect(impact.x, impact.y, 0, color);
+    }
+    
+    // 敌方投射物命中玩家
+    if (impact.player) {
+      const result = this.applyDamage({
+        source: impact.shooter,
+        target: impact.player,
+        amount: impact.damage,
+        damageType: impact.damageType,
+        tags: ['projectile', impact.kind]
+      });
+      this.createAttackEffect(impact.player.x, impact.player.y, result.amount, color);
+    }
+    
+    for (const monster of impact.monsters) {
+      // 同一帧内可能已被其他投射物击杀
+      if (monster.health <= 0) continue;
+      
+      const result = this.applyDamage({
+        source: impact.owner,
+        target: monster,
+        amount: impact.damage,
+        damageType: impact.damageType,
+        tags: ['skill', 'projectile', impact.kind]
+      });
+      if (!result.isKill && impact.statusEffect) {
+        const { type, duration, magnitude } = impact.statusEffect;
+        monster.statusEffects.apply(type, duration, magnitude, impact.owner);
+      }
+      this.createAttackEffect(monster.x, monster.y, result.amount, color);
+    }
+  }
+  
+  // 检查玩家是否有未使用的技能点，如果有则生成技能选项
+  private checkSkillPoints(): void {
+    if (this.gameState.player.canLearnSkills() && this.skillOptions.length === 0) {
+      // 获取三个随机技能选项
+      this.skillOptions = skillPool.getRandomSkillOptions(3, this.random.stream(RANDOM_STREAMS.SKILLS));
+    }
+  }
+  
+  private checkCollisions(input: InputState): void {
+    // 检查玩家与怪物的碰撞
+    this.checkPlayerAttacks(input);
+    this.checkMonsterAttacks();
+  }
+  
+  private checkPlayerAttacks(input: InputState): void {
+    const player = this.gameState.player;
+    
+    // 眩晕时无法攻击
+    if (input.attack && !player.statusEffects.isStunned()) {
+      // 在玩家前方创建攻击特效
+      this.createAttackEffect(
+        player.x + Math.cos(player.facing) * PLAYER_ATTACK_RANGE / 2,
+        player.y + Math.sin(player.facing) * PLAYER_ATTACK_RANGE / 2,
+        0,
+        '#FF4500'
+      );
+      
+      // 直接执行攻击，不依赖canAttack检查，确保攻击能够触发
+      // 冷却中时使用固定基础伤害，不叠加攻击力也不暴击
+      const isFullAttack = player.performAttack();
+      
+      // 只检查攻击范围内的怪物，命中玩家朝向前方扇形内的怪物
+      for (const monster of this.monsterIndex.queryRange(player, PLAYER_ATTACK_RANGE)) {
+        if (isInArc(player, player.facing, PLAYER_ATTACK_ARC, PLAYER_ATTACK_RANGE, monster)) {
+          try {
+            // 对怪物造成伤害（死亡时在applyDamage中处理）
+            const result = this.applyDamage(isFullAttack
+              ? { source: player, target: monster, amount: 0, damageType: 'physical', tags: ['melee', 'attack'] }
+              : { source: player, target: monster, amount: COOLDOWN_ATTACK_DAMAGE, damageType: 'physical', isCritical: false, tags: ['melee'] }
+            );
+            
+            // 在怪物位置创建伤害特效
+            this.createAttackEffect(monster.x, monster.y, result.amount, result.isCritical ? '#FFD700' : '#FF6B6B');
+            
+            // 装备的火焰伤害词缀：完整攻击命中存活的怪物时追加火焰伤害
+            const fireDamage = getEquippedStat(player, 'fireDamage');
+            if (isFullAttack && fireDamage > 0 && monster.health > 0) {
+              const fire = this.applyDamage({ source: player, target: monster, amount: fireDamage, damageType: 'fire', isCritical: false, tags: ['melee', 'affix'] });
+              this.createAttackEffect(monster.x, monster.y - 20, fire.amount, PROJECTILE_COLORS.fireball);
+            }
+          } catch (error) {
+            console.error('攻击怪物时出错:', error);
+          }
+        }
+      }
+    }
+  }
+  
+  private checkMonsterAttacks(): void {
+    const player = this.gameState.player;
+    
+    // 只有攻击范围内的怪物可能攻击玩家
+    for (const monster of this.monsterIndex.queryRange(player, MAX_MONSTER_ATTACK_RANGE)) {
+      // 怪物在自己的攻击范围内且冷却结束时按攻击方式攻击玩家
+      monster.attackTarget(player, this.monsterHost);
+    }
+  }
+  
+  // 通过伤害结算器造成伤害，击杀怪物时处理死亡逻辑
+  private applyDamage(event: DamageEvent): DamageResult {
+    const result = this.damageResolver.resolve(event);
+    if (result.isKill && result.target.type === 'monster') {
+      this.handleMonsterDeath(result.target);
+    }
+    return result;
+  }
+  
+  // 命中回调：玩家造成伤害时按生命偷取属性（吸血光环和装备）回复生命
+  private applyLifesteal(result: DamageResult): void {
+    const player = this.gameState.player;
+    if (result.source !== player) return;
+    
+    const lifesteal = player.lifesteal;
+    if (lifesteal > 0) {
+      player.health = Math.min(player.health + result.amount * lifesteal, player.maxHealth);
+    }
+  }
+  
+  private updateMap(): void {
+    const player = this.gameState.player;
+    this.mapGenerator.updateActiveChunks(player.x, player.y);
+  }
+  
+  private checkGameOver(): void {
+    if (this.gameState.player.health <= 0 && !this.isGameOver) {
+      this.isGameOver = true;
+      this.gameState.gameOver = true;
+      this.events.emit('playerDied', { player: this.gameState.player, score: this.gameState.score });
+    }
+  }
+  
+  // 更新攻击效果
+  private updateAttackEffects(deltaTime: number): void {
+    for (let i = this.attackEffects.length - 1; i >= 0; i--) {
+      const effect = this.attackEffects[i];
+      if (effect) {
+        effect.lifetime -= deltaTime;
+        
+        // 移除过期的效果
+        if (effect.lifetime <= 0) {
+          this.attackEffects.splice(i, 1);
+        }
+      }
+    }
+  }
+  
+  // 创建攻击效果
+  private createAttackEffect(x: number, y: number, damage: number, color: string): void {
+    this.attackEffects.push({
+      x,
+      y,
+      damage,
+      lifetime: 0.5, // 持续0.5秒
+      maxLifetime: 0.5,
+      color
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import type { AffixDefinition } from '../Affixes';
+
+// 装备词缀：新增词缀时在此添加一项
+// （tiers按物品等级从低到高排列，比例类属性的数值为小数，如0.05表示5%）
+export const AFFIX_DEFINITIONS: Record<string, AffixDefinition> = {
+  // 前缀
+  sharp: {
+    id: 'sharp',
+    slot: 'prefix',
+    name: '锋利的',
+    stat: 'attack',
+    weight: 100,
+    types: ['WEAPON', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 3, max: 6 },
+      { minLevel: 10, min: 7, max: 12 },
+      { minLevel: 20, min: 13, max: 20 },
+      { minLevel: 30, min: 21, max: 30 }
+    ]
+  },
+  blazing: {
+    id: 'blazing',
+    slot: 'prefix',
+    name: '炽热的',
+    stat: 'fireDamage',
+    weight: 60,
+    types: ['WEAPON'],
+    tiers: [
+      { minLevel: 1, min: 4, max: 8 },
+      { minLevel: 10, min: 9, max: 16 },
+      { minLevel: 20, min: 17, max: 28 },
+      { minLevel: 30, min: 29, max: 42 }
+    ]
+  },
+  swift: {
+    id: 'swift',
+    slot: 'prefix',
+    name: '迅捷的',
+    stat: 'attackSpeed',
+    weight: 60,
+    types: ['WEAPON', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 0.04, max: 0.07 },
+      { minLevel: 10, min: 0.08, max: 0.11 },
+      { minLevel: 20, min: 0.12, max: 0.15 },
+      { minLevel: 30, min: 0.16, max: 0.2 }
+    ]
+  },
+  sturdy: {
+    id: 'sturdy',
+    slot: 'prefix',
+    name: '坚固的',
+    stat: 'defense',
+    weight: 100,
+    types: ['ARMOR', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 2, max: 4 },
+      { minLevel: 10, min: 5, max: 9 },
+      { minLevel: 20, min: 10, max: 15 },
+      { minLevel: 30, min: 16, max: 24 }
+    ]
+  },
+  vital: {
+    id: 'vital',
+    slot: 'prefix',
+    name: '强健的',
+    stat: 'maxHealth',
+    weight: 100,
+    types: ['ARMOR', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 10, max: 20 },
+      { minLevel: 10, min: 21, max: 40 },
+      { minLevel: 20, min: 41, max: 70 },
+      { minLevel: 30, min: 71, max: 110 }
+    ]
+  },
+  // 后缀
+  leech: {
+    id: 'leech',
+    slot: 'suffix',
+    name: '吸血',
+    stat: 'lifesteal',
+    weight: 50,
+    types: ['WEAPON', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 0.01, max: 0.02 },
+      { minLevel: 10, min: 0.02, max: 0.03 },
+      { minLevel: 20, min: 0.03, max: 0.05 }
+    ]
+  },
+  precision: {
+    id: 'precision',
+    slot: 'suffix',
+    name: '精准',
+    stat: 'criticalRate',
+    weight: 70,
+    types: ['WEAPON', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 0.01, max: 0.03 },
+      { minLevel: 10, min: 0.03, max: 0.05 },
+      { minLevel: 20, min: 0.05, max: 0.08 }
+    ]
+  },
+  wind: {
+    id: 'wind',
+    slot: 'suffix',
+    name: '疾风',
+    stat: 'moveSpeed',
+    weight: 70,
+    types: ['ARMOR', 'ACCESSORY'],
+    tiers: [
+      { minLevel: 1, min: 0.03, max: 0.05 },
+      { minLevel: 10, min: 0.05, max: 0.08 },
+      { minLevel: 20, min: 0.08, max: 0.12 }
+    ]
+  },
+  fortitude: {
+    id: 'fortitude',
+    slot: 'suffix',
+    name: '坚韧',
+    stat: 'maxHealth',
+    weight: 80,
+    types: ['WEAPON', 'ARMOR'],
+    tiers: [
+      { minLevel: 1, min: 8, max: 15 },
+      { minLevel: 10, min: 16, max: 30 },
+      { minLevel: 20, min: 31, max: 55 }
+    ]
+  },
+  haste: {
+    id: 'haste',
+    slot: 'suffix',
+    name: '急速',
+    stat: 'attackSpeed',
+    weight: 50,
+    types: ['ARMOR'],
+    tiers: [
+      { minLevel: 1, min: 0.03, max: 0.05 },
+      { minLevel: 10, min: 0.05, max: 0.08 },
+      { minLevel: 20, min: 0.08, max: 0.1 }
+    ]
+  }
+};
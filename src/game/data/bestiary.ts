@@ -0,0 +1,163 @@
+import type { MonsterDefinition, MonsterRank, MonsterSpawnEntry } from '../Monster';
+
+// 默认属性成长：每级+20%
+const DEFAULT_SCALING = {
+  health: { linear: 0.2 },
+  attack: { linear: 0.2 },
+  defense: { linear: 0.2 },
+  experience: { linear: 0.2 }
+};
+
+// 普通怪物的默认行为参数
+const NORMAL_BEHAVIOR = { aggroRange: 200, leashRange: 700, fleeHealthRatio: 0.25, alertRadius: 250, wanderRadius: 150 };
+
+// 怪物图鉴：新增怪物时在此添加一项，并加入下方的生成表
+// （stats为1级时的属性，按scaling随等级成长；攻击冷却、蓄力和引信时间单位为秒；
+//  每种怪物有自己的掉落表，稀有度权重会按怪物级别和等级向高稀有度偏移，见LootTables.ts）
+export const MONSTER_DEFINITIONS: Record<string, MonsterDefinition> = {
+  grunt: {
+    id: 'grunt',
+    name: '小怪',
+    rank: 'normal',
+    spriteKey: 'monster_normal',
+    color: '#FF6B6B',
+    size: { min: 30, max: 40 },
+    stats: { health: 50, attack: 5, defense: 2, speed: 150, experience: 10 },
+    scaling: DEFAULT_SCALING,
+    behavior: NORMAL_BEHAVIOR,
+    attack: { kind: 'melee', range: 60, cooldown: 1 },
+    loot: { id: 'grunt', dropChance: 0.2, rolls: 1, rarityWeights: { common: 60, uncommon: 28, rare: 10, epic: 2 } }
+  },
+  archer: {
+    id: 'archer',
+    name: '骷髅弓手',
+    rank: 'normal',
+    spriteKey: 'monster_archer',
+    color: '#B0BEC5',
+    size: { min: 30, max: 36 },
+    stats: { health: 35, attack: 6, defense: 1, speed: 130, experience: 14 },
+    scaling: DEFAULT_SCALING,
+    behavior: { ...NORMAL_BEHAVIOR, aggroRange: 320, fleeHealthRatio: 0 },
+    attack: { kind: 'ranged', range: 300, minRange: 140, cooldown: 1.8, projectileSpeed: 380, projectileRadius: 6 },
+    loot: { id: 'archer', dropChance: 0.2, rolls: 1, rarityWeights: { common: 55, uncommon: 30, rare: 12, epic: 3 } }
+  },
+  charger: {
+    id: 'charger',
+    name: '狂暴野猪',
+    rank: 'normal',
+    spriteKey: 'monster_charger',
+    color: '#A1887F',
+    size: { min: 38, max: 46 },
+    stats: { health: 70, attack: 8, defense: 3, speed: 120, experience: 16 },
+    scaling: DEFAULT_SCALING,
+    behavior: { ...NORMAL_BEHAVIOR, fleeHealthRatio: 0 },
+    attack: { kind: 'charge', range: 260, cooldown: 4, windup: 0.6, speed: 520, duration: 0.6, damageMultiplier: 2 },
+    loot: { id: 'charger', dropChance: 0.22, rolls: 1, rarityWeights: { common: 55, uncommon: 30, rare: 12, epic: 3 } }
+  },
+  splitter: {
+    id: 'splitter',
+    name: '分裂史莱姆',
+    rank: 'normal',
+    spriteKey: 'monster_splitter',
+    color: '#66BB6A',
+    size: { min: 40, max: 48 },
+    stats: { health: 60, attack: 5, defense: 1, speed: 110, experience: 12 },
+    scaling: DEFAULT_SCALING,
+    resistances: { poison: 0.5 },
+    behavior: { ...NORMAL_BEHAVIOR, fleeHealthRatio: 0 },
+    attack: { kind: 'melee', range: 60, cooldown: 1.2 },
+    split: { into: 'slimeling', count: 2, radius: 30 },
+    loot: { id: 'splitter', dropChance: 0.15, rolls: 1, rarityWeights: { common: 65, uncommon: 27, rare: 8 } }
+  },
+  slimeling: {
+    id: 'slimeling',
+    name: '小史莱姆',
+    rank: 'normal',
+    spriteKey: 'monster_slimeling',
+    color: '#A5D6A7',
+    size: { min: 20, max: 24 },
+    stats: { health: 20, attack: 3, defense: 0, speed: 170, experience: 4 },
+    scaling: DEFAULT_SCALING,
+    resistances: { poison: 0.5 },
+    behavior: { ...NORMAL_BEHAVIOR, fleeHealthRatio: 0 },
+    attack: { kind: 'melee', range: 50, cooldown: 0.8 },
+    loot: { id: 'slimeling', dropChance: 0.05, rolls: 1, rarityWeights: { common: 80, uncommon: 20 } }
+  },
+  bomber: {
+    id: 'bomber',
+    name: '自爆甲虫',
+    rank: 'normal',
+    spriteKey: 'monster_bomber',
+    color: '#FF7043',
+    size: { min: 26, max: 32 },
+    stats: { health: 25, attack: 10, defense: 0, speed: 190, experience: 12 },
+    scaling: DEFAULT_SCALING,
+    resistances: { fire: -0.5 },
+    behavior: { ...NORMAL_BEHAVIOR, aggroRange: 260, fleeHealthRatio: 0 },
+    attack: { kind: 'explode', range: 50, fuse: 0.8, radius: 100, damageMultiplier: 3 },
+    loot: { id: 'bomber', dropChance: 0.12, rolls: 1, rarityWeights: { common: 60, uncommon: 30, rare: 10 } }
+  },
+  shieldbearer: {
+    id: 'shieldbearer',
+    name: '盾卫',
+    rank: 'normal',
+    spriteKey: 'monster_shieldbearer',
+    color: '#5C6BC0',
+    size: { min: 42, max: 50 },
+    stats: { health: 120, attack: 7, defense: 6, speed: 90, experience: 24 },
+    scaling: { ...DEFAULT_SCALING, health: { linear: 0.25 }, defense: { linear: 0.25 } },
+    behavior: { ...NORMAL_BEHAVIOR, fleeHealthRatio: 0 },
+    attack: { kind: 'melee', range: 60, cooldown: 1.4 },
+    shield: { ratio: 0.6, regenDelay: 3, regenRate: 0.25 },
+    loot: { id: 'shieldbearer', dropChance: 0.3, rolls: 1, rarityWeights: { common: 45, uncommon: 33, rare: 18, epic: 4 } }
+  },
+  elite: {
+    id: 'elite',
+    name: '精英怪',
+    rank: 'elite',
+    spriteKey: 'monster_elite',
+    color: '#FFD700',
+    size: { min: 40, max: 60 },
+    stats: { health: 400, attack: 40, defense: 16, speed: 120, experience: 100 },
+    scaling: DEFAULT_SCALING,
+    resistances: { poison: 0.25 },
+    behavior: { aggroRange: 300, leashRange: 900, fleeHealthRatio: 0, alertRadius: 300, wanderRadius: 200 },
+    attack: { kind: 'melee', range: 60, cooldown: 1.5 },
+    loot: { id: 'elite', dropChance: 0.35, rolls: 2, rarityWeights: { uncommon: 30, rare: 45, epic: 20, legendary: 5 } }
+  },
+  boss: {
+    id: 'boss',
+    name: 'Boss',
+    rank: 'boss',
+    spriteKey: 'monster_boss',
+    color: '#9C27B0',
+    size: { min: 80, max: 120 },
+    stats: { health: 5000, attack: 250, defense: 100, speed: 80, experience: 1000 },
+    scaling: DEFAULT_SCALING,
+    resistances: { fire: 0.3, lightning: 0.3, poison: 0.5 },
+    behavior: { aggroRange: 400, leashRange: 1200, fleeHealthRatio: 0, alertRadius: 0, wanderRadius: 100 },
+    attack: { kind: 'melee', range: 60, cooldown: 2 },
+    loot: { id: 'boss', dropChance: 0.5, rolls: 2, rarityWeights: { rare: 40, epic: 40, legendary: 20 }, guaranteed: { count: 1, minRarity: 'epic' } }
+  }
+};
+
+// 未指定或找不到定义时使用的怪物
+export const DEFAULT_MONSTER_ID = 'grunt';
+
+// 各级别怪物的生成表：生成器先按几率决定级别，再按权重从对应的表中选择（低于minLevel时不会出现）
+export const SPAWN_TABLES: Record<MonsterRank, MonsterSpawnEntry[]> = {
+  normal: [
+    { monster: 'grunt', weight: 40 },
+    { monster: 'archer', weight: 15 },
+    { monster: 'splitter', weight: 12 },
+    { monster: 'charger', weight: 12, minLevel: 2 },
+    { monster: 'bomber', weight: 10, minLevel: 3 },
+    { monster: 'shieldbearer', weight: 8, minLevel: 4 }
+  ],
+  elite: [
+    { monster: 'elite', weight: 1 }
+  ],
+  boss: [
+    { monster: 'boss', weight: 1 }
+  ]
+};
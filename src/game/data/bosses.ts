@@ -0,0 +1,45 @@
+import type { BossDefinition } from '../Boss';
+
+// Boss定义：新增Boss时在此添加一项，怪物生成器会从中随机选择
+// （阶段按healthThreshold从高到低排列，第一个阶段的healthThreshold为1）
+export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
+  stoneGolem: {
+    id: 'stoneGolem',
+    name: '岩石巨像',
+    color: '#8D6E63',
+    enrageTime: 90,
+    enrageMultiplier: 1.5,
+    abilities: {
+      slam: { cooldown: 6, windup: 1.2, radius: 120, damage: 40 },
+      charge: { cooldown: 10, windup: 0.8, speed: 600, distance: 400, width: 80, damage: 50 },
+      summon: { cooldown: 18, windup: 1, count: 3, radius: 120 }
+    },
+    phases: [
+      { healthThreshold: 1, abilities: ['slam'], speedMultiplier: 1, damageMultiplier: 1 },
+      { healthThreshold: 0.6, abilities: ['charge', 'slam'], speedMultiplier: 1.2, damageMultiplier: 1.2 },
+      { healthThreshold: 0.3, abilities: ['summon', 'charge', 'slam'], speedMultiplier: 1.4, damageMultiplier: 1.5 }
+    ]
+  },
+  shadowLord: {
+    id: 'shadowLord',
+    name: '暗影领主',
+    color: '#4A148C',
+    enrageTime: 75,
+    enrageMultiplier: 1.75,
+    abilities: {
+      slam: { cooldown: 4, windup: 1, radius: 90, damage: 30 },
+      charge: { cooldown: 7, windup: 0.6, speed: 750, distance: 500, width: 70, damage: 40 },
+      summon: { cooldown: 12, windup: 1.2, count: 4, radius: 150 }
+    },
+    phases: [
+      { healthThreshold: 1, abilities: ['summon', 'slam'], speedMultiplier: 1, damageMultiplier: 1 },
+      { healthThreshold: 0.5, abilities: ['summon', 'charge', 'slam'], speedMultiplier: 1.3, damageMultiplier: 1.3 }
+    ]
+  }
+};
+
+// 未指定或找不到定义时使用的Boss
+export const DEFAULT_BOSS_ID = 'stoneGolem';
+
+// 所有Boss定义ID（生成时从中随机选择）
+export const BOSS_IDS = Object.keys(BOSS_DEFINITIONS);
@@ -1,4 +1,11 @@
 // 游戏类型定义
+import type { RandomStreamState } from '../utils/random';
+import type { StatusEffects } from '../game/StatusEffects';
+import type { ProjectileSpawnOptions } from '../game/Projectiles';
+import type { BossController, BossAbilityKey } from '../game/Boss';
+import type { MonsterDefinition, MonsterHost } from '../game/Monster';
+import type { LootTableSystem } from '../game/LootTables';
+import type { StatBlock } from '../game/Stats';
 
 // 位置接口
 export interface Position {
@@ -24,30 +31,83 @@ export interface Entity extends Collider {
   health: number;
   maxHealth: number;
   level: number;
+  // 各伤害类型的抗性（0.2表示减免20%，负数表示易伤）
+  resistances?: Partial<Record<DamageType, number>>;
   update: (deltaTime: number) => void;
   draw: (ctx: CanvasRenderingContext2D, camera: Position) => void;
-  takeDamage: (amount: number) => boolean; // 返回是否死亡
+  // 扣除已结算的伤害（减免由DamageResolver处理），返回是否死亡
+  takeDamage: (amount: number) => boolean;
 }
 
-// 角色接口
+// 角色属性（比例类属性为小数；攻击速度为每秒攻击次数，经验获取为倍率）
+export type PlayerStat = 'attack' | 'defense' | 'maxHealth' | 'critChance' | 'critDamage' | 'lifesteal' | 'moveSpeed' | 'attackSpeed' | 'xpGain';
+
+// 属性修正：最终值 = (基础值 + flat之和) × (1 + percent之和)
+export interface StatModifier {
+  stat: PlayerStat;
+  type: 'flat' | 'percent';
+  value: number;
+}
+
+// 属性来源类型
+export type StatSourceKind = 'level' | 'item' | 'skill' | 'effect';
+
+// 属性来源：一组来自同一来源（升级、装备、技能、状态效果）的修正
+export interface StatSource {
+  id: string;
+  kind: StatSourceKind;
+  label: string;
+  modifiers: StatModifier[];
+}
+
+// 角色接口（属性为计入所有修正后的最终值）
 export interface Player extends Entity {
   type: 'player';
-  attack: number;
-  defense: number;
+  readonly attack: number;
+  readonly defense: number;
+  readonly critChance: number;
+  readonly critDamage: number;
+  readonly lifesteal: number;
+  readonly moveSpeed: number;
+  readonly attackSpeed: number;
+  readonly xpGain: number;
   experience: number;
   experienceToNextLevel: number;
+  // 朝向角度（弧度，0为向右，顺时针为正）
+  facing: number;
+  statusEffects: StatusEffects;
   skills: Skill[];
+  // 已装备的物品（每种类型最多一件）
   equipment: Equipment[];
-  // 添加缺失的inventory属性
+  // 背包中未装备的物品
   inventory: Equipment[];
   move: (dx: number, dy: number, obstacles: Collider[]) => void;
+  getMoveSpeed: () => number;
+  getPickupRadius: () => number;
+  // 装备、技能或状态效果变化后重新同步属性来源（来源未变化时不重新计算）
+  refreshStats: () => void;
+  // 属性表（用于显示各来源的加成）
+  getStatBlock: () => StatBlock;
+  // 角色概况（等级、生命、经验和剩余技能点）
+  getStatsSummary: () => { [key: string]: string };
   gainExperience: (amount: number) => void;
   levelUp: () => void;
   learnSkill: (skill: Skill) => void;
+  // 是否还有剩余技能点
+  canLearnSkills: () => boolean;
   addEquipment: (equipment: Equipment) => void;
+  // 装备背包中的物品（已装备时卸下）
+  equipItem: (equipmentId: string) => void;
+  // 卸下已装备的物品放回背包
+  unequipItem: (equipmentId: string) => void;
+  // 从已装备物品或背包中移除物品，返回被移除的物品
+  removeItem: (equipmentId: string) => Equipment | null;
   // 添加攻击相关方法
   canAttack: () => boolean;
-  performAttack: () => number;
+  performAttack: () => boolean;
+  // 存档相关方法
+  toSaveData: () => PlayerSaveData;
+  loadSaveData: (data: PlayerSaveData) => void;
 }
 
 // 怪物接口
@@ -59,9 +119,47 @@ export interface Monster extends Entity {
   isElite: boolean;
   isBoss: boolean;
   target?: Player;
+  statusEffects: StatusEffects;
+  // Boss的技能和阶段控制（普通怪物为null）
+  boss: BossController | null;
+  // 当前护盾值和最大护盾值（没有护盾的怪物为0）
+  shield: number;
+  maxShield: number;
+  getName: () => string;
+  getDefinition: () => Readonly<MonsterDefinition>;
   move: (deltaTime: number, obstacles: Collider[]) => void;
-  attackTarget: (target: Player) => void;
-  dropLoot: () => Equipment[];
+  // 冷却结束且在攻击范围内时按攻击方式发起攻击，返回是否发起了攻击
+  attackTarget: (target: Player, host: MonsterHost) => boolean;
+  // 推进进行中的攻击（冲锋、自爆引信）
+  updateAttack: (deltaTime: number, player: Player, host: MonsterHost) => void;
+  // 更新AI状态，返回本帧是否因自己发现玩家而开始追击
+  think: (deltaTime: number, player: Player, canSee: (from: Position, to: Position) => boolean) => boolean;
+  // 被警觉（同伴通知），休息和游荡中的怪物开始追击
+  alert: (player: Player) => void;
+  getAIState: () => MonsterAIState;
+  getBehavior: () => Readonly<MonsterBehavior>;
+  // 设置寻路路径和路径对应的目标格子（空路径表示直接朝目标移动）
+  setPath: (path: Position[], goal: Position | null) => void;
+  getPathGoal: () => Position | null;
+  dropLoot: (tables: LootTableSystem) => Equipment[];
+  toSaveData: () => MonsterSaveData;
+}
+
+// 怪物AI状态
+export type MonsterAIState = 'idle' | 'wander' | 'seek' | 'chase' | 'attack' | 'flee' | 'return';
+
+// 怪物行为参数
+export interface MonsterBehavior {
+  // 发现玩家的距离（需要视线）
+  aggroRange: number;
+  // 离开出生点超过该距离时放弃追击并返回
+  leashRange: number;
+  // 生命比例低于该值时逃跑（0表示从不逃跑）
+  fleeHealthRatio: number;
+  // 发现玩家时通知该范围内的同伴（0表示不通知）
+  alertRadius: number;
+  // 游荡时离出生点的最大距离
+  wanderRadius: number;
 }
 
 // 障碍物接口
@@ -73,6 +171,8 @@ export interface Obstacle extends Entity {
 // 技能接口
 export interface Skill {
   id: string;
+  // 技能类型标识（同类技能共享，用于升级匹配和存档）
+  key: string;
   name: string;
   description: string;
   type: 'aura' | 'projectile' | 'buff' | 'debuff';
@@ -81,7 +181,53 @@ export interface Skill {
   cooldown: number;
   currentCooldown: number;
   effect: (target: Entity | null) => void;
-  update: (deltaTime: number, owner: Player) => void;
+  update: (deltaTime: number, owner: Player, context: SkillContext) => void;
+  // 被动技能提供的属性修正
+  getStatModifiers: () => StatModifier[];
+  // 技能名称、等级和当前等级的效果
+  getLevelDescription: () => string;
+}
+
+// 技能上下文：传给技能和装备效果的世界查询接口
+export interface SkillContext {
+  // 所有存活的敌人
+  getEnemies: () => readonly Monster[];
+  // 范围内最近的敌人（可附加筛选条件）
+  findNearestEnemy: (from: Position, range: number, filter?: (monster: Monster) => boolean) => Monster | null;
+  findEnemiesInRadius: (center: Position, radius: number) => Monster[];
+  // facing为扇形中心方向，arc为扇形总角度（弧度）
+  findEnemiesInCone: (origin: Position, facing: number, arc: number, range: number) => Monster[];
+  // 按离起点的距离排序
+  findEnemiesInLine: (from: Position, to: Position, width: number) => Monster[];
+  hasLineOfSight: (from: Position, to: Position) => boolean;
+  spawnProjectile: (options: ProjectileSpawnOptions) => void;
+  spawnEffect: (x: number, y: number, color: string, damage?: number) => void;
+  dealDamage: (event: DamageEvent) => DamageResult;
+}
+
+// 装备属性（比例类属性为小数，如0.05表示5%）
+export interface EquipmentStats {
+  attack?: number;
+  defense?: number;
+  maxHealth?: number;
+  // 暴击率和生命偷取比例
+  criticalRate?: number;
+  lifesteal?: number;
+  // 攻击速度和移动速度加成比例
+  attackSpeed?: number;
+  moveSpeed?: number;
+  // 近战命中时额外造成的火焰伤害
+  fireDamage?: number;
+}
+
+// 装备属性名
+export type EquipmentStat = keyof EquipmentStats;
+
+// 装备上随机出的词缀（tier从1开始，数值越大越强）
+export interface EquipmentAffix {
+  id: string;
+  tier: number;
+  value: number;
 }
 
 // 装备接口
@@ -91,18 +237,13 @@ export interface Equipment {
   description: string;
   type: 'WEAPON' | 'ARMOR' | 'ACCESSORY';
   rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
-  stats: {
-    attack?: number;
-    defense?: number;
-    health?: number;
-    attackSpeed?: number;
-    movementSpeed?: number;
-  };
+  // 基础属性与词缀数值之和
+  stats: EquipmentStats;
+  affixes: EquipmentAffix[];
   isEquipped: boolean;
   specialEffect?: string;
-  // 添加缺失的方法定义
-  applyEffect?: (player: Player) => void;
-  removeEffect?: (player: Player) => void;
+  // 装备时每帧调用的特殊效果
+  update?: (deltaTime: number, owner: Player, context: SkillContext) => void;
   getRarityColor?: () => string;
   getRarityMultiplier?: () => number;
   getRarityLevel?: () => number;
@@ -123,6 +264,413 @@ export interface GameState {
   lastMonsterCount: number;
 }
 
+// 单帧输入接口（由渲染层采集后传入模拟）
+export interface InputState {
+  // 移动方向分量，单位为移动速度的倍数
+  moveX: number;
+  moveY: number;
+  attack: boolean;
+  // 瞄准方向（鼠标或右摇杆），均为0表示没有瞄准，朝向跟随移动方向
+  aimX: number;
+  aimY: number;
+  // 按住拾取键时也拾取未开启自动拾取的稀有度
+  pickup: boolean;
+}
+
+// 攻击特效接口
+export interface AttackEffect {
+  x: number;
+  y: number;
+  damage: number;
+  lifetime: number;
+  maxLifetime: number;
+  color: string;
+}
+
+// 伤害类型
+export type DamageType = 'physical' | 'fire' | 'lightning' | 'poison';
+
+// 伤害事件：一次待结算的伤害
+export interface DamageEvent {
+  source: Player | Monster | null;
+  target: Player | Monster;
+  // 基础伤害
+  amount: number;
+  // 伤害倍率（Boss阶段、冲锋等），作用于基础伤害和攻击力之和，默认1
+  multiplier?: number;
+  damageType: DamageType;
+  // 未指定时由结算器按攻击者暴击率判定
+  isCritical?: boolean;
+  // 伤害标签（melee、skill、dot等），带'attack'时基础伤害叠加攻击者攻击力
+  tags?: string[];
+}
+
+// 伤害结算结果
+export interface DamageResult {
+  source: Player | Monster | null;
+  target: Player | Monster;
+  damageType: DamageType;
+  // 暴击后、减免前的伤害
+  baseAmount: number;
+  // 被防御或抗性减免的伤害
+  mitigated: number;
+  // 目标实际受到的伤害
+  amount: number;
+  isCritical: boolean;
+  // 是否由这次伤害击杀
+  isKill: boolean;
+  tags: string[];
+}
+
+// 状态效果类型
+export type StatusEffectType = 'slow' | 'poison' | 'burn' | 'stun' | 'vulnerability' | 'regeneration';
+
+// 实体身上的一个状态效果实例
+export interface StatusEffect {
+  type: StatusEffectType;
+  // 剩余时间和总持续时间（秒）
+  remaining: number;
+  duration: number;
+  // 强度（含义见STATUS_EFFECTS）
+  magnitude: number;
+  // 距离上次周期生效的时间（秒）
+  tickTimer: number;
+  source: Player | Monster | null;
+}
+
+// 投射物命中时附加的状态效果
+export interface ProjectileStatusEffect {
+  type: StatusEffectType;
+  duration: number;
+  magnitude: number;
+}
+
+// 投射物种类
+export type ProjectileKind = 'fireball' | 'lightning' | 'arrow';
+
+// Boss技能的地面预警（圆形以x、y为圆心；直线从x、y到toX、toY，radius为半宽）
+export interface BossTelegraph extends Position {
+  kind: 'circle' | 'line';
+  toX: number;
+  toY: number;
+  radius: number;
+  // 预警总时长和剩余时间（秒），结束时结算伤害
+  duration: number;
+  remaining: number;
+  // 结束时对范围内玩家造成的伤害（0表示只用于提示）
+  damage: number;
+  source: Monster;
+}
+
+// 投射物（由ProjectileSystem对象池复用）
+export interface Projectile extends Position {
+  kind: ProjectileKind;
+  // 为false时已结束，只在淡出期间用于显示弧线
+  active: boolean;
+  vx: number;
+  vy: number;
+  speed: number;
+  radius: number;
+  // 剩余存活时间和淡出时间（秒）
+  lifetime: number;
+  fading: number;
+  damage: number;
+  damageType: DamageType;
+  // 剩余穿透次数和弹射次数
+  pierce: number;
+  bounces: number;
+  bounceRange: number;
+  // 追踪转向速度（弧度/秒），0表示不追踪
+  homing: number;
+  // 爆炸半径，0表示不爆炸
+  explosionRadius: number;
+  statusEffect: ProjectileStatusEffect | null;
+  target: Monster | null;
+  owner: Player | null;
+  // 敌方投射物只命中玩家；shooter为发射的怪物（读档时发射者已死亡则为null）
+  hostile: boolean;
+  shooter: Monster | null;
+  hitMonsters: Monster[];
+  // 飞行轨迹上的转折点（起点和每次命中的位置）
+  trail: Position[];
+}
+
+// 装备稀有度
+export type EquipmentRarity = Equipment['rarity'];
+
+// 地面掉落物类型：装备或经验球
+export type LootDropKind = 'item' | 'experience';
+
+// 地面掉落物（x、y为中心点）
+export interface LootDrop extends Position {
+  kind: LootDropKind;
+  // 掉落的装备（经验球为null）
+  item: Equipment | null;
+  // 经验球的经验值（装备为0）
+  experience: number;
+  // 剩余存在时间（秒），被吸引后不再消失
+  lifetime: number;
+  // 进入拾取范围后飞向玩家
+  attracted: boolean;
+  // 只在按住拾取键时拾取（玩家丢弃的装备，避免立即被自动拾取回来）
+  manualPickup: boolean;
+}
+
+// 物品栏操作：按物品所在列表和索引指定物品（装备id不由世界的随机数生成，录像中无法复现）
+export interface InventoryCommand {
+  action: 'equip' | 'unequip' | 'drop';
+  // 物品所在列表：equipped为已装备物品，bag为背包
+  from: 'equipped' | 'bag';
+  index: number;
+}
+
+// 游戏事件表：事件名 -> 事件负载
+export interface GameEvents {
+  damageDealt: DamageResult;
+  monsterKilled: {
+    monster: Monster;
+    experience: number;
+  };
+  playerLeveledUp: {
+    player: Player;
+    level: number;
+    healthGain: number;
+    attackGain: number;
+    defenseGain: number;
+  };
+  // level为学习或升级后的技能等级
+  skillLearned: {
+    player: Player;
+    skill: Skill;
+    level: number;
+  };
+  lootDropped: {
+    monster: Monster;
+    items: Equipment[];
+  };
+  // equipped为false表示卸下装备
+  itemEquipped: {
+    player: Player;
+    item: Equipment;
+    equipped: boolean;
+  };
+  playerDied: {
+    player: Player;
+    score: number;
+  };
+  // phase从0开始
+  bossPhaseChanged: {
+    boss: Monster;
+    phase: number;
+  };
+  bossEnraged: {
+    boss: Monster;
+  };
+  // monsters为本次波次实际生成的怪物（刷怪点不足时可能少于配置数量）
+  waveStarted: {
+    id: string;
+    name: string;
+    monsters: Monster[];
+  };
+  // duration为休整期的剩余时间（秒）
+  breatherStarted: {
+    duration: number;
+  };
+  itemPickedUp: {
+    player: Player;
+    item: Equipment;
+  };
+  itemDropped: {
+    player: Player;
+    item: Equipment;
+  };
+}
+
+// 技能存档数据
+export interface SkillSaveData {
+  key: string;
+  level: number;
+  currentCooldown: number;
+}
+
+// 装备存档数据
+export interface EquipmentSaveData {
+  id: string;
+  name: string;
+  description: string;
+  type: Equipment['type'];
+  rarity: Equipment['rarity'];
+  level: number;
+  // 不含词缀的名称和属性，读档时按词缀重新计算名称、描述和总属性
+  baseName: string;
+  baseStats: EquipmentStats;
+  affixes: EquipmentAffix[];
+  stats: EquipmentStats;
+  isEquipped: boolean;
+  specialEffect?: string;
+}
+
+// 地面掉落物存档数据
+export interface LootDropSaveData extends Omit<LootDrop, 'item'> {
+  item: EquipmentSaveData | null;
+}
+
+// 掉落物系统存档数据
+export interface LootSaveData {
+  drops: LootDropSaveData[];
+  autoPickup: Record<EquipmentRarity, boolean>;
+}
+
+// 掉落表系统存档数据
+export interface LootTablesSaveData {
+  // 各掉落表连续未掉落的判定次数（保底计数），键为掉落表标识
+  dryStreaks: Record<string, number>;
+}
+
+// 玩家存档数据
+export interface PlayerSaveData {
+  x: number;
+  y: number;
+  health: number;
+  level: number;
+  // 升级累计获得的属性
+  levelGains: { attack: number; defense: number; maxHealth: number };
+  experience: number;
+  experienceToNextLevel: number;
+  facing: number;
+  statusEffects: StatusEffectSaveData[];
+  skillPoints: number;
+  timeSinceLastAttack: number;
+  skills: SkillSaveData[];
+  equipment: EquipmentSaveData[];
+  inventory: EquipmentSaveData[];
+}
+
+// 怪物存档数据
+export interface MonsterSaveData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  level: number;
+  // 怪物定义ID（见data/bestiary.ts）
+  definitionId: string;
+  isElite: boolean;
+  isBoss: boolean;
+  health: number;
+  maxHealth: number;
+  attack: number;
+  defense: number;
+  experienceReward: number;
+  wanderDirection: Position;
+  wanderTimer: number;
+  wanderInterval: number;
+  // 剩余攻击冷却（毫秒）
+  attackCooldown: number;
+  aiState: MonsterAIState;
+  // 出生点（游荡和返回的中心）
+  home: Position;
+  lostSightTime: number;
+  // 是否以玩家为目标（追击、攻击和逃跑时）
+  hasTarget: boolean;
+  statusEffects: StatusEffectSaveData[];
+  shield: number;
+  maxShield: number;
+  shieldRegenDelay: number;
+  // 冲锋的剩余蓄力时间、剩余冲刺时间、方向和本次冲锋是否已命中
+  chargeWindup: number;
+  chargeRemaining: number;
+  chargeDirection: Position;
+  chargeHit: boolean;
+  // 自爆引信的剩余时间（未点燃时为null）
+  fuseRemaining: number | null;
+  boss: BossSaveData | null;
+  // 剩余寻路路径点和路径对应的目标格子
+  path: Position[];
+  pathGoal: Position | null;
+}
+
+// Boss存档数据
+export interface BossSaveData {
+  id: string;
+  phase: number;
+  combatTime: number;
+  enraged: boolean;
+  cooldowns: Partial<Record<BossAbilityKey, number>>;
+  casting: BossAbilityKey | null;
+  castRemaining: number;
+  castDirection: Position;
+  chargeRemaining: number;
+  chargeHit: boolean;
+}
+
+// Boss预警存档数据（来源记录为怪物下标）
+export interface BossTelegraphSaveData extends Omit<BossTelegraph, 'source'> {
+  source: number;
+}
+
+// 投射物存档数据（目标和已命中的怪物记录为怪物下标，-1表示没有目标）
+export interface ProjectileSaveData {
+  kind: ProjectileKind;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  speed: number;
+  radius: number;
+  lifetime: number;
+  damage: number;
+  damageType: DamageType;
+  pierce: number;
+  bounces: number;
+  bounceRange: number;
+  homing: number;
+  explosionRadius: number;
+  statusEffect: ProjectileStatusEffect | null;
+  target: number;
+  hitMonsters: number[];
+  trail: Position[];
+  fromPlayer: boolean;
+  hostile: boolean;
+  shooter: number;
+}
+
+// 刷怪导演存档数据
+export interface WaveDirectorSaveData {
+  elapsed: number;
+  spawnTimer: number;
+  waveCounts: Record<string, number>;
+}
+
+// 状态效果存档数据（来源只记录是否为玩家）
+export interface StatusEffectSaveData {
+  type: StatusEffectType;
+  remaining: number;
+  duration: number;
+  magnitude: number;
+  tickTimer: number;
+  fromPlayer: boolean;
+}
+
+// 世界存档数据
+export interface WorldSaveData {
+  seed: number;
+  score: number;
+  player: PlayerSaveData;
+  monsters: MonsterSaveData[];
+  projectiles: ProjectileSaveData[];
+  telegraphs: BossTelegraphSaveData[];
+  director: WaveDirectorSaveData;
+  loot: LootSaveData;
+  lootTables: LootTablesSaveData;
+  // 等待寻路的怪物下标（按队列顺序）
+  pathRequests: number[];
+  skillOptions: string[];
+  // 已加载区块坐标
+  chunks: Array<[number, number]>;
+  random: { [stream: string]: RandomStreamState };
+}
+
 // 技能类型常量
 export const SKILL_TYPES = {
   AURA: 'aura',
@@ -0,0 +1,36 @@
+// 文件导入导出工具（仅浏览器环境可用）
+
+// 以文本文件形式下载内容
+export function downloadTextFile(filename: string, content: string, mimeType: string = 'application/json'): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  
+  URL.revokeObjectURL(url);
+}
+
+// 打开文件选择框并读取文本内容
+export function pickTextFile(accept: string = '.json,application/json'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error('No file selected'));
+        return;
+      }
+      file.text().then(resolve, reject);
+    });
+    
+    input.click();
+  });
+}
@@ -41,7 +41,7 @@ export function willCollide(
   return false;
 }
 
-// 随机数生成
+// 随机数生成（非确定性，游戏逻辑请使用utils/random中的随机流）
 export function random(min: number, max: number): number {
   return Math.random() * (max - min) + min;
 }
@@ -92,6 +92,33 @@ export function radToDeg(radians: number): number {
   return radians * (180 / Math.PI);
 }
 
+// 两个角度之间的最小差值（弧度，范围0到π）
+export function angleDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % (Math.PI * 2);
+  return diff > Math.PI ? Math.PI * 2 - diff : diff;
+}
+
+// 检查目标是否在扇形范围内（facing为扇形中心方向，arc为扇形总角度）
+export function isInArc(origin: Position, facing: number, arc: number, range: number, target: Position): boolean {
+  const dist = distance(origin, target);
+  if (dist > range) return false;
+  if (dist === 0) return true;
+  
+  const angle = Math.atan2(target.y - origin.y, target.x - origin.x);
+  return angleDifference(angle, facing) <= arc / 2;
+}
+
+// 点到线段的最短距离
+export function distanceToSegment(point: Position, start: Position, end: Position): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return distance(point, start);
+  
+  const t = clamp(((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared, 0, 1);
+  return distance(point, { x: start.x + dx * t, y: start.y + dy * t });
+}
+
 // 格式化数字显示
 export function formatNumber(num: number): string {
   if (num >= 1000000) {
@@ -102,6 +129,13 @@ export function formatNumber(num: number): string {
   return num.toString();
 }
 
+// 格式化时长显示（mm:ss）
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
 // 洗牌数组
 export function shuffleArray<T>(array: T[]): T[] {
   const newArray: T[] = [...array];
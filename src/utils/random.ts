@@ -0,0 +1,128 @@
+import seedrandom from 'seedrandom';
+
+// 随机流状态（用于存档和回放）
+export type RandomStreamState = seedrandom.State.Arc4;
+
+// 各游戏系统使用的随机流名称
+export const RANDOM_STREAMS = {
+  PLAYER: 'player',
+  COMBAT: 'combat',
+  MONSTER: 'monster',
+  SPAWN: 'spawn',
+  LOOT: 'loot',
+  EQUIPMENT: 'equipment',
+  SKILLS: 'skills'
+} as const;
+
+export type RandomStreamName = typeof RANDOM_STREAMS[keyof typeof RANDOM_STREAMS];
+
+// 可复现的随机数流
+export class RandomStream {
+  private prng: seedrandom.StatefulPRNG<RandomStreamState>;
+  
+  constructor(seed: string, state?: RandomStreamState) {
+    this.prng = seedrandom(seed, { state: state ?? true });
+  }
+  
+  // [0, 1) 之间的随机数
+  next(): number {
+    return this.prng();
+  }
+  
+  // [min, max) 之间的随机数
+  range(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+  
+  // [min, max] 之间的随机整数
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+  
+  // 按概率判定
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+  
+  // 从数组中随机选择一个元素
+  pick<T>(array: readonly T[]): T {
+    if (array.length === 0) {
+      throw new Error('Cannot pick random element from empty array');
+    }
+    return array[Math.floor(this.next() * array.length)] as T;
+  }
+  
+  // 按权重从数组中随机选择一个元素（权重不大于0的元素不会被选中）
+  weighted<T>(array: readonly T[], getWeight: (item: T) => number): T {
+    const total = array.reduce((sum, item) => sum + Math.max(0, getWeight(item)), 0);
+    if (total <= 0) {
+      throw new Error('Cannot pick weighted element without positive weights');
+    }
+    
+    let roll = this.next() * total;
+    for (const item of array) {
+      roll -= Math.max(0, getWeight(item));
+      if (roll < 0) return item;
+    }
+    // 浮点误差时返回最后一个权重大于0的元素
+    return [...array].reverse().find(item => getWeight(item) > 0) as T;
+  }
+  
+  // 洗牌（返回新数组）
+  shuffle<T>(array: readonly T[]): T[] {
+    const newArray: T[] = [...array];
+    for (let i = newArray.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      const temp: T = newArray[i] as T;
+      newArray[i] = newArray[j] as T;
+      newArray[j] = temp;
+    }
+    return newArray;
+  }
+  
+  // 获取当前状态
+  getState(): RandomStreamState {
+    return this.prng.state();
+  }
+}
+
+// 游戏随机数生成器：同一个种子派生出各系统独立的随机流
+export class GameRandom {
+  readonly seed: number;
+  private streams: Map<string, RandomStream>;
+  
+  constructor(seed: number = Date.now()) {
+    this.seed = seed;
+    this.streams = new Map();
+  }
+  
+  // 获取指定名称的随机流（不存在时创建）
+  stream(name: RandomStreamName): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(`${this.seed}:${name}`);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+  
+  // 导出所有随机流的状态
+  getState(): { [stream: string]: RandomStreamState } {
+    const states: { [stream: string]: RandomStreamState } = {};
+    this.streams.forEach((stream, name) => {
+      states[name] = stream.getState();
+    });
+    return states;
+  }
+  
+  // 恢复随机流的状态
+  restoreState(states: { [stream: string]: RandomStreamState }): void {
+    this.streams.clear();
+    for (const [name, state] of Object.entries(states)) {
+      this.streams.set(name, new RandomStream(`${this.seed}:${name}`, state));
+    }
+  }
+}
+
+// 默认随机数生成器（用于未注入随机数的场景）
+export const defaultRandom = new GameRandom();
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { World, createEmptyInput } from '../src/game/World';
+import { equipmentManager, toEquipmentSaveData, restoreEquipment, getEquipmentLevel } from '../src/game/EquipmentSystem';
+import { getAffixDefinition, getAffixTier, describeAffix, AFFIX_COUNTS, MAX_AFFIXES_PER_SLOT } from '../src/game/Affixes';
+import { Monster } from '../src/game/Monster';
+import { Player } from '../src/game/Player';
+import { GameRandom } from '../src/utils/random';
+import { testItem } from './helpers';
+
+test('稀有度决定词缀数量，档位按物品等级，名称和描述由词缀生成，存档保留随机结果', () => {
+  const rng = new GameRandom(17).stream('equipment');
+  const legendary = equipmentManager.createEquipment(25, 'legendary', rng);
+  const common = equipmentManager.createEquipment(25, 'common', rng);
+  const definitions = legendary.affixes.map(affix => getAffixDefinition(affix.id)!);
+  const firstPrefix = definitions.find(definition => definition.slot === 'prefix');
+  
+  assert.equal(legendary.affixes.length, AFFIX_COUNTS.legendary);
+  assert.equal(common.affixes.length, 0);
+  assert.equal(new Set(legendary.affixes.map(affix => affix.id)).size, legendary.affixes.length);
+  assert.ok(definitions.filter(definition => definition.slot === 'prefix').length <= MAX_AFFIXES_PER_SLOT);
+  assert.ok(getEquipmentLevel(legendary) > 1);
+  assert.ok(legendary.affixes.every((affix, i) => affix.tier === getAffixTier(definitions[i]!, getEquipmentLevel(legendary))));
+  assert.ok(firstPrefix && legendary.name.startsWith(firstPrefix.name));
+  assert.ok(legendary.affixes.every(affix => legendary.description.includes(describeAffix(affix))));
+  
+  const restored = restoreEquipment(JSON.parse(JSON.stringify(toEquipmentSaveData(legendary))));
+  assert.equal(restored.name, legendary.name);
+  assert.equal(restored.description, legendary.description);
+  assert.deepEqual(restored.stats, legendary.stats);
+  assert.deepEqual(restored.affixes, legendary.affixes);
+});
+
+test('词缀属性影响攻速和火焰伤害', () => {
+  const blade = testItem('blade', 'rare', { attackSpeed: 0.25, fireDamage: 30 });
+  const player = new Player(0, 0);
+  const baseInterval = player.getAttackInterval();
+  player.addEquipment(blade);
+  player.equipItem('blade');
+  assert.equal(player.getAttackInterval(), baseInterval / 1.25);
+  
+  const world = new World(41);
+  const worldPlayer = world.getState().player;
+  worldPlayer.equipment.push({ ...blade, isEquipped: true });
+  const target = new Monster(worldPlayer.x + 60, worldPlayer.y, 1);
+  target.health = target.maxHealth = 1000;
+  world.getState().monsters = [target];
+  const hits: string[] = [];
+  world.getEvents().on('damageDealt', result => { if (result.target === target) hits.push(result.damageType); });
+  world.step(1 / 60, { ...createEmptyInput(), attack: true, aimX: 1 });
+  assert.equal(hits.join(), 'physical,fire');
+});
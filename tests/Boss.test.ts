@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DamageResult } from '../src/types';
+import { World, createEmptyInput } from '../src/game/World';
+import { SaveManager } from '../src/game/SaveSystem';
+import { Monster } from '../src/game/Monster';
+import { BOSS_DEFINITIONS } from '../src/game/data/bosses';
+import { GameRandom } from '../src/utils/random';
+import { testItem } from './helpers';
+
+test('砸地预警结束时对范围内的玩家造成伤害，生命降低后进入新阶段并召唤小怪，存档保存预警', () => {
+  const saveManager = new SaveManager(null);
+  const world = new World(11);
+  const player = world.getState().player;
+  const boss = new Monster(player.x + 150, player.y, 5, 'boss', undefined, undefined, 'stoneGolem');
+  const phases: number[] = [];
+  world.getEvents().on('bossPhaseChanged', ({ phase }) => phases.push(phase));
+  world.getState().monsters = [boss];
+  boss.alert(player);
+  world.step(1 / 60, createEmptyInput());
+  assert.ok(world.getTelegraphs().some(telegraph => telegraph.kind === 'circle' && telegraph.damage > 0));
+  
+  const healthBefore = player.health;
+  for (let frame = 0; frame < 80; frame++) world.step(1 / 60, createEmptyInput());
+  assert.ok(player.health < healthBefore);
+  assert.equal(world.getTelegraphs().length, 0);
+  
+  boss.health = boss.maxHealth * 0.25;
+  const beforeSummon = new Set(world.getState().monsters);
+  world.step(1 / 60, createEmptyInput());
+  const restored = saveManager.deserialize(saveManager.serialize(world));
+  const restoredBoss = restored.getActiveBoss();
+  for (let frame = 0; frame < 61; frame++) world.step(1 / 60, createEmptyInput());
+  
+  // 只统计Boss附近的新怪物（刷怪环上生成的怪物不算召唤）
+  const adds = world.getState().monsters.filter(monster => !beforeSummon.has(monster) && Math.hypot(monster.x - boss.x, monster.y - boss.y) < 400);
+  assert.equal(phases.join(), '1,2');
+  assert.equal(adds.length, 3);
+  assert.ok(adds.every(add => add.getAIState() === 'chase'));
+  assert.equal(world.getActiveBoss(), boss);
+  assert.equal(restored.getTelegraphs().length, 1);
+  assert.equal(restored.getTelegraphs()[0]!.source, restoredBoss);
+  assert.equal(restoredBoss?.boss?.getPhase(), 2);
+});
+
+test('Boss的近战和冲锋伤害按阶段伤害倍率结算', () => {
+  const world = new World(11);
+  const player = world.getState().player;
+  player.equipment.push({ ...testItem('巨人护甲', 'epic', { maxHealth: 100000 }, 'ARMOR'), isEquipped: true });
+  player.health = player.maxHealth;
+  const boss = new Monster(player.x + 300, player.y, 5, 'boss', new GameRandom(3), world.getEvents(), 'stoneGolem');
+  boss.health = boss.maxHealth * 0.5;
+  world.getState().monsters = [boss];
+  boss.alert(player);
+  const hits: DamageResult[] = [];
+  world.getEvents().on('damageDealt', result => {
+    if (result.source === boss) hits.push(result);
+  });
+  for (let frame = 0; frame < 1200; frame++) world.step(1 / 60, createEmptyInput());
+  
+  const multiplier = boss.boss!.getDamageMultiplier();
+  const critical = (result: DamageResult) => result.isCritical ? 2 : 1;
+  const melee = hits.filter(result => result.tags.includes('melee'));
+  const charges = hits.filter(result => result.tags.includes('charge'));
+  assert.ok(multiplier > 1);
+  assert.ok(melee.length > 0 && charges.length > 0);
+  assert.ok(melee.every(result => Math.abs(result.baseAmount - boss.attack * multiplier * critical(result)) < 1e-9));
+  const chargeDamage = BOSS_DEFINITIONS.stoneGolem!.abilities.charge!.damage;
+  assert.ok(charges.every(result => Math.abs(result.baseAmount - chargeDamage * multiplier * critical(result)) < 1e-9));
+});
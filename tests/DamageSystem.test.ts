@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DamageResolver } from '../src/game/DamageSystem';
+import { Player } from '../src/game/Player';
+import { Monster } from '../src/game/Monster';
+
+test('伤害结算：攻击力、暴击、防御与抗性按顺序结算', () => {
+  const resolver = new DamageResolver();
+  const attacker = new Player(0, 0);
+  const defender = new Monster(0, 0, 1, 'boss');
+  const physical = resolver.resolve({
+    source: attacker, target: defender, amount: 0, damageType: 'physical', isCritical: true, tags: ['melee', 'attack']
+  });
+  const fire = resolver.resolve({ source: attacker, target: defender, amount: 100, damageType: 'fire', isCritical: false });
+  
+  assert.equal(physical.baseAmount, attacker.attack * 1.5);
+  assert.equal(physical.amount, Math.max(1, physical.baseAmount - Math.min(defender.defense, physical.baseAmount * 0.75)));
+  assert.ok(Math.abs(fire.amount - 70) < 1e-9);
+  assert.ok(fire.mitigated > 0);
+});
+
+test('伤害倍率作用于基础伤害和攻击力之和', () => {
+  const resolver = new DamageResolver();
+  const attacker = new Monster(0, 0, 1);
+  const defender = new Player(0, 0);
+  const result = resolver.resolve({
+    source: attacker, target: defender, amount: 5, multiplier: 3, damageType: 'physical', tags: ['melee', 'attack']
+  });
+  
+  assert.equal(result.baseAmount, (5 + attacker.attack) * 3);
+});
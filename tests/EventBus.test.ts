@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventBus } from '../src/game/EventBus';
+
+test('订阅、一次性订阅和取消订阅，单个监听器出错不影响其他监听器', () => {
+  const events = new EventBus<{ ping: { value: number } }>();
+  const received: string[] = [];
+  const unsubscribe = events.on('ping', ({ value }) => received.push(`on:${value}`));
+  events.once('ping', ({ value }) => received.push(`once:${value}`));
+  events.on('ping', () => { throw new Error('listener failed'); });
+  
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    events.emit('ping', { value: 1 });
+    unsubscribe();
+    events.emit('ping', { value: 2 });
+  } finally {
+    console.error = consoleError;
+  }
+  assert.deepEqual(received, ['on:1', 'once:1']);
+});
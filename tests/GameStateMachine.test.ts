@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameStateMachine, GAME_STATE_TRANSITIONS, type GameStateId } from '../src/game/GameStateMachine';
+
+test('状态机按顺序调用exit/enter钩子，并拒绝非法切换', () => {
+  const stateMachine = new GameStateMachine();
+  const log: string[] = [];
+  stateMachine.register('playing', {
+    enter: (from) => log.push(`enter playing from ${from}`),
+    exit: (to) => log.push(`exit playing to ${to}`)
+  });
+  stateMachine.transition('boot');
+  stateMachine.transition('loading');
+  stateMachine.transition('mainMenu');
+  stateMachine.transition('playing');
+  stateMachine.transition('paused');
+  assert.deepEqual(log, ['enter playing from mainMenu', 'exit playing to paused']);
+  
+  assert.ok(!stateMachine.transition('victory'));
+  assert.ok(stateMachine.isIn('paused'));
+});
+
+test('可以读档的界面都能直接进入游戏', () => {
+  const loadableStates: GameStateId[] = ['mainMenu', 'paused', 'levelUpChoice', 'gameOver', 'victory', 'keyBindings', 'lootFilter', 'inventory', 'characterSheet'];
+  assert.ok(loadableStates.every(state => GAME_STATE_TRANSITIONS[state].includes('playing')));
+});
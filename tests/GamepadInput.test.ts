@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InputManager, GAMEPAD_BUTTONS } from '../src/game/InputManager';
+import { GamepadInput } from '../src/game/GamepadInput';
+
+test('模拟navigator.getGamepads：摇杆死区、按键动作和插拔检测', () => {
+  const buttons = Array.from({ length: 16 }, () => ({ pressed: false, touched: false, value: 0 }));
+  const gamepad = { id: 'Mock Pad', index: 0, connected: true, axes: [0.1, 0], buttons };
+  let gamepads: Array<typeof gamepad | null> = [gamepad];
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { getGamepads: () => gamepads },
+    configurable: true
+  });
+  const input = new InputManager(null);
+  const connections: string[] = [];
+  const gamepadInput = new GamepadInput(input, {
+    storage: null,
+    onConnectionChange: (id, connected) => connections.push(`${id}:${connected}`)
+  });
+  
+  // 摇杆死区忽略小幅输入
+  gamepadInput.poll();
+  assert.equal(input.getMoveVector().x, 0);
+  
+  gamepad.axes = [1, 1];
+  gamepadInput.poll();
+  const move = input.getMoveVector();
+  assert.ok(Math.abs(Math.hypot(move.x, move.y) - 1) < 1e-9);
+  
+  // 右摇杆瞄准
+  gamepad.axes = [0, 0, -1, 0];
+  gamepadInput.poll();
+  assert.equal(gamepadInput.getAim().x, -1);
+  
+  buttons[GAMEPAD_BUTTONS.START] = { pressed: true, touched: true, value: 1 };
+  assert.ok(gamepadInput.poll().includes('pause'));
+  
+  gamepads = [];
+  gamepadInput.poll();
+  assert.deepEqual(connections, ['Mock Pad:true', 'Mock Pad:false']);
+  assert.ok(!input.isActionActive('pause'));
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InputManager } from '../src/game/InputManager';
+import { createMemoryStorage } from './helpers';
+
+test('斜向移动归一化', () => {
+  const input = new InputManager(null);
+  input.handleKeyDown({ code: 'KeyW', repeat: false } as KeyboardEvent);
+  input.handleKeyDown({ code: 'ArrowRight', repeat: false } as KeyboardEvent);
+  const move = input.getMoveVector();
+  assert.ok(Math.abs(Math.hypot(move.x, move.y) - 1) < 1e-9);
+});
+
+test('改键后保存到存储中', () => {
+  const storage = createMemoryStorage();
+  new InputManager(storage).setBinding('attack', 0, { device: 'keyboard', code: 'KeyJ' });
+  const reloaded = new InputManager(storage);
+  assert.ok(reloaded.handleKeyDown({ code: 'KeyJ', repeat: false } as KeyboardEvent).includes('attack'));
+});
+
+test('忽略存储中格式不正确的绑定', () => {
+  const storage = createMemoryStorage();
+  storage.setItem('kill-monsters:bindings', JSON.stringify({
+    attack: [{ device: 'keyboard', code: 'KeyJ' }, { device: 'keyboard' }, { device: 'touch', zone: 'nowhere' }, { device: 'mouse', button: '0' }, null, 'KeyK'],
+    pause: [{ device: 'touch', zone: 'attackButton' }]
+  }));
+  const input = new InputManager(storage);
+  assert.deepEqual(input.getBindings('attack'), [{ device: 'keyboard', code: 'KeyJ' }]);
+  assert.deepEqual(input.getBindings('pause'), [{ device: 'touch', zone: 'attackButton' }]);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { World, createEmptyInput } from '../src/game/World';
+import { equipmentManager, sortEquipment, compareEquipmentStats } from '../src/game/EquipmentSystem';
+import { ReplayRecorder, ReplayPlayer, encodeReplay, decodeReplay } from '../src/game/Replay';
+import { GameRandom } from '../src/utils/random';
+
+test('装备时同类型的旧装备放回背包，丢弃的装备按住拾取键才会拾取，物品栏操作可以回放', () => {
+  const world = new World(53);
+  const player = world.getState().player;
+  const rng = new GameRandom(8).stream('equipment');
+  const oldSword = equipmentManager.createEquipment(1, 'common', rng);
+  const newSword = equipmentManager.createEquipment(20, 'legendary', rng);
+  oldSword.type = newSword.type = 'WEAPON';
+  player.addEquipment(oldSword);
+  player.addEquipment(newSword);
+  
+  const recorder = new ReplayRecorder(world.getSeed(), world.toSaveData());
+  const commands = [
+    { action: 'equip', from: 'bag', index: 0 },
+    { action: 'equip', from: 'bag', index: 0 },
+    { action: 'drop', from: 'bag', index: 0 }
+  ] as const;
+  for (const command of commands) {
+    assert.ok(world.applyInventoryCommand(command));
+    recorder.recordInventoryCommand(command);
+  }
+  assert.deepEqual(player.equipment, [newSword]);
+  assert.ok(newSword.isEquipped);
+  assert.ok(!oldSword.isEquipped);
+  assert.ok(world.getLootDrops().some(drop => drop.item === oldSword && drop.manualPickup));
+  assert.ok(!world.applyInventoryCommand({ action: 'unequip', from: 'bag', index: 0 }));
+  
+  for (let frame = 0; frame < 60; frame++) {
+    const input = createEmptyInput();
+    recorder.recordFrame(input);
+    world.step(1 / 60, input);
+  }
+  assert.ok(!player.inventory.includes(oldSword));
+  for (let frame = 0; frame < 60; frame++) {
+    const input = { ...createEmptyInput(), pickup: true };
+    recorder.recordFrame(input);
+    world.step(1 / 60, input);
+  }
+  assert.ok(player.inventory.includes(oldSword));
+  
+  const replay = new ReplayPlayer(decodeReplay(encodeReplay(recorder.getData())));
+  replay.seek(replay.getFrameCount());
+  const replayed = replay.getWorld().getState().player;
+  assert.deepEqual(replayed.equipment.map(item => item.id), player.equipment.map(item => item.id));
+  assert.deepEqual(replayed.inventory.map(item => item.id), player.inventory.map(item => item.id));
+});
+
+test('装备排序和属性比较', () => {
+  const rng = new GameRandom(8).stream('equipment');
+  const oldSword = equipmentManager.createEquipment(1, 'common', rng);
+  const newSword = equipmentManager.createEquipment(20, 'legendary', rng);
+  assert.equal(sortEquipment([oldSword, newSword], 'rarity')[0], newSword);
+  assert.ok(compareEquipmentStats(newSword, oldSword).some(({ stat, delta }) =>
+    stat === 'attack' && delta === (newSword.stats.attack ?? 0) - (oldSword.stats.attack ?? 0)
+  ));
+});
+
+test('同一帧内的物品栏操作和技能选择按录制顺序回放', () => {
+  const world = new World(53);
+  world.getState().player.addEquipment(equipmentManager.createEquipment(1, 'common', new GameRandom(8).stream('equipment')));
+  const recorder = new ReplayRecorder(world.getSeed(), world.toSaveData());
+  recorder.recordFrame(createEmptyInput());
+  recorder.recordInventoryCommand({ action: 'equip', from: 'bag', index: 0 });
+  recorder.recordSkillChoice(0);
+  recorder.recordFrame(createEmptyInput());
+  
+  const replay = new ReplayPlayer(decodeReplay(encodeReplay(recorder.getData())));
+  const replayWorld = replay.getWorld();
+  const applied: string[] = [];
+  replayWorld.applyInventoryCommand = () => { applied.push('inventory'); return true; };
+  replayWorld.chooseSkill = () => { applied.push('skillChoice'); return true; };
+  replay.seek(replay.getFrameCount());
+  assert.deepEqual(applied, ['inventory', 'skillChoice']);
+});
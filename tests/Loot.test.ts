@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { World, createEmptyInput } from '../src/game/World';
+import { LootSystem } from '../src/game/Loot';
+import { MagnetSkill } from '../src/game/SkillSystem';
+import { Monster } from '../src/game/Monster';
+import { Player } from '../src/game/Player';
+import { EventBus, type GameEventBus } from '../src/game/EventBus';
+import { GameRandom } from '../src/utils/random';
+import { testItem } from './helpers';
+
+test('拾取范围内的经验球和装备飞向玩家，关闭自动拾取的稀有度需要按住拾取键，拾取磁铁扩大范围，超时未拾取时消失', () => {
+  const player = new Player(0, 0);
+  const events: GameEventBus = new EventBus();
+  const pickedUp: string[] = [];
+  events.on('itemPickedUp', ({ item }) => pickedUp.push(item.name));
+  const loot = new LootSystem();
+  const rng = new GameRandom(5).stream('loot');
+  const step = (frames: number, pickup: boolean) => {
+    for (let frame = 0; frame < frames; frame++) loot.update(1 / 60, player, pickup, events);
+  };
+  
+  loot.setAutoPickup('common', false);
+  loot.dropExperience({ x: 90, y: 30 }, 40);
+  loot.dropItems({ x: -50, y: 30 }, [testItem('普通剑', 'common')], rng);
+  loot.dropItems({ x: 270, y: 30 }, [testItem('远处的戒指', 'rare')], rng);
+  step(30, false);
+  assert.equal(player.experience, 40);
+  assert.equal(loot.getDrops().length, 2);
+  assert.equal(pickedUp.length, 0);
+  
+  step(30, true);
+  assert.equal(pickedUp.join(), '普通剑');
+  assert.equal(player.inventory.length, 1);
+  
+  const magnet = new MagnetSkill();
+  magnet.level = magnet.maxLevel;
+  player.skills.push(magnet);
+  step(30, false);
+  assert.equal(pickedUp.join(), '普通剑,远处的戒指');
+  assert.equal(player.getPickupRadius(), 280);
+  
+  loot.dropExperience({ x: 2000, y: 0 }, 10);
+  step(1, false);
+  const saved = loot.toSaveData();
+  loot.update(31, player, false, events);
+  assert.equal(loot.getDrops().length, 0);
+  
+  const restored = new LootSystem();
+  restored.loadSaveData(saved);
+  assert.equal(restored.getDrops().length, 1);
+  assert.ok(!restored.isAutoPickup('common'));
+});
+
+test('怪物死亡时掉落经验球，拾取后获得经验', () => {
+  const world = new World(21);
+  const player = world.getState().player;
+  const victim = new Monster(player.x + 60, player.y, 1);
+  victim.health = 1;
+  world.getState().monsters = [victim];
+  world.step(1 / 60, { ...createEmptyInput(), attack: true, aimX: 1 });
+  assert.equal(player.experience, 0);
+  assert.ok(world.getLootDrops().some(drop => drop.kind === 'experience'));
+  
+  for (let frame = 0; frame < 30; frame++) world.step(1 / 60, createEmptyInput());
+  assert.equal(player.experience, victim.experienceReward);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Equipment } from '../src/types';
+import { LootTableSystem, getRarityWeights, simulateLootDrops, BAD_LUCK_LIMIT, BAD_LUCK_STEP } from '../src/game/LootTables';
+import { Monster, getMonsterDefinition } from '../src/game/Monster';
+import { EQUIPMENT_STAT_NAMES } from '../src/game/Affixes';
+import { EventBus, type GameEventBus } from '../src/game/EventBus';
+import { GameRandom } from '../src/utils/random';
+
+const dryTable = { id: 'dry', dropChance: 0, rolls: 1, rarityWeights: { common: 1 } };
+
+test('每种怪物使用自己的掉落表', () => {
+  const ids = ['grunt', 'archer', 'charger', 'splitter', 'bomber'].map(id => getMonsterDefinition(id).loot.id);
+  assert.deepEqual(ids, ['grunt', 'archer', 'charger', 'splitter', 'bomber']);
+});
+
+test('Boss必定掉落高稀有度装备', () => {
+  const drops = new LootTableSystem().roll({ table: getMonsterDefinition('boss').loot, rank: 'boss', level: 5 }, new GameRandom(9).stream('loot'));
+  assert.ok(drops.some(item => item.rarity === 'epic' || item.rarity === 'legendary'));
+});
+
+test('连续未掉落触发保底，保底计数按掉落表分别记录并随存档保存', () => {
+  const rng = new GameRandom(9).stream('loot');
+  const tables = new LootTableSystem();
+  let dryKills = 0;
+  while (tables.roll({ table: dryTable, rank: 'normal', level: 1 }, rng).length === 0 && dryKills < 100) dryKills++;
+  assert.ok(dryKills > 0 && dryKills <= BAD_LUCK_LIMIT);
+  
+  tables.roll({ table: dryTable, rank: 'normal', level: 1 }, rng);
+  assert.equal(tables.getDropChance(dryTable), BAD_LUCK_STEP);
+  const otherTable = { ...dryTable, id: 'other' };
+  assert.equal(tables.getDryStreak(otherTable), 0);
+  const restored = new LootTableSystem();
+  restored.loadSaveData(tables.toSaveData());
+  assert.equal(restored.getDryStreak(dryTable), 1);
+  
+  const unlucky = new LootTableSystem();
+  unlucky.loadSaveData({ dryStreaks: { dry: BAD_LUCK_LIMIT } });
+  assert.equal(unlucky.getDropChance(dryTable), 1);
+  assert.equal(unlucky.getDropChance(otherTable), 0);
+});
+
+test('级别和等级提高稀有度，掉落模拟统计分布', () => {
+  const table = getMonsterDefinition('grunt').loot;
+  const low = getRarityWeights({ table, rank: 'normal', level: 1 });
+  const high = getRarityWeights({ table, rank: 'elite', level: 10 });
+  assert.ok(high.epic / high.common > low.epic / low.common);
+  
+  const distribution = simulateLootDrops({ table, rank: 'normal', level: 1 });
+  assert.equal(distribution.items, Object.values(distribution.byRarity).reduce((sum, count) => sum + count, 0));
+  assert.ok(distribution.longestDryStreak <= BAD_LUCK_LIMIT);
+});
+
+test('怪物掉落通过事件派发并使用统一的装备属性', () => {
+  const dropped: Equipment[] = [];
+  const events: GameEventBus = new EventBus();
+  events.on('lootDropped', ({ items }) => dropped.push(...items));
+  const loot = new Monster(0, 0, 3, 'boss', new GameRandom(4), events).dropLoot(new LootTableSystem());
+  const knownStats = Object.keys(EQUIPMENT_STAT_NAMES);
+  assert.ok(loot.length > 0);
+  assert.equal(dropped.length, loot.length);
+  assert.ok(loot.every(item => Object.keys(item.stats).every(stat => knownStats.includes(stat))));
+});
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DamageResult } from '../src/types';
+import { World, createEmptyInput } from '../src/game/World';
+import { Monster, MonsterSpawner, type MonsterHost } from '../src/game/Monster';
+import { DamageResolver } from '../src/game/DamageSystem';
+import { Player } from '../src/game/Player';
+import { GameRandom } from '../src/utils/random';
+
+const sees = () => true;
+const blind = () => false;
+
+test('怪物AI：仇恨范围内且有视线时追击，超出拴绳距离返回，生命过低逃跑', () => {
+  const player = new Player(0, 0);
+  const spotter = new Monster(150, 0, 1);
+  assert.ok(spotter.think(1 / 60, player, sees));
+  assert.equal(spotter.getAIState(), 'chase');
+  
+  const hidden = new Monster(0, 150, 1);
+  hidden.think(1 / 60, player, blind);
+  assert.notEqual(hidden.getAIState(), 'chase');
+  
+  const leashed = new Monster(50, 0, 1);
+  leashed.alert(player);
+  leashed.x = 50 + leashed.getBehavior().leashRange + 1;
+  leashed.think(1 / 60, player, sees);
+  assert.equal(leashed.getAIState(), 'return');
+  
+  const coward = new Monster(40, 0, 1);
+  coward.alert(player);
+  coward.think(1 / 60, player, sees);
+  assert.equal(coward.getAIState(), 'attack');
+  coward.health = coward.maxHealth * 0.1;
+  coward.think(1 / 60, player, sees);
+  coward.move(1 / 60, []);
+  assert.equal(coward.getAIState(), 'flee');
+  assert.ok(coward.x > 40);
+});
+
+test('怪物AI：发现玩家时通知同伴，新生成的怪物从远处赶来', () => {
+  const world = new World(7);
+  const player = world.getState().player;
+  const leader = new Monster(player.x + 100, player.y, 1);
+  const mate = new Monster(player.x + 300, player.y, 1);
+  world.getState().monsters = [leader, mate];
+  world.step(1 / 60, createEmptyInput());
+  assert.notEqual(leader.getAIState(), 'idle');
+  assert.equal(mate.getAIState(), 'chase');
+  
+  const aiPlayer = new Player(0, 0);
+  const seeker = new Monster(600, 0, 1);
+  seeker.seek(aiPlayer);
+  seeker.think(1 / 60, aiPlayer, sees);
+  seeker.move(1 / 60, []);
+  assert.equal(seeker.getAIState(), 'seek');
+  assert.ok(seeker.x < 600);
+  seeker.x = 150;
+  seeker.think(1 / 60, aiPlayer, sees);
+  assert.equal(seeker.getAIState(), 'chase');
+});
+
+test('赶路的怪物长时间找不到玩家时放弃，在原地游荡', () => {
+  const player = new Player(0, 0);
+  const seeker = new Monster(3000, 0, 1);
+  seeker.seek(player);
+  for (let frame = 0; frame < 21 * 60; frame++) {
+    seeker.think(1 / 60, player, blind);
+  }
+  
+  assert.notEqual(seeker.getAIState(), 'seek');
+  assert.equal(seeker.target, undefined);
+});
+
+// 在玩家附近放一只已警觉的怪物
+function bestiaryWorld(monsterId: string, offsetX: number, offsetY: number = 0) {
+  const world = new World(21);
+  const player = world.getState().player;
+  const monster = new Monster(player.x + offsetX, player.y + offsetY, 1, monsterId);
+  world.getState().monsters = [monster];
+  monster.alert(player);
+  return { world, player, monster };
+}
+
+test('弓手发射箭矢', () => {
+  const { world, player, monster } = bestiaryWorld('archer', 250, -40);
+  world.step(1 / 60, createEmptyInput());
+  assert.ok(world.getProjectiles().some(projectile => projectile.hostile && projectile.shooter === monster));
+  for (let frame = 0; frame < 60; frame++) world.step(1 / 60, createEmptyInput());
+  assert.ok(player.health < player.maxHealth);
+});
+
+test('冲锋怪蓄力后冲向玩家，撞到时按冲锋倍率结算伤害', () => {
+  const player = new Player(0, 0);
+  const charger = new Monster(200, 0, 1, 'charger');
+  const resolver = new DamageResolver();
+  const charges: DamageResult[] = [];
+  const host: MonsterHost = {
+    spawnProjectile: () => {},
+    spawnEffect: () => {},
+    dealDamage: event => {
+      const result = resolver.resolve(event);
+      charges.push(result);
+      return result;
+    },
+    removeMonster: () => {}
+  };
+  charger.alert(player);
+  for (let frame = 0; frame < 120; frame++) {
+    charger.think(1 / 60, player, sees);
+    charger.attackTarget(player, host);
+    charger.move(1 / 60, []);
+    charger.updateAttack(1 / 60, player, host);
+  }
+  
+  assert.equal(charges.length, 1);
+  assert.ok(charges[0]!.tags.includes('charge'));
+  assert.equal(charges[0]!.baseAmount, charger.attack * 2);
+});
+
+test('史莱姆死亡时分裂', () => {
+  const { world, monster } = bestiaryWorld('splitter', 60);
+  monster.health = 1;
+  world.step(1 / 60, { ...createEmptyInput(), attack: true });
+  const slimelings = world.getState().monsters.filter(child => child.getDefinition().id === 'slimeling');
+  assert.equal(slimelings.length, 2);
+  assert.ok(slimelings.every(child => child.getAIState() === 'chase'));
+});
+
+test('甲虫自爆，不算作击杀', () => {
+  const { world, player, monster } = bestiaryWorld('bomber', 40);
+  let kills = 0;
+  const blasts: number[] = [];
+  world.getEvents().on('monsterKilled', () => kills++);
+  world.getEvents().on('damageDealt', result => {
+    if (result.source === monster) blasts.push(result.baseAmount);
+  });
+  for (let frame = 0; frame < 60; frame++) world.step(1 / 60, createEmptyInput());
+  assert.ok(!world.getState().monsters.includes(monster));
+  assert.ok(player.health < player.maxHealth);
+  assert.deepEqual(blasts, [monster.attack * 3]);
+  assert.equal(kills, 0);
+});
+
+test('盾卫的护盾先承受伤害并会恢复', () => {
+  const shieldbearer = new Monster(0, 0, 4, 'shieldbearer');
+  shieldbearer.takeDamage(10);
+  assert.equal(shieldbearer.health, shieldbearer.maxHealth);
+  assert.equal(shieldbearer.shield, shieldbearer.maxShield - 10);
+  shieldbearer.update(4);
+  assert.ok(shieldbearer.shield > shieldbearer.maxShield - 10);
+});
+
+test('生成表按等级和权重选择怪物', () => {
+  const spawner = new MonsterSpawner(1, new GameRandom(5));
+  const lowLevelPicks = new Set(Array.from({ length: 200 }, () => spawner.pickFromTable('normal', 1)));
+  const highLevelPicks = new Set(Array.from({ length: 200 }, () => spawner.pickFromTable('normal', 5)));
+  assert.ok(!lowLevelPicks.has('bomber'));
+  assert.ok(!lowLevelPicks.has('shieldbearer'));
+  assert.ok(lowLevelPicks.has('grunt'));
+  assert.ok(highLevelPicks.has('shieldbearer'));
+  assert.equal(highLevelPicks.size, 6);
+});
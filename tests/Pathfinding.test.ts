@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pathfinder, PATH_SEARCHES_PER_FRAME } from '../src/game/Pathfinding';
+import { SpatialHash } from '../src/game/SpatialHash';
+import { Player } from '../src/game/Player';
+import { Monster } from '../src/game/Monster';
+
+test('怪物绕过挡在中间的墙到达目标，寻路请求按每帧上限分摊', () => {
+  const wall = { x: 100, y: -200, width: 40, height: 400, isSolid: true };
+  const walls = new SpatialHash<typeof wall>();
+  walls.insert(wall);
+  const pathfinder = new Pathfinder(walls);
+  const target = new Player(300, 0);
+  const walker = new Monster(0, 0, 1);
+  walker.alert(target);
+  for (let frame = 0; frame < 600; frame++) {
+    pathfinder.updateMonster(walker);
+    pathfinder.processRequests(() => true);
+    walker.move(1 / 60, [wall]);
+  }
+  assert.ok(Math.hypot(walker.x - target.x, walker.y - target.y) < 60);
+  
+  const crowd = Array.from({ length: 40 }, (_, i) => {
+    const monster = new Monster(-200 - (i % 8) * 40, -160 + Math.floor(i / 8) * 80, 1);
+    monster.alert(target);
+    pathfinder.updateMonster(monster);
+    return monster;
+  });
+  pathfinder.processRequests(() => true);
+  assert.equal(pathfinder.getQueue().length, crowd.length - PATH_SEARCHES_PER_FRAME);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProjectileSystem } from '../src/game/Projectiles';
+import { SpatialHash } from '../src/game/SpatialHash';
+import { Player } from '../src/game/Player';
+import { Monster } from '../src/game/Monster';
+
+test('闪电链按弹射次数命中不同怪物，火球命中后范围爆炸，结束的投射物回收到对象池', () => {
+  const projectiles = new ProjectileSystem();
+  const chainTargets = [0, 1, 2, 3].map(i => new Monster(100 + i * 100, 0, 1));
+  projectiles.spawn({
+    kind: 'lightning', owner: null, x: 0, y: 0, target: chainTargets[0]!, speed: 1500, radius: 8, lifetime: 2,
+    damage: 10, damageType: 'lightning', bounces: 2, bounceRange: 250, homing: 20
+  });
+  const blastTargets = [new Monster(300, 300, 1), new Monster(330, 320, 1)];
+  projectiles.spawn({
+    kind: 'fireball', owner: null, x: 0, y: 300, target: blastTargets[0]!, speed: 500, radius: 10, lifetime: 2,
+    damage: 20, damageType: 'fire', homing: 4, explosionRadius: 80
+  });
+  const bystander = new Player(0, -5000);
+  const targets = new SpatialHash<Monster>();
+  targets.rebuild([...chainTargets, ...blastTargets]);
+  
+  const chainHit = new Set<object>();
+  let blastHits = 0;
+  for (let frame = 0; frame < 120; frame++) {
+    for (const impact of projectiles.update(1 / 60, targets, new SpatialHash(), bystander)) {
+      if (impact.kind === 'lightning') impact.monsters.forEach(monster => chainHit.add(monster));
+      if (impact.isExplosion) blastHits += impact.monsters.length;
+    }
+  }
+  
+  assert.equal(chainHit.size, 3);
+  assert.ok(!chainHit.has(chainTargets[3]!));
+  assert.equal(blastHits, 2);
+  assert.equal(projectiles.getProjectiles().length, 0);
+  assert.equal(projectiles.getPoolSize(), 2);
+});
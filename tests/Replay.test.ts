@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { World } from '../src/game/World';
+import { ReplayRecorder, ReplayPlayer, quantizeInput, encodeReplay, decodeReplay } from '../src/game/Replay';
+import { snapshot } from './helpers';
+
+// 录制一局：随输入移动、攻击和拾取，升级时选择第一个技能，中途关闭普通物品的自动拾取
+function recordRun(seed: number, frames: number): { world: World; recorder: ReplayRecorder } {
+  const world = new World(seed);
+  const recorder = new ReplayRecorder(world.getSeed());
+  for (let frame = 0; frame < frames; frame++) {
+    if (world.isAwaitingSkillChoice() && world.chooseSkill(0)) {
+      recorder.recordSkillChoice(0);
+    }
+    if (frame === 300) {
+      world.setAutoPickup('common', false);
+      recorder.recordAutoPickup('common', false);
+    }
+    const input = quantizeInput({
+      moveX: Math.sin(frame / 50),
+      moveY: Math.cos(frame / 70),
+      attack: frame % 20 === 0,
+      aimX: Math.cos(frame / 30),
+      aimY: Math.sin(frame / 30),
+      pickup: frame % 90 < 10
+    });
+    recorder.recordFrame(input);
+    world.step(1 / 60, input);
+  }
+  return { world, recorder };
+}
+
+test('录制一局并通过回放播放器重现', () => {
+  const { world, recorder } = recordRun(777, 1200);
+  const player = new ReplayPlayer(decodeReplay(encodeReplay(recorder.getData())));
+  player.seek(player.getFrameCount());
+  assert.equal(snapshot(player.getWorld()), snapshot(world));
+  assert.ok(!player.getWorld().isAutoPickup('common'));
+  
+  // 向后跳转时从头重新模拟
+  player.seek(200);
+  assert.ok(player.getWorld().isAutoPickup('common'));
+  player.seek(player.getFrameCount());
+  assert.equal(snapshot(player.getWorld()), snapshot(world));
+});
+
+test('拒绝事件顺序错乱的回放', () => {
+  const data = recordRun(5, 10).recorder.getData();
+  data.events = [{ frame: 5, type: 'skillChoice', index: 0 }, { frame: 2, type: 'skillChoice', index: 1 }];
+  assert.throws(() => decodeReplay(encodeReplay(data)));
+});
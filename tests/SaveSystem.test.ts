@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { World, createEmptyInput } from '../src/game/World';
+import { SaveManager, migrateSaveDocument, SAVE_VERSION } from '../src/game/SaveSystem';
+import { BaseSkill, StrengthBuffSkill, FireballSkill, LightningChainSkill, PoisonAuraSkill } from '../src/game/SkillSystem';
+import { equipmentManager } from '../src/game/EquipmentSystem';
+import { GameRandom } from '../src/utils/random';
+import { simulate, snapshot, createMemoryStorage } from './helpers';
+
+const saveManager = new SaveManager(null);
+
+test('存档后读档继续模拟，结果与未中断的对局一致', () => {
+  const world = simulate(2024, 120);
+  const restored = saveManager.deserialize(saveManager.serialize(world));
+  for (let frame = 0; frame < 600; frame++) {
+    const input = { ...createEmptyInput(), moveX: 1, attack: frame % 20 === 0 };
+    world.step(1 / 60, input);
+    restored.step(1 / 60, input);
+  }
+  
+  assert.equal(snapshot(restored), snapshot(world));
+  assert.equal(restored.getState().score, world.getState().score);
+});
+
+test('读档时技能和装备还原为对应的子类实例', () => {
+  const world = simulate(7, 10);
+  const player = world.getState().player;
+  player.levelUp();
+  player.learnSkill(new StrengthBuffSkill());
+  player.addEquipment(equipmentManager.createEquipment(5, 'epic', new GameRandom(3).stream('equipment')));
+  
+  const restored = saveManager.deserialize(saveManager.serialize(world)).getState().player;
+  assert.ok(restored.skills.length === 1 && restored.skills.every(skill => skill instanceof BaseSkill));
+  assert.equal(restored.skills[0]?.name, player.skills[0]?.name);
+  assert.ok(restored.inventory.length === 1 && restored.inventory.every(item => 'getRarityColor' in item));
+  assert.deepEqual(restored.inventory[0]?.stats, player.inventory[0]?.stats);
+});
+
+test('存档保存飞行中的投射物', () => {
+  const world = new World(31);
+  world.getState().player.skills.push(new FireballSkill(), new LightningChainSkill(), new PoisonAuraSkill());
+  let frames = 0;
+  while (world.getProjectiles().filter(projectile => projectile.active).length === 0 && frames++ < 3000) {
+    world.step(1 / 60, { ...createEmptyInput(), moveX: 1 });
+  }
+  assert.ok(frames < 3000, 'no projectile was fired');
+  
+  const restored = saveManager.deserialize(saveManager.serialize(world));
+  for (let frame = 0; frame < 300; frame++) {
+    world.step(1 / 60, createEmptyInput());
+    restored.step(1 / 60, createEmptyInput());
+  }
+  assert.equal(snapshot(restored), snapshot(world));
+});
+
+test('保存到存储中并读取，删除后没有存档', () => {
+  const manager = new SaveManager(createMemoryStorage());
+  assert.equal(manager.load(), null);
+  assert.ok(manager.save(simulate(3, 60)));
+  assert.ok(manager.hasSave());
+  assert.equal(snapshot(manager.load()!), snapshot(simulate(3, 60)));
+  manager.clear();
+  assert.ok(!manager.hasSave());
+});
+
+test('拒绝格式不正确或版本更新的存档', () => {
+  const valid = JSON.parse(saveManager.serialize(simulate(5, 1)));
+  assert.throws(() => migrateSaveDocument(null));
+  assert.throws(() => migrateSaveDocument({ version: String(SAVE_VERSION), world: valid.world }));
+  assert.throws(() => migrateSaveDocument({ ...valid, world: { ...valid.world, monsters: {} } }));
+  assert.throws(() => migrateSaveDocument({ ...valid, version: SAVE_VERSION + 1 }));
+  assert.doesNotThrow(() => migrateSaveDocument(valid));
+});
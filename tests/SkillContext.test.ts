@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorldSkillContext } from '../src/game/SkillContext';
+import { DamageResolver } from '../src/game/DamageSystem';
+import { SpatialHash } from '../src/game/SpatialHash';
+import { Monster } from '../src/game/Monster';
+
+test('按半径、扇形和直线查询敌人，并通过伤害结算器造成伤害', () => {
+  const resolver = new DamageResolver();
+  const monsters = [new Monster(100, 0, 1), new Monster(-100, 0, 1), new Monster(0, 300, 1)];
+  const monsterIndex = new SpatialHash<Monster>();
+  monsterIndex.rebuild(monsters);
+  const context = new WorldSkillContext({
+    getMonsters: () => monsters,
+    getMonsterIndex: () => monsterIndex,
+    getObstacleIndex: () => new SpatialHash(),
+    spawnProjectile: () => {},
+    spawnEffect: () => {},
+    dealDamage: (event) => resolver.resolve(event)
+  });
+  
+  assert.equal(context.findNearestEnemy({ x: 90, y: 0 }, 50), monsters[0]);
+  assert.equal(context.findEnemiesInRadius({ x: 0, y: 0 }, 150).length, 2);
+  assert.equal(context.findEnemiesInCone({ x: 0, y: 0 }, Math.PI / 2, Math.PI / 2, 400).length, 1);
+  const lineHits = context.findEnemiesInLine({ x: -200, y: 0 }, { x: 200, y: 0 }, 10);
+  assert.equal(lineHits.length, 2);
+  assert.equal(lineHits[0], monsters[1]);
+  assert.equal(context.dealDamage({ source: null, target: monsters[2]!, amount: 5, damageType: 'poison' }).amount, 5);
+});
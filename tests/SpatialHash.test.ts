@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpatialHash } from '../src/game/SpatialHash';
+
+test('移动、移除后的范围和矩形查询结果与逐个检查一致', () => {
+  const items = Array.from({ length: 200 }, (_, i) => ({ x: (i * 37) % 900 - 450, y: (i * 53) % 700 - 350, width: 30, height: 36 }));
+  const hash = new SpatialHash<typeof items[number]>(64);
+  hash.rebuild(items);
+  items.slice(0, 50).forEach(item => { item.x += 300; hash.update(item); });
+  items.slice(50, 60).forEach(item => hash.remove(item));
+  const remaining = items.filter((_, i) => i < 50 || i >= 60);
+  
+  assert.equal(hash.size, 190);
+  assert.equal(
+    hash.queryRange({ x: 40, y: -20 }, 220).length,
+    remaining.filter(item => Math.hypot(item.x - 40, item.y + 20) <= 220).length
+  );
+  const rect = { x: -100, y: -100, width: 250, height: 180 };
+  assert.equal(hash.queryAABB(rect).length, remaining.filter(item =>
+    item.x <= rect.x + rect.width && item.x + item.width >= rect.x && item.y <= rect.y + rect.height && item.y + item.height >= rect.y
+  ).length);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Player, PLAYER_BASE_STATS } from '../src/game/Player';
+import { StrengthBuffSkill, ExperienceAuraSkill, LifestealAuraSkill } from '../src/game/SkillSystem';
+import { describeStatBreakdown, formatPlayerStat } from '../src/game/Stats';
+import { GameRandom } from '../src/utils/random';
+import { testItem } from './helpers';
+
+// 2级、学会力量提升和经验光环、装备一枚戒指的玩家
+function createStatPlayer(): Player {
+  const player = new Player(0, 0, new GameRandom(23));
+  player.levelUp();
+  player.levelUp();
+  player.learnSkill(new StrengthBuffSkill());
+  player.learnSkill(new ExperienceAuraSkill());
+  player.addEquipment(testItem('迅捷的戒指·精准', 'rare', { attack: 10, criticalRate: 0.05, moveSpeed: 0.1 }, 'ACCESSORY'));
+  player.equipItem('迅捷的戒指·精准');
+  return player;
+}
+
+test('升级、装备、技能和状态效果的修正汇总为最终属性，来源未变化时使用缓存', () => {
+  const player = createStatPlayer();
+  const block = player.getStatBlock();
+  const levelAttack = block.getBreakdown('attack').find(source => source.kind === 'level')!.flat;
+  const attack = player.attack;
+  assert.equal(attack, PLAYER_BASE_STATS.attack + levelAttack + 5 + 10);
+  player.refreshStats();
+  assert.equal(player.attack, attack);
+  assert.equal(block.getBreakdown('attack').length, 3);
+  assert.ok(Math.abs(player.critChance - (PLAYER_BASE_STATS.critChance + 0.05)) < 1e-9);
+  
+  player.statusEffects.apply('slow', 1, 0.5);
+  player.update(1 / 60);
+  assert.ok(Math.abs(player.getMoveSpeed() - PLAYER_BASE_STATS.moveSpeed * (1 + 0.1 - 0.5)) < 1e-9);
+  player.statusEffects.clear();
+  player.update(1 / 60);
+  assert.ok(Math.abs(player.getMoveSpeed() - PLAYER_BASE_STATS.moveSpeed * 1.1) < 1e-9);
+  
+  const experienceBefore = player.experience;
+  player.gainExperience(10);
+  assert.equal(player.experience - experienceBefore, 11);
+  
+  const lifestealPlayer = new Player();
+  lifestealPlayer.levelUp();
+  lifestealPlayer.learnSkill(new LifestealAuraSkill());
+  assert.ok(lifestealPlayer.lifesteal > 0);
+});
+
+test('读档后属性不变', () => {
+  const player = createStatPlayer();
+  const restored = new Player();
+  restored.loadSaveData(JSON.parse(JSON.stringify(player.toSaveData())));
+  assert.equal(restored.attack, player.attack);
+  assert.equal(restored.maxHealth, player.maxHealth);
+  assert.equal(restored.health, player.health);
+  assert.equal(restored.xpGain, player.xpGain);
+});
+
+test('角色面板：属性来源明细包括基础值、升级、装备、技能和状态效果，概况中显示剩余技能点', () => {
+  const player = createStatPlayer();
+  const attackRows = describeStatBreakdown(player.getStatBlock(), 'attack');
+  assert.equal(attackRows.map(row => row.label).join(), '基础,升级,迅捷的戒指·精准,力量提升');
+  assert.equal(attackRows[3]?.value, '+5');
+  
+  player.statusEffects.apply('slow', 1, 0.5);
+  player.update(1 / 60);
+  const speedRows = describeStatBreakdown(player.getStatBlock(), 'moveSpeed');
+  assert.ok(speedRows.some(row => row.label === '减速' && row.value === '-50%（比例）'));
+  
+  assert.equal(formatPlayerStat('attackSpeed', 1), '1.00次/秒');
+  assert.equal(formatPlayerStat('critChance', 0.1), '10%');
+  assert.equal(player.getStatsSummary()['剩余技能点'], '0');
+  assert.ok(player.skills[1]?.getLevelDescription().includes('经验'));
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StatusEffects } from '../src/game/StatusEffects';
+import { Player } from '../src/game/Player';
+import { Monster } from '../src/game/Monster';
+
+test('减速和眩晕影响移动，中毒按来源叠加，刷新型效果不叠加', () => {
+  const effects = new StatusEffects();
+  const attacker = new Player(0, 0);
+  const defender = new Monster(0, 0, 1);
+  effects.apply('slow', 2, 0.3);
+  effects.apply('slow', 1, 0.5);
+  effects.apply('poison', 2, 5, attacker);
+  effects.apply('poison', 2, 5, defender);
+  effects.apply('poison', 2, 5, attacker);
+  assert.ok(Math.abs(effects.getMoveMultiplier() - 0.5) < 1e-9);
+  
+  let poisonTicks = 0;
+  for (let frame = 0; frame < 60; frame++) {
+    poisonTicks += effects.update(1 / 60).filter(tick => tick.damageType === 'poison').length;
+  }
+  assert.equal(poisonTicks, 2);
+  
+  effects.apply('stun', 0.5, 0);
+  assert.equal(effects.getMoveMultiplier(), 0);
+  assert.equal(effects.getEffects().filter(effect => effect.type === 'slow').length, 1);
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WaveDirector, validateWaveConfig, type WaveConfig } from '../src/game/WaveDirector';
+import { Monster, MonsterSpawner } from '../src/game/Monster';
+import { Player } from '../src/game/Player';
+import { EventBus, type GameEventBus } from '../src/game/EventBus';
+import { MONSTER_DEFINITIONS } from '../src/game/data/bestiary';
+import { GameRandom } from '../src/utils/random';
+
+const config: WaveConfig = {
+  spawnRing: { min: 700, max: 1000 },
+  spawnAttempts: 8,
+  hardMonsterCap: 12,
+  curve: [{ time: 0, monsterCap: 4, spawnInterval: 0.5, eliteChance: 0, levelBonus: 0 }],
+  playerScaling: { monsterCapPerLevel: 0, spawnRatePerLevel: 0 },
+  breathers: { start: 10, every: 100, duration: 5 },
+  waves: [{ id: 'pack', name: '测试波次', start: 3, every: 100, groupRadius: 100, groups: [{ monster: 'slimeling', count: 20 }] }]
+};
+
+test('波次按配置生成，休整期暂停刷怪，怪物数量不超过上限，刷怪点避开被拒绝的区域', () => {
+  const monsters: Monster[] = [];
+  const player = new Player(0, 0);
+  const events: GameEventBus = new EventBus();
+  const waveLog: number[] = [];
+  events.on('waveStarted', ({ monsters }) => waveLog.push(monsters.length));
+  const director = new WaveDirector(new MonsterSpawner(1, new GameRandom(31), events), new GameRandom(31), events, validateWaveConfig(config));
+  const host = {
+    getPlayer: () => player,
+    getMonsterCount: () => monsters.length,
+    // 拒绝玩家左侧的所有区域
+    isAreaClear: (area: { x: number }) => area.x > 0,
+    addMonster: (monster: Monster) => monsters.push(monster)
+  };
+  
+  for (let frame = 0; frame < 60 * 2; frame++) director.update(1 / 60, host);
+  assert.equal(monsters.length, 4);
+  
+  for (let frame = 0; frame < 60 * 2; frame++) director.update(1 / 60, host);
+  assert.deepEqual(waveLog, [8]);
+  assert.equal(monsters.length, 12);
+  assert.ok(monsters.every(monster => monster.x > 0));
+  assert.ok(monsters.every(monster => monster.getAIState() === 'seek'));
+  
+  for (let frame = 0; frame < 60 * 6.5; frame++) director.update(1 / 60, host);
+  monsters.length = 0;
+  for (let frame = 0; frame < 60 * 2; frame++) director.update(1 / 60, host);
+  assert.ok(director.getBreatherRemaining() > 0);
+  assert.equal(monsters.length, 0);
+  assert.equal(director.getNextWave()?.time, 103);
+});
+
+test('拒绝引用未知怪物的配置', () => {
+  assert.throws(() => validateWaveConfig({ ...config, waves: [{ ...config.waves[0]!, groups: [{ monster: 'dragon', count: 1 }] }] }));
+});
+
+test('拒绝未知级别和字段类型错误的配置', () => {
+  // 配置来自JSON，类型错误在运行时才能发现
+  const fromJson = (value: object) => JSON.parse(JSON.stringify(value)) as WaveConfig;
+  const withGroup = (group: object) => fromJson({ ...config, waves: [{ ...config.waves[0]!, groups: [group] }] });
+  assert.throws(() => validateWaveConfig(withGroup({ rank: 'elit', count: 1 })), /unknown rank "elit"/);
+  assert.throws(() => validateWaveConfig(withGroup({ rank: 'elite', count: '2' })), /count/);
+  assert.throws(() => validateWaveConfig(fromJson({ ...config, spawnRing: { min: '700', max: 1000 } })), /spawnRing\.min/);
+  assert.throws(() => validateWaveConfig(fromJson({ ...config, breathers: null })), /breathers/);
+});
+
+test('Boss波次的集合点按Boss的尺寸检查', () => {
+  const player = new Player(0, 0);
+  const events: GameEventBus = new EventBus();
+  const bossConfig = validateWaveConfig({
+    ...config,
+    curve: [{ ...config.curve[0]!, monsterCap: 0 }],
+    waves: [{ id: 'boss', name: '首领', start: 0, every: 100, groupRadius: 0, groups: [{ rank: 'boss', count: 1 }] }]
+  });
+  const director = new WaveDirector(new MonsterSpawner(1, new GameRandom(7), events), new GameRandom(7), events, bossConfig);
+  const checkedSizes: number[] = [];
+  const monsters: Monster[] = [];
+  director.update(1 / 60, {
+    getPlayer: () => player,
+    getMonsterCount: () => monsters.length,
+    isAreaClear: (area: { width: number }) => {
+      checkedSizes.push(area.width);
+      return true;
+    },
+    addMonster: (monster: Monster) => monsters.push(monster)
+  });
+  
+  assert.equal(monsters.length, 1);
+  assert.equal(checkedSizes[0], MONSTER_DEFINITIONS.boss!.size.max);
+});
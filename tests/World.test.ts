@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameEvents } from '../src/types';
+import { World, createEmptyInput } from '../src/game/World';
+import { Monster } from '../src/game/Monster';
+import { Player } from '../src/game/Player';
+import { GameRandom } from '../src/utils/random';
+import { simulate, snapshot, testItem } from './helpers';
+
+test('不依赖DOM推进整局模拟', () => {
+  const world = simulate(12345, 600);
+  assert.ok(world.getState().monsters.length > 0);
+});
+
+test('相同种子和输入得到相同结果', () => {
+  assert.equal(snapshot(simulate(12345, 600)), snapshot(simulate(12345, 600)));
+  assert.notEqual(snapshot(simulate(12345, 600)), snapshot(simulate(54321, 600)));
+});
+
+test('朝向跟随瞄准方向，近战只命中前方扇形内的怪物', () => {
+  const world = new World(99);
+  const player = world.getState().player;
+  const [behind, ahead] = [new Monster(player.x - 100, player.y, 1), new Monster(player.x + 100, player.y, 1)];
+  for (const monster of [behind, ahead]) {
+    monster.health = monster.maxHealth = 1000;
+  }
+  world.getState().monsters = [behind, ahead];
+  world.step(1 / 60, { ...createEmptyInput(), attack: true, aimX: 1 });
+  
+  assert.equal(player.facing, 0);
+  assert.equal(behind.health, 1000);
+  assert.ok(ahead.health < 1000);
+});
+
+test('击杀怪物获得分数和经验，升级后等待选择技能', () => {
+  const world = new World(1);
+  const player = world.getState().player;
+  const victim = new Monster(player.x + 60, player.y, 1);
+  victim.health = 1;
+  world.getState().monsters = [victim];
+  world.step(1 / 60, { ...createEmptyInput(), attack: true });
+  assert.ok(!world.getState().monsters.includes(victim));
+  assert.equal(world.getState().score, victim.experienceReward);
+  // 经验以经验球掉落，拾取后获得
+  for (let frame = 0; frame < 30; frame++) world.step(1 / 60, createEmptyInput());
+  assert.equal(player.experience, victim.experienceReward);
+  
+  player.gainExperience(player.experienceToNextLevel);
+  world.step(1 / 60, createEmptyInput());
+  assert.ok(world.isAwaitingSkillChoice());
+  assert.ok(world.chooseSkill(0));
+  assert.ok(!world.isAwaitingSkillChoice());
+});
+
+test('生命归零时结束对局', () => {
+  const world = new World(1);
+  world.getState().player.health = 0;
+  world.step(1 / 60, createEmptyInput());
+  assert.ok(world.isOver());
+});
+
+// 统计事件的派发次数
+function countEvents(world: World, types: readonly (keyof GameEvents)[]): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(types.map(type => [type, 0]));
+  for (const type of types) {
+    world.getEvents().on(type, () => counts[type]!++);
+  }
+  return counts;
+}
+
+test('新生成的怪物从刷怪环赶来交战', () => {
+  // 玩家原地不动，朝最近的怪物攻击
+  const world = new World(4242);
+  const player = world.getState().player;
+  const counts = countEvents(world, ['damageDealt', 'monsterKilled']);
+  for (let frame = 0; frame < 1200; frame++) {
+    const nearest = [...world.getState().monsters].sort((a, b) =>
+      Math.hypot(a.x - player.x, a.y - player.y) - Math.hypot(b.x - player.x, b.y - player.y)
+    )[0];
+    const aim = nearest ? { aimX: nearest.x - player.x, aimY: nearest.y - player.y } : {};
+    world.step(1 / 60, { ...createEmptyInput(), ...aim, attack: frame % 20 === 0 });
+  }
+  
+  assert.ok(counts.damageDealt! > 0, 'damageDealt');
+  assert.ok(counts.monsterKilled! > 0, 'monsterKilled');
+  assert.ok(world.getState().score > 0);
+});
+
+test('游戏事件在对应的时机通过事件总线派发', () => {
+  const world = new World(61);
+  const player = world.getState().player;
+  const counts = countEvents(world, ['damageDealt', 'monsterKilled', 'playerLeveledUp', 'skillLearned', 'lootDropped', 'itemEquipped', 'playerDied']);
+  const expectCounts = (expected: Record<string, number>) => {
+    const { damageDealt, ...rest } = counts;
+    assert.ok(damageDealt! > 0, 'damageDealt');
+    assert.deepEqual(rest, { monsterKilled: 0, playerLeveledUp: 0, skillLearned: 0, lootDropped: 0, itemEquipped: 0, playerDied: 0, ...expected });
+  };
+  
+  // 击杀一只Boss：造成伤害、击杀并掉落装备，经验足够时升级
+  const boss = new Monster(player.x + 60, player.y, 1, 'boss', new GameRandom(2), world.getEvents());
+  boss.health = 1;
+  world.getState().monsters = [boss];
+  world.step(1 / 60, { ...createEmptyInput(), attack: true });
+  const levels = player.level - 1;
+  expectCounts({ monsterKilled: 1, lootDropped: 1, playerLeveledUp: levels });
+  
+  // 再升一级后选择技能
+  player.gainExperience(player.experienceToNextLevel - player.experience);
+  expectCounts({ monsterKilled: 1, lootDropped: 1, playerLeveledUp: levels + 1 });
+  world.step(1 / 60, createEmptyInput());
+  assert.ok(world.isAwaitingSkillChoice());
+  assert.ok(world.chooseSkill(0));
+  expectCounts({ monsterKilled: 1, lootDropped: 1, playerLeveledUp: levels + 1, skillLearned: 1 });
+  
+  // 装备背包中的物品
+  assert.ok(player instanceof Player);
+  player.addEquipment(testItem('测试剑', 'common', { attack: 1 }));
+  player.equipItem('测试剑');
+  expectCounts({ monsterKilled: 1, lootDropped: 1, playerLeveledUp: levels + 1, skillLearned: 1, itemEquipped: 1 });
+  
+  // 生命归零时只派发一次死亡事件
+  player.health = 0;
+  world.step(1 / 60, createEmptyInput());
+  world.step(1 / 60, createEmptyInput());
+  expectCounts({ monsterKilled: 1, lootDropped: 1, playerLeveledUp: levels + 1, skillLearned: 1, itemEquipped: 1, playerDied: 1 });
+});
@@ -0,0 +1,32 @@
+import type { Equipment } from '../src/types';
+import { World, createEmptyInput } from '../src/game/World';
+import type { SaveStorage } from '../src/game/SaveSystem';
+
+// 无头模拟：不依赖DOM，直接推进World
+export function simulate(seed: number, frames: number): World {
+  const world = new World(seed);
+  for (let frame = 0; frame < frames; frame++) {
+    world.step(1 / 60, { ...createEmptyInput(), moveX: frame % 120 < 60 ? 1 : -1, attack: frame % 30 === 0 });
+  }
+  return world;
+}
+
+// 怪物位置和生命值的快照，用于比较两个世界是否一致
+export function snapshot(world: World): string {
+  return JSON.stringify(world.getState().monsters.map(monster => [monster.x, monster.y, monster.health]));
+}
+
+// 测试用的装备（没有词缀）
+export function testItem(name: string, rarity: Equipment['rarity'], stats: Equipment['stats'] = {}, type: Equipment['type'] = 'WEAPON'): Equipment {
+  return { id: name, name, description: '', type, rarity, stats, affixes: [], isEquipped: false };
+}
+
+// 内存中的存储（代替localStorage）
+export function createMemoryStorage(): SaveStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+    removeItem: (key) => { values.delete(key); }
+  };
+}
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameRandom, RandomStream, RANDOM_STREAMS } from '../src/utils/random';
+
+test('同一种子的随机流可复现，各系统的随机流互不影响', () => {
+  const first = new GameRandom(42);
+  const second = new GameRandom(42);
+  const rolls = Array.from({ length: 10 }, () => first.stream(RANDOM_STREAMS.LOOT).next());
+  
+  // 先消耗另一条随机流，不影响掉落流的序列
+  for (let i = 0; i < 100; i++) second.stream(RANDOM_STREAMS.COMBAT).next();
+  assert.deepEqual(Array.from({ length: 10 }, () => second.stream(RANDOM_STREAMS.LOOT).next()), rolls);
+  
+  const stream = new RandomStream('state');
+  stream.next();
+  const resumed = new RandomStream('state', stream.getState());
+  assert.equal(resumed.next(), stream.next());
+});